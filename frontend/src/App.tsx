@@ -1,51 +1,250 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { CSSProperties, FormEvent, PointerEvent as ReactPointerEvent } from "react";
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  ChangeEvent,
+  CSSProperties,
+  FormEvent,
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
+} from "react";
 import {
   createUserWithEmailAndPassword,
-  onAuthStateChanged,
+  onIdTokenChanged,
+  sendEmailVerification,
   signInWithEmailAndPassword,
   signOut,
 } from "firebase/auth";
 import type { User } from "firebase/auth";
 import { auth, getFirestoreInstance, loadFirestore } from "./firebase";
+import { buildIcsCalendar, buildIcsFileName, parseIcsEvents } from "./ics";
+import type { IcsImportedEvent } from "./ics";
+import { buildPdfDocument, buildPdfFileName } from "./pdf";
+import type { PdfBlock } from "./pdf";
+import {
+  computeBalances,
+  formatMoney,
+  fromMinorUnits,
+  getDefaultCurrency,
+  isCurrencyCode,
+  listCurrencyCodes,
+  settleBalances,
+  toMinorUnits,
+} from "./expenses";
+import {
+  BUNDLED_RATES_AS_OF,
+  coerceExchangeRateOverride,
+  coerceExchangeRateTable,
+  convertAmount,
+  isValidExchangeRate,
+  resolveExchangeRate,
+  roundExchangeRate,
+} from "./exchangeRates";
+import type { ExchangeRateOverride, ExchangeRateTable } from "./exchangeRates";
+import {
+  convertIsoLocal,
+  formatTimeZoneAbbreviation,
+  getDeviceTimeZone,
+  isoLocalToUtcMs,
+  isSupportedTimeZone,
+  listTimeZoneOptions,
+  shiftIsoLocal,
+} from "./timeZones";
+import {
+  coerceRecurrence,
+  describeRecurrence,
+  endRecurrenceBefore,
+  formatWeekdayLabel,
+  getWeekday,
+  isRecurrenceFrequency,
+  listOccurrences,
+  RECURRENCE_FREQUENCIES,
+  shiftRecurrenceExceptions,
+} from "./recurrence";
+import type { EventRecurrence, RecurrenceFrequency } from "./recurrence";
+import {
+  coerceEventLocation,
+  fitMapView,
+  formatCoordinates,
+  formatLocationLabel,
+  getLocationPoint,
+  TILE_SIZE,
+  listMapTiles,
+  parseCoordinates,
+  placeInView,
+} from "./locations";
+import type { EventLocation, GeoPoint } from "./locations";
+import {
+  DEFAULT_TRAVEL_SPEEDS,
+  MAX_TRAVEL_SPEED,
+  TRAVEL_MODES,
+  coerceTravelSpeeds,
+  createStraightLineEstimator,
+  formatDistance,
+  getStraightLineDistanceKm,
+  isValidTravelSpeed,
+} from "./travelTime";
+import type { TravelEstimate, TravelLeg, TravelMode, TravelSpeeds, TravelTimeEstimatorFactory } from "./travelTime";
+import { countDaysBetween, shiftIsoDate, shiftStoredEvent } from "./templates";
+import { createPortal } from "react-dom";
 import { Navigate, Route, Routes, useLocation, useNavigate, useParams } from "react-router-dom";
 import "./App.css";
 
 type FirestoreTimestamp = import("firebase/firestore").Timestamp;
 type Unsubscribe = import("firebase/firestore").Unsubscribe;
+type FirestoreModule = typeof import("firebase/firestore");
 
 type AuthPhase = "idle" | "loading" | "authenticated" | "error";
 type AuthMode = "sign-in" | "sign-up";
+type ItineraryRole = "owner" | "editor" | "viewer";
+type ItineraryInviteRole = Exclude<ItineraryRole, "owner">;
+type ItineraryMember = {
+  role: ItineraryRole;
+  email: string | null;
+};
 type Itinerary = {
   id: string;
   title: string;
   createdAt: FirestoreTimestamp | null;
-  travellers: {
-    males: number;
-    females: number;
-    kids: number;
-  };
+  travellers: Traveller[];
+  // True while the stored value is still the legacy `{ males, females, kids }` head count.
+  hasLegacyTravellers: boolean;
   startDate: string | null;
   endDate: string | null;
+  ownerUid: string;
+  // Keyed by member UID; mirrored into the `memberUids` array so dashboards can query by membership.
+  members: Record<string, ItineraryMember>;
+  // Pending invitations keyed by lower-cased email; mirrored into `inviteEmails`.
+  invites: Record<string, ItineraryInviteRole>;
+  // Set while a read-only public link is published at `publicShares/{shareToken}`.
+  shareToken: string | null;
+  budget: ItineraryBudget | null;
+  // Currency that budget totals are reported in, with the trip's own conversion rates into it.
+  homeCurrency: string | null;
+  exchangeRates: ExchangeRateTable | null;
+  // Speeds the calendar's travel estimates use; null uses the defaults.
+  travelSpeeds: TravelSpeeds | null;
+};
+
+type TravellerAgeBand = "adult" | "senior" | "teen" | "child" | "infant";
+
+type Traveller = {
+  id: string;
+  name: string;
+  ageBand: TravellerAgeBand;
+  // Travelio account this traveller signs in with, usually one of the trip's members.
+  linkedUid: string | null;
+  dietaryNotes: string;
+  accessibilityNotes: string;
+};
+
+type ItineraryBudget = {
+  amount: number;
+  currency: string;
+};
+
+type EventCategory = "general" | "flight" | "lodging" | "activity" | "meal" | "transit";
+
+// Per-category booking details, stored as strings in the event's `details` map.
+type EventDetailFields = {
+  general: Record<string, never>;
+  flight: { airline: string; flightNumber: string; departureAirport: string; arrivalAirport: string };
+  lodging: { address: string; confirmationNumber: string; phone: string };
+  activity: { location: string; bookingReference: string };
+  meal: { venue: string; address: string; reservationName: string };
+  transit: { mode: string; from: string; to: string; bookingReference: string };
 };
 
+type EventDetails = Partial<Record<string, string>>;
+
 type ItineraryEvent = {
   id: string;
   title: string;
   description: string | null;
+  // Events saved before categories existed are "general" with no details.
+  category: EventCategory;
+  details: EventDetails;
   startDateTime: string;
   endDateTime: string;
+  // IANA zones the wall clock values above are in; they differ for travel legs such as flights.
+  // Events saved before zones existed have none and render at the same wall clock everywhere.
+  startTimeZone: string | null;
+  endTimeZone: string | null;
+  // Ids from `Itinerary.travellers` this event is for; empty means everyone.
+  travellerIds: string[];
+  location: EventLocation | null;
+  // Repeating events are stored once as a series; the times above are those of its first occurrence.
+  recurrence: EventRecurrence | null;
+  // Set on the occurrences a series expands into, whose id is then `${seriesId}@${key}`.
+  occurrence: { seriesId: string; key: string } | null;
 };
 
 type ItineraryEventDraft = {
   title: string;
   description: string;
+  category: EventCategory;
+  details: EventDetails;
   startDate: string;
   endDate: string;
   startTime: string;
   endTime: string;
+  // Empty for zone-less events.
+  startTimeZone: string;
+  endTimeZone: string;
+  travellerIds: string[];
+  locationName: string;
+  locationAddress: string;
+  // Coordinates or a map link as typed; parsed on save.
+  locationCoordinates: string;
+  // Empty when the event does not repeat.
+  repeat: RecurrenceFrequency | "";
+  repeatInterval: string;
+  repeatWeekdays: number[];
+  // Last date an occurrence may start on; empty repeats until the end of the trip.
+  repeatUntil: string;
+};
+
+// Which occurrences of a repeating event an edit or delete applies to.
+type RecurrenceEditScope = "this" | "following" | "all";
+
+type ExpenseCategory = "lodging" | "transport" | "food" | "activities" | "shopping" | "other";
+
+// Stored in `itineraries/{id}/expenses`. People are member UIDs; `eventId` optionally ties the cost to an event.
+type ItineraryExpense = {
+  id: string;
+  title: string;
+  amount: number;
+  currency: string;
+  category: ExpenseCategory;
+  paidBy: string;
+  splitBetween: string[];
+  eventId: string | null;
+  // Rate actually paid, e.g. from a card statement; takes precedence over the trip's rate table.
+  exchangeRate: ExchangeRateOverride | null;
+  createdAt: FirestoreTimestamp | null;
+};
+
+type ItineraryExpenseDraft = {
+  title: string;
+  amount: string;
+  currency: string;
+  category: ExpenseCategory;
+  paidBy: string;
+  splitBetween: string[];
+  // Empty when the expense is not linked to an event.
+  eventId: string;
+  // Empty to use the trip's rate.
+  exchangeRate: string;
 };
 
+// "trip" shows every event on the local clocks of where it happens, "device" converts to the viewer's zone.
+type CalendarTimeMode = "trip" | "device";
+
+// "grid" is the hour-by-hour calendar, "agenda" a compact list of each day's events that suits small screens,
+// and "timeline" the whole trip at a glance with each event as a bar.
+type CalendarView = "grid" | "agenda" | "timeline";
+
+type EventTiming = Pick<ItineraryEvent, "startDateTime" | "endDateTime"> &
+  Partial<Pick<ItineraryEvent, "startTimeZone" | "endTimeZone">>;
+
 type CalendarSelection = {
   startDate: string;
   startMinutes: number;
@@ -66,6 +265,19 @@ type CalendarLayoutSegment = CalendarSegment & {
   columnCount: number;
 };
 
+// Drag positions are absolute minutes from the first calendar day so that a move can cross day columns.
+type EventDragState = {
+  eventId: string;
+  mode: "move" | "resize-start" | "resize-end";
+  // Keyboard moves preview while an arrow key is held and are saved when it is released.
+  source: "pointer" | "keyboard";
+  originalStart: number;
+  originalEnd: number;
+  previewStart: number;
+  previewEnd: number;
+  anchorOffset?: number;
+};
+
 const deriveReadableError = (error: unknown): string => {
   if (typeof error === "string") return error;
   if (error && typeof error === "object" && "message" in error) {
@@ -74,6 +286,13 @@ const deriveReadableError = (error: unknown): string => {
   return "Something went wrong while processing your request.";
 };
 
+// Firestore applies a write to the local cache straight away but only settles its promise once the server
+// acknowledges it, which never happens while offline. Editing flows treat a queued write as done and only
+// hear back if the server later rejects it.
+const queueWrite = (write: Promise<unknown>, onError: (message: string) => void) => {
+  write.catch((error) => onError(deriveReadableError(error)));
+};
+
 const loadFirestoreModule = loadFirestore;
 
 const asTimestamp = (value: unknown): FirestoreTimestamp | null => {
@@ -98,6 +317,339 @@ const coerceTravellerCount = (value: unknown): number => {
   return Math.floor(numericValue);
 };
 
+const TRAVELLER_AGE_BAND_LABELS: Record<TravellerAgeBand, { singular: string; plural: string }> = {
+  adult: { singular: "Adult", plural: "Adults" },
+  senior: { singular: "Senior", plural: "Seniors" },
+  teen: { singular: "Teen", plural: "Teens" },
+  child: { singular: "Child", plural: "Children" },
+  infant: { singular: "Infant", plural: "Infants" },
+};
+
+const TRAVELLER_AGE_BANDS = Object.keys(TRAVELLER_AGE_BAND_LABELS) as TravellerAgeBand[];
+
+const isTravellerAgeBand = (value: unknown): value is TravellerAgeBand =>
+  typeof value === "string" && value in TRAVELLER_AGE_BAND_LABELS;
+
+const createTraveller = (name = "", ageBand: TravellerAgeBand = "adult"): Traveller => ({
+  id: crypto.randomUUID(),
+  name,
+  ageBand,
+  linkedUid: null,
+  dietaryNotes: "",
+  accessibilityNotes: "",
+});
+
+// Trips created before travellers had names only stored head counts. They load as numbered placeholders with
+// stable ids, so events can be assigned to them before anyone renames and saves the list.
+const migrateTravellerCounts = (counts: Record<string, unknown>): Traveller[] => {
+  const placeholders = (ageBand: TravellerAgeBand, count: number): Traveller[] =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `legacy-${ageBand}-${index + 1}`,
+      name: `${TRAVELLER_AGE_BAND_LABELS[ageBand].singular} ${index + 1}`,
+      ageBand,
+      linkedUid: null,
+      dietaryNotes: "",
+      accessibilityNotes: "",
+    }));
+
+  return [
+    ...placeholders("adult", coerceTravellerCount(counts.males) + coerceTravellerCount(counts.females)),
+    ...placeholders("child", coerceTravellerCount(counts.kids)),
+  ];
+};
+
+const coerceTravellers = (value: unknown): { travellers: Traveller[]; hasLegacyTravellers: boolean } => {
+  if (!Array.isArray(value)) {
+    return value && typeof value === "object"
+      ? { travellers: migrateTravellerCounts(value as Record<string, unknown>), hasLegacyTravellers: true }
+      : { travellers: [], hasLegacyTravellers: false };
+  }
+
+  const travellers: Traveller[] = [];
+  value.forEach((entry) => {
+    if (!entry || typeof entry !== "object") {
+      return;
+    }
+
+    const record = entry as Record<string, unknown>;
+    if (typeof record.id !== "string" || !record.id) {
+      return;
+    }
+
+    travellers.push({
+      id: record.id,
+      name: typeof record.name === "string" ? record.name : "",
+      ageBand: isTravellerAgeBand(record.ageBand) ? record.ageBand : "adult",
+      linkedUid: typeof record.linkedUid === "string" && record.linkedUid ? record.linkedUid : null,
+      dietaryNotes: typeof record.dietaryNotes === "string" ? record.dietaryNotes : "",
+      accessibilityNotes: typeof record.accessibilityNotes === "string" ? record.accessibilityNotes : "",
+    });
+  });
+
+  return { travellers, hasLegacyTravellers: false };
+};
+
+const summarizeTravellerAgeBands = (travellers: Traveller[]): { label: string; value: number }[] =>
+  TRAVELLER_AGE_BANDS.map((ageBand) => ({
+    label: TRAVELLER_AGE_BAND_LABELS[ageBand].plural,
+    value: travellers.filter((traveller) => traveller.ageBand === ageBand).length,
+  })).filter((entry) => entry.value > 0);
+
+const formatTravellerCount = (count: number): string => `${count} ${count === 1 ? "traveller" : "travellers"}`;
+
+const formatDayCount = (count: number): string => `${count} ${count === 1 ? "day" : "days"}`;
+
+// Comma or newline separated names from the quick-create form.
+const parseTravellerNames = (value: string): string[] =>
+  value
+    .split(/[,\n]/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+// Null for events meant for everyone; assignments to removed travellers are ignored.
+const formatEventTravellers = (
+  event: Pick<ItineraryEvent, "travellerIds">,
+  travellerNames: Map<string, string>
+): string | null => {
+  const names = event.travellerIds
+    .map((travellerId) => travellerNames.get(travellerId))
+    .filter((name): name is string => Boolean(name));
+  return names.length && names.length < travellerNames.size ? names.join(", ") : null;
+};
+
+// Events for everyone, or only assigned to travellers who have since been removed, count for every traveller.
+const isEventForTraveller = (
+  event: Pick<ItineraryEvent, "travellerIds">,
+  travellerId: string,
+  travellerNames: Map<string, string>
+): boolean => {
+  const assigned = event.travellerIds.filter((entry) => travellerNames.has(entry));
+  return !assigned.length || assigned.includes(travellerId);
+};
+
+const ITINERARY_ROLE_LABELS: Record<ItineraryRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const EVENT_CATEGORY_CONFIG: {
+  [C in EventCategory]: {
+    label: string;
+    icon: string;
+    // Private fields, such as booking references that are enough to change a booking, stay out of public links.
+    fields: { key: keyof EventDetailFields[C] & string; label: string; placeholder?: string; isPrivate?: boolean }[];
+  };
+} = {
+  general: { label: "General", icon: "📌", fields: [] },
+  flight: {
+    label: "Flight",
+    icon: "✈️",
+    fields: [
+      { key: "airline", label: "Airline", placeholder: "Air India" },
+      { key: "flightNumber", label: "Flight number", placeholder: "AI 161" },
+      { key: "departureAirport", label: "From airport", placeholder: "DEL" },
+      { key: "arrivalAirport", label: "To airport", placeholder: "LHR" },
+    ],
+  },
+  lodging: {
+    label: "Lodging",
+    icon: "🏨",
+    fields: [
+      { key: "address", label: "Address" },
+      { key: "confirmationNumber", label: "Confirmation number", isPrivate: true },
+      { key: "phone", label: "Phone", isPrivate: true },
+    ],
+  },
+  activity: {
+    label: "Activity",
+    icon: "🎟️",
+    fields: [
+      { key: "location", label: "Location" },
+      { key: "bookingReference", label: "Booking reference", isPrivate: true },
+    ],
+  },
+  meal: {
+    label: "Meal",
+    icon: "🍽️",
+    fields: [
+      { key: "venue", label: "Restaurant" },
+      { key: "address", label: "Address" },
+      { key: "reservationName", label: "Reservation name", isPrivate: true },
+    ],
+  },
+  transit: {
+    label: "Transit",
+    icon: "🚆",
+    fields: [
+      { key: "mode", label: "Mode", placeholder: "Train, bus, ferry…" },
+      { key: "from", label: "From" },
+      { key: "to", label: "To" },
+      { key: "bookingReference", label: "Booking reference", isPrivate: true },
+    ],
+  },
+};
+
+const EVENT_CATEGORIES = Object.keys(EVENT_CATEGORY_CONFIG) as EventCategory[];
+
+const isEventCategory = (value: unknown): value is EventCategory =>
+  typeof value === "string" && value in EVENT_CATEGORY_CONFIG;
+
+// Keeps only the non-empty, trimmed fields that belong to the category.
+const coerceEventDetails = (category: EventCategory, value: unknown): EventDetails => {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+
+  const source = value as Record<string, unknown>;
+  const details: EventDetails = {};
+  EVENT_CATEGORY_CONFIG[category].fields.forEach(({ key }) => {
+    const fieldValue = source[key];
+    if (typeof fieldValue === "string" && fieldValue.trim()) {
+      details[key] = fieldValue.trim();
+    }
+  });
+
+  return details;
+};
+
+// One-line summary of the most useful details, e.g. "AI 161 · DEL → LHR".
+const formatEventDetailSummary = (event: Pick<ItineraryEvent, "category" | "details">): string | null => {
+  const { details } = event;
+  let parts: (string | undefined)[];
+
+  switch (event.category) {
+    case "flight":
+      parts = [
+        details.flightNumber ?? details.airline,
+        details.departureAirport && details.arrivalAirport
+          ? `${details.departureAirport} → ${details.arrivalAirport}`
+          : details.departureAirport ?? details.arrivalAirport,
+      ];
+      break;
+    case "lodging":
+      parts = [details.address, details.confirmationNumber ? `Conf. ${details.confirmationNumber}` : undefined];
+      break;
+    case "activity":
+      parts = [details.location];
+      break;
+    case "meal":
+      parts = [details.venue ?? details.address];
+      break;
+    case "transit":
+      parts = [
+        details.mode,
+        details.from && details.to ? `${details.from} → ${details.to}` : details.from ?? details.to,
+      ];
+      break;
+    default:
+      parts = [];
+  }
+
+  const summary = parts.filter(Boolean).join(" · ");
+  return summary || null;
+};
+
+// Place name and address, or the coordinates when that is all the event has.
+const formatEventLocation = (event: Pick<ItineraryEvent, "location">): string | null => {
+  const { location } = event;
+  if (!location) {
+    return null;
+  }
+
+  return location.name && location.address ? `${location.name}, ${location.address}` : formatLocationLabel(location);
+};
+
+type SyncStatus = "synced" | "pending" | "offline" | "offline-pending";
+
+const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  lodging: "Lodging",
+  transport: "Transport",
+  food: "Food & drink",
+  activities: "Activities",
+  shopping: "Shopping",
+  other: "Other",
+};
+
+const isExpenseCategory = (value: unknown): value is ExpenseCategory =>
+  typeof value === "string" && value in EXPENSE_CATEGORY_LABELS;
+
+const coerceItineraryBudget = (value: unknown): ItineraryBudget | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { amount, currency } = value as { amount?: unknown; currency?: unknown };
+  if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0 || !isCurrencyCode(currency)) {
+    return null;
+  }
+
+  return { amount, currency };
+};
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  synced: "All changes synced",
+  pending: "Syncing changes…",
+  offline: "Offline",
+  "offline-pending": "Offline · changes saved on this device",
+};
+
+const isItineraryRole = (value: unknown): value is ItineraryRole =>
+  typeof value === "string" && value in ITINERARY_ROLE_LABELS;
+
+const normalizeEmail = (value: string): string => value.trim().toLowerCase();
+
+const coerceItineraryMembers = (value: unknown): Record<string, ItineraryMember> => {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+
+  const members: Record<string, ItineraryMember> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([uid, entry]) => {
+    if (!entry || typeof entry !== "object") {
+      return;
+    }
+
+    const { role, email } = entry as { role?: unknown; email?: unknown };
+    if (!isItineraryRole(role)) {
+      return;
+    }
+
+    members[uid] = {
+      role,
+      email: typeof email === "string" && email.trim() ? email : null,
+    };
+  });
+
+  return members;
+};
+
+const coerceItineraryInvites = (value: unknown): Record<string, ItineraryInviteRole> => {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+
+  const invites: Record<string, ItineraryInviteRole> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([email, role]) => {
+    if (role === "editor" || role === "viewer") {
+      invites[normalizeEmail(email)] = role;
+    }
+  });
+
+  return invites;
+};
+
+const omitKey = <T,>(record: Record<string, T>, key: string): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).filter(([entryKey]) => entryKey !== key));
+
+const resolveItineraryRole = (itinerary: Itinerary, uid: string): ItineraryRole | null => {
+  if (itinerary.ownerUid === uid) {
+    return "owner";
+  }
+
+  return itinerary.members[uid]?.role ?? null;
+};
+
 const normalizeDateInput = (value: string): string | null => {
   if (!value) {
     return null;
@@ -144,6 +696,36 @@ const formatDateRange = (startDate: string | null, endDate: string | null): stri
   return "Dates not set";
 };
 
+const normalizeItinerary = (id: string, data: Record<string, unknown>): Itinerary => {
+  const budget = coerceItineraryBudget(data.budget);
+
+  return {
+    id,
+    title:
+      typeof data.title === "string" && data.title.trim()
+        ? data.title
+        : "Untitled itinerary",
+    createdAt: asTimestamp(data.createdAt),
+    ...coerceTravellers(data.travellers),
+    startDate:
+      typeof data.startDate === "string"
+        ? normalizeDateInput(data.startDate) ?? null
+        : null,
+    endDate:
+      typeof data.endDate === "string"
+        ? normalizeDateInput(data.endDate) ?? null
+        : null,
+    ownerUid: typeof data.ownerUid === "string" ? data.ownerUid : "",
+    members: coerceItineraryMembers(data.members),
+    invites: coerceItineraryInvites(data.invites),
+    shareToken: typeof data.shareToken === "string" && data.shareToken ? data.shareToken : null,
+    budget,
+    homeCurrency: isCurrencyCode(data.homeCurrency) ? data.homeCurrency : budget?.currency ?? null,
+    exchangeRates: coerceExchangeRateTable(data.exchangeRates),
+    travelSpeeds: coerceTravelSpeeds(data.travelSpeeds),
+  };
+};
+
 const HOUR_MARKERS = Array.from({ length: 24 }, (_, index) => index);
 const CALENDAR_SLOT_HEIGHT_PX = 48;
 const CALENDAR_FORM_WIDTH_PX = 320;
@@ -155,6 +737,8 @@ const padTimeSegment = (value: number): string => String(value).padStart(2, "0")
 const TOTAL_DAY_MINUTES = 24 * 60;
 const MIN_EVENT_DURATION = 30;
 const SELECTION_STEP_MINUTES = 30;
+// Where keyboard focus and "Add event" start on a day with nothing selected yet.
+const DEFAULT_EVENT_START_HOUR = 9;
 
 const clampMinutes = (value: number): number => Math.max(0, Math.min(TOTAL_DAY_MINUTES, value));
 
@@ -171,6 +755,28 @@ const formatDateToIsoLocal = (date: Date): string => {
   return `${date.getFullYear()}-${padTimeSegment(date.getMonth() + 1)}-${padTimeSegment(date.getDate())}`;
 };
 
+// With several travellers side by side, each day is split into equal lanes and overlapping events share a lane.
+const getSegmentBlockStyle = (
+  segment: CalendarLayoutSegment,
+  lane: { index: number; count: number } = { index: 0, count: 1 }
+): CSSProperties => {
+  const durationMinutes = Math.max(
+    segment.segmentEndMinutes - segment.segmentStartMinutes,
+    MIN_EVENT_DURATION
+  );
+  const blockHeight = (durationMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
+  const topOffset = (segment.segmentStartMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
+  const widthFraction = 100 / (segment.columnCount * lane.count);
+  const leftFraction = (100 / lane.count) * lane.index + widthFraction * segment.columnIndex;
+
+  return {
+    top: `${topOffset}px`,
+    height: `${Math.max(blockHeight, 24)}px`,
+    left: `calc(${leftFraction}% + ${CALENDAR_EVENT_GUTTER_PX}px)`,
+    width: `calc(${widthFraction}% - ${CALENDAR_EVENT_GUTTER_PX * 2}px)`,
+  };
+};
+
 const layoutSegmentsWithColumns = (segments: CalendarSegment[]): CalendarLayoutSegment[] => {
   if (segments.length === 0) {
     return [];
@@ -282,6 +888,26 @@ const buildCalendarDays = (start: string | null, end: string | null): CalendarDa
   return days;
 };
 
+const buildDayIndexMap = (days: CalendarDay[]): Map<string, number> => {
+  const map = new Map<string, number>();
+  days.forEach((day, index) => map.set(day.iso, index));
+  return map;
+};
+
+// Minutes since midnight of the first calendar day, or null when the date is outside the calendar.
+const toCalendarAbsoluteMinutes = (
+  dayIndexMap: Map<string, number>,
+  date: string,
+  minutes: number
+): number | null => {
+  const index = dayIndexMap.get(date);
+  if (index === undefined) {
+    return null;
+  }
+
+  return index * TOTAL_DAY_MINUTES + clampMinutes(minutes);
+};
+
 const combineDateWithTime = (date: string, time: string): string | null => {
   const normalizedDate = normalizeDateInput(date);
   if (!normalizedDate || typeof time !== "string") {
@@ -373,6 +999,17 @@ const formatEventTimeRange = (start: string, end: string): string => {
   return "";
 };
 
+// Spoken summary of a time range for the calendar's live region, e.g. "Mon Mar 3, 9:00 AM – 10:30 AM".
+const formatRangeAnnouncement = (start: string, end: string): string => {
+  const range = formatEventTimeRange(start, end);
+  if (start.slice(0, 10) !== end.slice(0, 10)) {
+    return range;
+  }
+
+  const date = new Date(`${start.slice(0, 10)}T00:00:00`);
+  return `${calendarWeekdayFormatter.format(date)} ${calendarMonthDayFormatter.format(date)}, ${range}`;
+};
+
 const formatMinutesToTime = (minutes: number): string => {
   const safeMinutes = clampMinutes(minutes);
   const hours = Math.floor(safeMinutes / 60);
@@ -383,1333 +1020,1467 @@ const formatMinutesToTime = (minutes: number): string => {
 const formatMinutesToIsoLocal = (date: string, minutes: number): string =>
   `${date}T${formatMinutesToTime(minutes)}`;
 
-const getPointerClientY = (
-  nativeEvent: PointerEvent | MouseEvent | TouchEvent
-): number | null => {
-  if ("clientY" in nativeEvent) {
-    return nativeEvent.clientY;
-  }
+const CALENDAR_TIME_MODE_LABELS: Record<CalendarTimeMode, string> = {
+  trip: "Trip local",
+  device: "My device",
+};
 
-  if ("touches" in nativeEvent && nativeEvent.touches.length > 0) {
-    return nativeEvent.touches[0]?.clientY ?? null;
-  }
+const CALENDAR_VIEW_LABELS: Record<CalendarView, string> = {
+  grid: "Grid",
+  agenda: "Agenda",
+  timeline: "Timeline",
+};
 
-  if ("changedTouches" in nativeEvent && nativeEvent.changedTouches.length > 0) {
-    return nativeEvent.changedTouches[0]?.clientY ?? null;
-  }
+const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "Every day",
+  weekly: "On certain days of the week",
+  hourly: "Every few hours",
+};
 
-  return null;
+const RECURRENCE_EDIT_SCOPE_LABELS: Record<RecurrenceEditScope, string> = {
+  this: "This occurrence",
+  following: "This and all following",
+  all: "All occurrences",
 };
 
-function App() {
-  const [username, setUsername] = useState("");
-  const [password, setPassword] = useState("");
-  const [phase, setPhase] = useState<AuthPhase>("idle");
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [mode, setMode] = useState<AuthMode>("sign-in");
-  const [authReady, setAuthReady] = useState(false);
-  const [profileName, setProfileName] = useState<string | null>(null);
-  const [profileDraft, setProfileDraft] = useState("");
-  const [profileLoading, setProfileLoading] = useState(false);
-  const [profileSaving, setProfileSaving] = useState(false);
-  const [profileMessage, setProfileMessage] = useState<string | null>(null);
-  const [profileError, setProfileError] = useState<string | null>(null);
-  const [showProfileEditor, setShowProfileEditor] = useState(false);
-  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
-  const [itinerariesLoading, setItinerariesLoading] = useState(false);
-  const [itineraryError, setItineraryError] = useState<string | null>(null);
-  const [newItineraryTitle, setNewItineraryTitle] = useState("");
-  const [newItineraryTravellers, setNewItineraryTravellers] = useState({
-    males: 0,
-    females: 0,
-    kids: 0,
-  });
-  const [newItineraryDates, setNewItineraryDates] = useState({
-    startDate: "",
-    endDate: "",
-  });
-  const [isCreatingItinerary, setIsCreatingItinerary] = useState(false);
-  const [isItineraryFormVisible, setIsItineraryFormVisible] = useState(false);
-  const [editingItineraryId, setEditingItineraryId] = useState<string | null>(null);
-  const [editItineraryDraft, setEditItineraryDraft] = useState({
-    males: 0,
-    females: 0,
-    kids: 0,
-    startDate: "",
-    endDate: "",
-  });
-  const [editSaving, setEditSaving] = useState(false);
-  const [editError, setEditError] = useState<string | null>(null);
-  const navigate = useNavigate();
-  const location = useLocation();
-  const isItineraryBuilderRoute = location.pathname.startsWith("/itineraries/");
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      setCurrentUser(user);
-      setPhase(user ? "authenticated" : "idle");
-      setAuthReady(true);
-    });
+// Below this width the hour grid shows barely a day at a time, so the agenda is the better starting view.
+const NARROW_SCREEN_QUERY = "(max-width: 640px)";
 
-    return unsubscribe;
-  }, []);
+type AgendaItem =
+  | { kind: "event"; segment: CalendarSegment }
+  | { kind: "gap"; startMinutes: number; minutes: number };
 
-  useEffect(() => {
-    if (!currentUser) {
-      setProfileName(null);
-      setProfileDraft("");
-      setProfileLoading(false);
-      setProfileSaving(false);
-      setProfileMessage(null);
-      setProfileError(null);
-      setShowProfileEditor(false);
-      return;
-    }
+// One day's segments in order, with the free time between them. Gaps shorter than a selection step are left out.
+const buildAgendaItems = (segments: CalendarSegment[]): AgendaItem[] => {
+  const items: AgendaItem[] = [];
+  let busyUntil: number | null = null;
 
-    setProfileLoading(true);
+  segments.forEach((segment) => {
+    if (busyUntil !== null && segment.segmentStartMinutes - busyUntil >= SELECTION_STEP_MINUTES) {
+      items.push({ kind: "gap", startMinutes: busyUntil, minutes: segment.segmentStartMinutes - busyUntil });
+    }
 
-    let unsubscribe: Unsubscribe | undefined;
-    let isActive = true;
+    items.push({ kind: "event", segment });
+    busyUntil = Math.max(busyUntil ?? 0, segment.segmentEndMinutes);
+  });
 
-    loadFirestoreModule()
-      .then(async (module) => {
-        if (!isActive) {
-          return;
-        }
+  return items;
+};
 
-        const { doc, onSnapshot } = module;
-        const firestore = await getFirestoreInstance();
-        const profileRef = doc(firestore, "profiles", currentUser.uid);
+const TIMELINE_ROW_HEIGHT_PX = 30;
+const TIMELINE_DAY_MIN_WIDTH_PX = 56;
 
-        unsubscribe = onSnapshot(
-          profileRef,
-          (snapshot) => {
-            if (!snapshot.exists()) {
-              setProfileName(null);
-              setProfileDraft("");
-              setProfileLoading(false);
-              setProfileError(null);
-              return;
-            }
+type TimelineBar = {
+  event: ItineraryEvent;
+  // Minutes from midnight of the first trip day, clipped to the trip.
+  startMinutes: number;
+  endMinutes: number;
+  row: number;
+};
 
-            const data = snapshot.data();
-            const rawName =
-              data && typeof data.displayName === "string"
-                ? data.displayName
-                : "";
-            const normalized = rawName.trim();
-
-            setProfileName(normalized || null);
-            setProfileDraft(normalized);
-            setProfileLoading(false);
-            setProfileError(null);
-          },
-          (error) => {
-            setProfileError(deriveReadableError(error));
-            setProfileLoading(false);
-          }
-        );
-      })
-      .catch((error) => {
-        if (!isActive) {
-          return;
-        }
+// Wall clock minutes from midnight of `firstDay`; negative before it.
+const minutesSinceDay = (firstDay: string, value: string): number | null => {
+  const parsed = parseIsoLocalDateTime(value);
+  if (!parsed) {
+    return null;
+  }
 
-        setProfileError(deriveReadableError(error));
-        setProfileLoading(false);
-      });
+  const dayOffset = Math.round(
+    (Date.parse(`${parsed.date}T00:00:00Z`) - Date.parse(`${firstDay}T00:00:00Z`)) / (TOTAL_DAY_MINUTES * 60_000)
+  );
+  return dayOffset * TOTAL_DAY_MINUTES + parsed.hours * 60 + parsed.minutes;
+};
 
-    return () => {
-      isActive = false;
-      if (unsubscribe) {
-        unsubscribe();
+// One bar per event across the whole trip, stacked into as few rows as possible without overlapping.
+const layoutTimelineBars = (
+  events: ItineraryEvent[],
+  firstDay: string,
+  totalMinutes: number
+): { bars: TimelineBar[]; rowCount: number } => {
+  const rowEnds: number[] = [];
+  const bars: TimelineBar[] = [];
+
+  events
+    .map((event) => {
+      const start = minutesSinceDay(firstDay, event.startDateTime);
+      const end = minutesSinceDay(firstDay, event.endDateTime);
+      return start === null || end === null || end <= 0 || start >= totalMinutes
+        ? null
+        : { event, startMinutes: Math.max(start, 0), endMinutes: Math.min(end, totalMinutes) };
+    })
+    .filter((entry): entry is Omit<TimelineBar, "row"> => Boolean(entry && entry.endMinutes > entry.startMinutes))
+    .sort((first, second) => first.startMinutes - second.startMinutes || second.endMinutes - first.endMinutes)
+    .forEach((entry) => {
+      let row = rowEnds.findIndex((rowEnd) => rowEnd <= entry.startMinutes);
+      if (row === -1) {
+        row = rowEnds.length;
       }
-    };
-  }, [currentUser]);
 
-  useEffect(() => {
-    if (!profileMessage) {
-      return;
-    }
+      rowEnds[row] = entry.endMinutes;
+      bars.push({ ...entry, row });
+    });
 
-    const timeout = window.setTimeout(() => {
-      setProfileMessage(null);
-    }, 3000);
+  return { bars, rowCount: rowEnds.length };
+};
 
-    return () => window.clearTimeout(timeout);
-  }, [profileMessage]);
+const formatGapDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return [hours ? `${hours}h` : null, remainder ? `${remainder}m` : null].filter(Boolean).join(" ");
+};
 
-  useEffect(() => {
-    if (!currentUser) {
-      setItineraries([]);
-      setItinerariesLoading(false);
-      setItineraryError(null);
-      setNewItineraryTitle("");
-      setNewItineraryTravellers({ males: 0, females: 0, kids: 0 });
-      setNewItineraryDates({ startDate: "", endDate: "" });
-      setIsItineraryFormVisible(false);
-      return;
-    }
+// Times for one day's piece of an event; pieces of multi-day events only show the end they contain.
+const formatAgendaSegmentTime = (segment: CalendarSegment): string => {
+  const { event, isStartSegment, isEndSegment } = segment;
+  if (isStartSegment && isEndSegment) {
+    return formatEventTimeRange(event.startDateTime, event.endDateTime);
+  }
 
-    setItinerariesLoading(true);
+  if (isStartSegment) {
+    return `From ${formatTimeLabelFromIso(event.startDateTime)}`;
+  }
 
-    let unsubscribe: Unsubscribe | undefined;
-    let isActive = true;
+  return isEndSegment ? `Until ${formatTimeLabelFromIso(event.endDateTime)}` : "All day";
+};
 
-    loadFirestoreModule()
-      .then(async ({ collection, query, where, onSnapshot }) => {
-        if (!isActive) {
-          return;
-        }
+// Zone-less events are measured on the device clock.
+const getEventInstantRange = (timing: EventTiming): { start: number; end: number } | null => {
+  const start = isoLocalToUtcMs(timing.startDateTime, timing.startTimeZone ?? null);
+  const end = isoLocalToUtcMs(timing.endDateTime, timing.endTimeZone ?? timing.startTimeZone ?? null);
+  return start === null || end === null ? null : { start, end };
+};
 
-        const firestore = await getFirestoreInstance();
-        const userItinerariesQuery = query(
-          collection(firestore, "itineraries"),
-          where("ownerUid", "==", currentUser.uid)
-        );
+const findOverlappingEvents = (timing: EventTiming, events: ItineraryEvent[]): ItineraryEvent[] => {
+  const range = getEventInstantRange(timing);
+  if (!range) {
+    return [];
+  }
 
-        unsubscribe = onSnapshot(
-          userItinerariesQuery,
-          (snapshot) => {
-            const mapped = snapshot.docs
-              .map((docSnapshot) => {
-                const data = docSnapshot.data();
-                const travellersData =
-                  data && typeof data.travellers === "object"
-                    ? (data.travellers as Record<string, unknown>)
-                    : {};
-
-                return {
-                  id: docSnapshot.id,
-                  title:
-                    typeof data.title === "string" && data.title.trim()
-                      ? data.title
-                      : "Untitled itinerary",
-                  createdAt: asTimestamp(data.createdAt),
-                  travellers: {
-                    males: coerceTravellerCount(travellersData.males),
-                    females: coerceTravellerCount(travellersData.females),
-                    kids: coerceTravellerCount(travellersData.kids),
-                  },
-                  startDate:
-                    typeof data.startDate === "string"
-                      ? normalizeDateInput(data.startDate) ?? null
-                      : null,
-                  endDate:
-                    typeof data.endDate === "string"
-                      ? normalizeDateInput(data.endDate) ?? null
-                      : null,
-                } satisfies Itinerary;
-              })
-              .sort((first, second) => {
-                const firstTime = first.createdAt ? first.createdAt.toMillis() : 0;
-                const secondTime = second.createdAt ? second.createdAt.toMillis() : 0;
-                return secondTime - firstTime;
-              });
+  return events.filter((entry) => {
+    const entryRange = getEventInstantRange(entry);
+    return Boolean(entryRange && entryRange.start < range.end && range.start < entryRange.end);
+  });
+};
 
-            setItineraries(mapped);
-            setItineraryError(null);
-            setItinerariesLoading(false);
-          },
-          (error) => {
-            setItineraryError(deriveReadableError(error));
-            setItineraries([]);
-            setItinerariesLoading(false);
-          }
-        );
-      })
-      .catch((error) => {
-        if (!isActive) {
-          return;
-        }
+type ItineraryWarningKind = "overlap" | "outside-trip" | "tight-connection" | "short-night";
 
-        setItineraryError(deriveReadableError(error));
-        setItineraries([]);
-        setItinerariesLoading(false);
-      });
+type ItineraryWarning = {
+  key: string;
+  kind: ItineraryWarningKind;
+  // The events involved, in the order they happen.
+  eventIds: string[];
+  message: string;
+};
 
-    return () => {
-      isActive = false;
-      if (unsubscribe) {
-        unsubscribe();
-      }
-    };
-  }, [currentUser]);
+const ITINERARY_WARNING_LABELS: Record<ItineraryWarningKind, string> = {
+  overlap: "Overlap",
+  "outside-trip": "Outside trip dates",
+  "tight-connection": "No travel time",
+  "short-night": "Short night",
+};
 
-  useEffect(() => {
-    if (!authReady) {
-      return;
-    }
+// An event ending at or after LATE_NIGHT_HOUR (or in the small hours) followed by one starting before
+// EARLY_MORNING_HOUR, with less than MIN_NIGHT_REST_MINUTES in between, leaves too little sleep.
+const LATE_NIGHT_HOUR = 22;
+const EARLY_MORNING_HOUR = 7;
+const MIN_NIGHT_REST_MINUTES = 8 * 60;
+// Events are saved with a 23:59 end rather than 24:00, so a one-minute gap still counts as back to back.
+const BACK_TO_BACK_GAP_MINUTES = 1;
+
+// Where an event starts and ends according to its booking details; stays, meals and activities are in one place.
+const getEventPlaces = (
+  event: Pick<ItineraryEvent, "category" | "details" | "location">
+): { start: string | null; end: string | null } => {
+  const { details } = event;
+  if (event.category === "flight") {
+    return { start: details.departureAirport ?? null, end: details.arrivalAirport ?? null };
+  }
 
-    if (!currentUser && phase !== "loading" && location.pathname !== "/") {
-      navigate("/", {
-        replace: true,
-        state: { from: location.pathname },
+  if (event.category === "transit") {
+    return { start: details.from ?? null, end: details.to ?? null };
+  }
+
+  const place =
+    (event.location && formatLocationLabel(event.location)) || details.location || details.venue || details.address;
+  return { start: place ?? null, end: place ?? null };
+};
+
+const isSamePlace = (first: string, second: string): boolean =>
+  first.trim().toLowerCase() === second.trim().toLowerCase();
+
+// Names of the travellers both events are for, empty when the trip has no named travellers, or null when the
+// events are for different people.
+const findSharedTravellers = (
+  first: ItineraryEvent,
+  second: ItineraryEvent,
+  travellerNames: Map<string, string>
+): string[] | null => {
+  if (!travellerNames.size) {
+    return [];
+  }
+
+  const shared = [...travellerNames]
+    .filter(
+      ([travellerId]) =>
+        isEventForTraveller(first, travellerId, travellerNames) &&
+        isEventForTraveller(second, travellerId, travellerNames)
+    )
+    .map(([, name]) => name);
+  return shared.length ? shared : null;
+};
+
+// Flags plans that cannot work as written. Stays overlap everything else by design, so they are only checked for
+// overlaps with other stays. Times are compared as instants, so events in different zones line up correctly.
+const validateItinerary = (
+  events: ItineraryEvent[],
+  startDate: string | null,
+  endDate: string | null,
+  travellerNames: Map<string, string>
+): ItineraryWarning[] => {
+  const warnings: ItineraryWarning[] = [];
+  const timedEvents = events
+    .map((event) => ({ event, range: getEventInstantRange(event) }))
+    .filter((entry): entry is { event: ItineraryEvent; range: { start: number; end: number } } => Boolean(entry.range))
+    .sort((first, second) => first.range.start - second.range.start);
+  // Only the closest late finish before each early start is reported, rather than every event of the evening.
+  const shortNights = new Map<string, { gapMinutes: number; warning: ItineraryWarning }>();
+
+  timedEvents.forEach(({ event }) => {
+    const startsBefore = Boolean(startDate && event.startDateTime.slice(0, 10) < startDate);
+    const endsAfter = Boolean(endDate && event.endDateTime.slice(0, 10) > endDate);
+    if (startsBefore || endsAfter) {
+      warnings.push({
+        key: `outside-trip:${event.id}`,
+        kind: "outside-trip",
+        eventIds: [event.id],
+        message: `“${event.title}” is outside the trip dates.`,
       });
     }
-  }, [authReady, currentUser, phase, location.pathname, navigate]);
+  });
 
-  useEffect(() => {
-    if (!authReady || !currentUser) {
-      return;
-    }
+  timedEvents.forEach(({ event: first, range: firstRange }, index) => {
+    for (const { event: second, range: secondRange } of timedEvents.slice(index + 1)) {
+      // Later events start later still, so once one is clear of the night-rest window the rest are too.
+      const gapMinutes = (secondRange.start - firstRange.end) / 60000;
+      if (gapMinutes >= MIN_NIGHT_REST_MINUTES) {
+        break;
+      }
 
-    const state = location.state as { from?: string } | null;
-    if (state && typeof state.from === "string" && location.pathname === "/") {
-      navigate(state.from, { replace: true });
-    }
-  }, [authReady, currentUser, location.pathname, location.state, navigate]);
+      const shared = findSharedTravellers(first, second, travellerNames);
+      if (!shared) {
+        continue;
+      }
 
-  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    setPhase("loading");
-    setErrorMessage(null);
+      const forWhom = shared.length && shared.length < travellerNames.size ? ` for ${shared.join(", ")}` : "";
+      const between = `“${first.title}” and “${second.title}”${forWhom}`;
+      const eventIds = [first.id, second.id];
+      const key = eventIds.join("|");
+
+      if (gapMinutes < 0) {
+        if ((first.category === "lodging") === (second.category === "lodging")) {
+          warnings.push({
+            key: `overlap:${key}`,
+            kind: "overlap",
+            eventIds,
+            message: `“${first.title}” and “${second.title}” overlap${forWhom}.`,
+          });
+        }
+        continue;
+      }
 
-    try {
-      if (mode === "sign-in") {
-        await signInWithEmailAndPassword(auth, username, password);
-      } else {
-        await createUserWithEmailAndPassword(auth, username, password);
+      const from = getEventPlaces(first).end;
+      const to = getEventPlaces(second).start;
+      if (gapMinutes <= BACK_TO_BACK_GAP_MINUTES && from && to && !isSamePlace(from, to)) {
+        warnings.push({
+          key: `tight-connection:${key}`,
+          kind: "tight-connection",
+          eventIds,
+          message: `No time to get from ${from} to ${to} between ${between}.`,
+        });
+        continue;
       }
-    } catch (error) {
-      setPhase("error");
-      setErrorMessage(deriveReadableError(error));
-    }
-  };
 
-  const handleSignOut = async () => {
-    try {
-      await signOut(auth);
-      setPhase("idle");
-    } catch (error) {
-      setErrorMessage(deriveReadableError(error));
-      setPhase("error");
+      const endHour = parseIsoLocalDateTime(first.endDateTime)?.hours;
+      const startHour = parseIsoLocalDateTime(second.startDateTime)?.hours;
+      const isLateFinish = endHour !== undefined && (endHour >= LATE_NIGHT_HOUR || endHour < EARLY_MORNING_HOUR);
+      const isEarlyStart = startHour !== undefined && startHour < EARLY_MORNING_HOUR;
+      const previous = shortNights.get(second.id);
+      if (isLateFinish && isEarlyStart && (!previous || gapMinutes < previous.gapMinutes)) {
+        shortNights.set(second.id, {
+          gapMinutes,
+          warning: {
+            key: `short-night:${key}`,
+            kind: "short-night",
+            eventIds,
+            message: `Only ${formatGapDuration(gapMinutes) || "0m"} between ${between}.`,
+          },
+        });
+      }
     }
-  };
+  });
 
-  const toggleMode = () => {
-    setUsername("");
-    setPassword("");
-    setErrorMessage(null);
-    setMode((prevMode) => (prevMode === "sign-in" ? "sign-up" : "sign-in"));
-  };
+  shortNights.forEach(({ warning }) => warnings.push(warning));
+  return warnings;
+};
 
-  const isAuthenticating = phase === "loading";
-  const isSignUp = mode === "sign-up";
+const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  walking: "Walking",
+  transit: "Transit",
+  driving: "Driving",
+};
 
-  const handleProfileSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
+const TRAVEL_MODE_ICONS: Record<TravelMode, string> = {
+  walking: "🚶",
+  transit: "🚆",
+  driving: "🚗",
+};
 
-    if (!currentUser) {
-      setProfileError("You need to be signed in to update your name.");
-      return;
-    }
+// Stops closer than this, such as two events in the same building, get no travel marker.
+const MIN_TRAVEL_DISTANCE_KM = 0.05;
 
-    const trimmed = profileDraft.trim();
+type TravelGap = {
+  key: string;
+  fromEvent: ItineraryEvent;
+  toEvent: ItineraryEvent;
+  // Where the gap sits on the day, in wall clock minutes.
+  startMinutes: number;
+  endMinutes: number;
+  // Real time between the events, which differs from the wall clock gap when they are in different zones.
+  availableMinutes: number;
+  from: GeoPoint;
+  to: GeoPoint;
+  distanceKm: number;
+};
 
-    if (!trimmed) {
-      setProfileError("Please tell us what to call you.");
-      return;
-    }
+// Gaps between consecutive events on one day that both have coordinates, following each traveller in
+// `travellerIds` separately (null follows every event). Stays are left out: they cover the night rather than a
+// stop in the day's route. Instants come from `eventsById`, as the segments may be converted to another clock.
+const findTravelGaps = (
+  segments: CalendarSegment[],
+  travellerIds: (string | null)[],
+  travellerNames: Map<string, string>,
+  eventsById: Map<string, ItineraryEvent>
+): TravelGap[] => {
+  const gaps = new Map<string, TravelGap>();
+  const ordered = segments
+    .filter((segment) => segment.event.category !== "lodging")
+    .sort((first, second) => first.segmentStartMinutes - second.segmentStartMinutes);
+
+  travellerIds.forEach((travellerId) => {
+    // The event that finishes last so far, as with the agenda's free time.
+    let previous: CalendarSegment | null = null;
+
+    for (const segment of ordered) {
+      if (travellerId && !isEventForTraveller(segment.event, travellerId, travellerNames)) {
+        continue;
+      }
 
-    if (trimmed === (profileName?.trim() ?? "")) {
-      setProfileMessage("Saved!");
-      return;
-    }
+      const last: CalendarSegment | null = previous;
+      if (!last || segment.segmentEndMinutes > last.segmentEndMinutes) {
+        previous = segment;
+      }
 
-    setProfileSaving(true);
-    setProfileError(null);
-    setProfileMessage(null);
+      if (!last || !last.isEndSegment || !segment.isStartSegment) {
+        continue;
+      }
 
-    try {
-      const [{ doc, setDoc }, firestore] = await Promise.all([
-        loadFirestoreModule(),
-        getFirestoreInstance(),
-      ]);
+      const from = getLocationPoint(last.event.location);
+      const to = getLocationPoint(segment.event.location);
+      const fromRange = getEventInstantRange(eventsById.get(last.event.id) ?? last.event);
+      const toRange = getEventInstantRange(eventsById.get(segment.event.id) ?? segment.event);
+      if (!from || !to || !fromRange || !toRange || toRange.start < fromRange.end) {
+        continue;
+      }
 
-      const profileRef = doc(firestore, "profiles", currentUser.uid);
-      await setDoc(profileRef, { displayName: trimmed }, { merge: true });
+      const distanceKm = getStraightLineDistanceKm(from, to);
+      if (distanceKm < MIN_TRAVEL_DISTANCE_KM) {
+        continue;
+      }
 
-      setProfileName(trimmed);
-      setProfileDraft(trimmed);
-      setProfileMessage("Saved!");
-    } catch (error) {
-      setProfileError(deriveReadableError(error));
-    } finally {
-      setProfileSaving(false);
-      setShowProfileEditor(false);
+      const key = `${last.event.id}>${segment.event.id}`;
+      gaps.set(key, {
+        key,
+        fromEvent: last.event,
+        toEvent: segment.event,
+        startMinutes: last.segmentEndMinutes,
+        endMinutes: Math.max(segment.segmentStartMinutes, last.segmentEndMinutes),
+        availableMinutes: Math.round((toRange.start - fromRange.end) / 60000),
+        from,
+        to,
+        distanceKm,
+      });
     }
-  };
+  });
 
-  const handleCreateItinerary = async (
-    event: FormEvent<HTMLFormElement>
-  ) => {
-    event.preventDefault();
+  return [...gaps.values()];
+};
 
-    if (!currentUser) {
-      setItineraryError("You need to be signed in to create an itinerary.");
-      return;
-    }
+// Estimates are cached by this key, so changing a speed or mode asks again rather than reusing a stale answer.
+const getTravelLegKey = (gap: TravelGap, mode: TravelMode, speeds: TravelSpeeds): string =>
+  `${mode}:${speeds[mode]}:${formatCoordinates(gap.from)}>${formatCoordinates(gap.to)}`;
+
+// Without an estimate, which is the case while it loads or when no route was found, only the distance is shown.
+const summarizeTravelGap = (
+  gap: TravelGap,
+  estimate: TravelEstimate | null | undefined
+): { text: string; label: string; isTight: boolean } => {
+  const distance = formatDistance(gap.distanceKm);
+  const free = formatGapDuration(gap.availableMinutes);
+  const freeLabel = free ? `${free} free` : "no time between";
+  if (!estimate) {
+    return { text: distance, label: `${distance} to ${gap.toEvent.title}, ${freeLabel}`, isTight: false };
+  }
 
-    const trimmedTitle = newItineraryTitle.trim();
+  const duration = formatGapDuration(estimate.minutes) || "1m";
+  const isTight = estimate.minutes > gap.availableMinutes;
+  return {
+    text: `${distance} · ${duration}${isTight ? ` (${free || "0m"} free)` : ""}`,
+    label: `${TRAVEL_MODE_LABELS[estimate.mode]} to ${gap.toEvent.title}: ${distance}, about ${duration}, ${freeLabel}${
+      isTight ? ", not enough time" : ""
+    }`,
+    isTight,
+  };
+};
 
-    if (!trimmedTitle) {
-      setItineraryError("Itinerary name is required.");
-      return;
-    }
+const getTravelGapStyle = (gap: TravelGap, lane: { index: number; count: number }): CSSProperties => ({
+  top: `${(gap.startMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX}px`,
+  height: `${((gap.endMinutes - gap.startMinutes) / 60) * CALENDAR_SLOT_HEIGHT_PX}px`,
+  left: `calc(${(100 / lane.count) * lane.index}% + ${CALENDAR_EVENT_GUTTER_PX}px)`,
+  width: `calc(${100 / lane.count}% - ${CALENDAR_EVENT_GUTTER_PX * 2}px)`,
+});
 
-    const normalizedStart = normalizeDateInput(newItineraryDates.startDate);
-    const normalizedEnd = normalizeDateInput(newItineraryDates.endDate);
+// Re-expresses an event's times for the calendar. Zone-less events are floating and never move.
+const toDisplayEvent = (event: ItineraryEvent, mode: CalendarTimeMode, deviceTimeZone: string): ItineraryEvent => {
+  const { startTimeZone, endTimeZone } = event;
+  if (!startTimeZone || !endTimeZone) {
+    return event;
+  }
 
-    if (!normalizedStart || !normalizedEnd) {
-      setItineraryError("Please provide both start and end dates for the trip.");
-      return;
-    }
+  if (mode === "device") {
+    const startDateTime = convertIsoLocal(event.startDateTime, startTimeZone, deviceTimeZone);
+    const endDateTime = convertIsoLocal(event.endDateTime, endTimeZone, deviceTimeZone);
+    return startDateTime && endDateTime ? { ...event, startDateTime, endDateTime } : event;
+  }
 
-    if (new Date(normalizedStart) > new Date(normalizedEnd)) {
-      setItineraryError("Trip end date should be after the start date.");
-      return;
-    }
+  // A westbound leg can land before it departs on local clocks; draw it with its real length instead.
+  if (event.endDateTime <= event.startDateTime) {
+    const range = getEventInstantRange(event);
+    const endDateTime = range
+      ? shiftIsoLocal(event.startDateTime, startTimeZone, Math.max((range.end - range.start) / 60000, MIN_EVENT_DURATION))
+      : null;
+    return endDateTime ? { ...event, endDateTime } : event;
+  }
 
-    const travellers = {
-      males: coerceTravellerCount(newItineraryTravellers.males),
-      females: coerceTravellerCount(newItineraryTravellers.females),
-      kids: coerceTravellerCount(newItineraryTravellers.kids),
-    };
+  return event;
+};
 
-    setIsCreatingItinerary(true);
-    setItineraryError(null);
+const formatEventZoneHint = (event: ItineraryEvent): string | null => {
+  if (!event.startTimeZone) {
+    return null;
+  }
 
-    try {
-      const [{ addDoc, collection, serverTimestamp }, firestore] = await Promise.all([
-        loadFirestoreModule(),
-        getFirestoreInstance(),
-      ]);
+  const range = getEventInstantRange(event);
+  const startLabel = formatTimeZoneAbbreviation(event.startTimeZone, range?.start);
+  if (!event.endTimeZone || event.endTimeZone === event.startTimeZone) {
+    return startLabel;
+  }
 
-      await addDoc(collection(firestore, "itineraries"), {
-        title: trimmedTitle,
-        ownerUid: currentUser.uid,
-        travellers,
-        startDate: normalizedStart,
-        endDate: normalizedEnd,
-        createdAt: serverTimestamp(),
-      });
+  return `${startLabel} → ${formatTimeZoneAbbreviation(event.endTimeZone, range?.end)}`;
+};
 
-      setNewItineraryTitle("");
-      setNewItineraryTravellers({ males: 0, females: 0, kids: 0 });
-      setNewItineraryDates({ startDate: "", endDate: "" });
-      setIsItineraryFormVisible(false);
-    } catch (error) {
-      setItineraryError(deriveReadableError(error));
-    } finally {
-      setIsCreatingItinerary(false);
+// New events default to wherever the traveller is after the last event that starts before them.
+const inferTimeZoneAt = (events: ItineraryEvent[], isoStart: string, fallback: string): string => {
+  let zone = fallback;
+  let latestStart = "";
+
+  events.forEach((entry) => {
+    if (entry.endTimeZone && entry.startDateTime <= isoStart && entry.startDateTime >= latestStart) {
+      zone = entry.endTimeZone;
+      latestStart = entry.startDateTime;
     }
-  };
+  });
 
-  const beginEditItinerary = (itinerary: Itinerary) => {
-    setEditingItineraryId(itinerary.id);
-    setEditItineraryDraft({
-      males: itinerary.travellers.males,
-      females: itinerary.travellers.females,
-      kids: itinerary.travellers.kids,
-      startDate: itinerary.startDate ?? "",
-      endDate: itinerary.endDate ?? "",
+  return zone;
+};
+
+const formatImportedEventRange = (entry: IcsImportedEvent): string => {
+  const startDate = entry.startDateTime.slice(0, 10);
+  const endDate = entry.endDateTime.slice(0, 10);
+
+  if (entry.allDay) {
+    return `All day · ${formatDateRange(startDate, endDate)}`;
+  }
+
+  if (startDate !== endDate) {
+    return formatEventTimeRange(entry.startDateTime, entry.endDateTime);
+  }
+
+  const dayLabel = new Intl.DateTimeFormat(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(entry.startDateTime));
+  return `${dayLabel} · ${formatEventTimeRange(entry.startDateTime, entry.endDateTime)}`;
+};
+
+type AgendaDay = {
+  iso: string;
+  label: string;
+  // 1-based position within the trip dates; null for days outside them that still have events.
+  dayNumber: number | null;
+  events: ItineraryEvent[];
+};
+
+type PrintableAgendaData = {
+  title: string;
+  dateRange: string;
+  travellers: Traveller[];
+  travellerNames: Map<string, string>;
+  days: AgendaDay[];
+};
+
+const agendaDayFormatter = new Intl.DateTimeFormat(undefined, {
+  weekday: "long",
+  month: "long",
+  day: "numeric",
+  year: "numeric",
+});
+
+// Every trip day in order plus any other day with events. Events are listed once, on the day they start.
+const buildAgendaDays = (startDate: string | null, endDate: string | null, events: ItineraryEvent[]): AgendaDay[] => {
+  const tripDayIndexMap = buildDayIndexMap(buildCalendarDays(startDate, endDate));
+  const eventsByDay = new Map<string, ItineraryEvent[]>();
+
+  [...events]
+    .sort(
+      (first, second) =>
+        first.startDateTime.localeCompare(second.startDateTime) || first.endDateTime.localeCompare(second.endDateTime)
+    )
+    .forEach((event) => {
+      const date = event.startDateTime.slice(0, 10);
+      eventsByDay.set(date, [...(eventsByDay.get(date) ?? []), event]);
     });
-    setEditError(null);
-  };
 
-  const cancelEditItinerary = () => {
-    setEditingItineraryId(null);
-    setEditError(null);
-    setEditItineraryDraft({ males: 0, females: 0, kids: 0, startDate: "", endDate: "" });
-  };
+  return Array.from(new Set([...tripDayIndexMap.keys(), ...eventsByDay.keys()]))
+    .sort()
+    .map((iso) => {
+      const dayIndex = tripDayIndexMap.get(iso);
+      return {
+        iso,
+        label: agendaDayFormatter.format(new Date(`${iso}T00:00:00`)),
+        dayNumber: dayIndex === undefined ? null : dayIndex + 1,
+        events: eventsByDay.get(iso) ?? [],
+      };
+    });
+};
 
-  const handleUpdateItinerary = async (
-    event: FormEvent<HTMLFormElement>,
-    itineraryId: string
-  ) => {
-    event.preventDefault();
+// Secondary lines under an agenda entry: category details, time zones and who the event is for.
+const describeAgendaEvent = (event: ItineraryEvent, travellerNames: Map<string, string>): string[] => {
+  const detailSummary = formatEventDetailSummary(event);
+  const zoneHint = formatEventZoneHint(event);
+  const eventTravellers = formatEventTravellers(event, travellerNames);
+  const location = formatEventLocation(event);
+
+  return [
+    [EVENT_CATEGORY_CONFIG[event.category].label, detailSummary].filter(Boolean).join(" · "),
+    location ? `At ${location}` : null,
+    zoneHint ? `Times in ${zoneHint}` : null,
+    eventTravellers ? `For ${eventTravellers}` : null,
+  ].filter((line): line is string => Boolean(line));
+};
 
-    if (!currentUser) {
-      setEditError("You need to be signed in to update an itinerary.");
-      return;
+const formatAgendaDayHeading = (day: AgendaDay): string =>
+  day.dayNumber === null ? day.label : `Day ${day.dayNumber} · ${day.label}`;
+
+const formatAgendaTravellerNotes = (traveller: Traveller): string =>
+  [
+    TRAVELLER_AGE_BAND_LABELS[traveller.ageBand].singular,
+    traveller.dietaryNotes ? `Diet: ${traveller.dietaryNotes}` : null,
+    traveller.accessibilityNotes ? `Access: ${traveller.accessibilityNotes}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const buildAgendaPdfBlocks = ({ title, dateRange, travellers, travellerNames, days }: PrintableAgendaData): PdfBlock[] => {
+  const blocks: PdfBlock[] = [
+    { text: title, style: "title" },
+    { text: dateRange, style: "muted" },
+    { text: "Travellers", style: "heading" },
+    {
+      text: [
+        formatTravellerCount(travellers.length),
+        ...summarizeTravellerAgeBands(travellers).map((entry) => `${entry.value} ${entry.label.toLowerCase()}`),
+      ].join(" · "),
+    },
+    ...travellers.map((traveller): PdfBlock => ({
+      text: `${traveller.name} · ${formatAgendaTravellerNotes(traveller)}`,
+      style: "muted",
+      indent: 12,
+    })),
+  ];
+
+  days.forEach((day) => {
+    blocks.push({ text: formatAgendaDayHeading(day), style: "heading" });
+    if (!day.events.length) {
+      blocks.push({ text: "Nothing planned", style: "muted" });
     }
 
-    const normalizedStart = normalizeDateInput(editItineraryDraft.startDate);
-    const normalizedEnd = normalizeDateInput(editItineraryDraft.endDate);
+    day.events.forEach((event) => {
+      const timeRange = formatEventTimeRange(event.startDateTime, event.endDateTime);
+      blocks.push({ text: timeRange ? `${timeRange}  ${event.title}` : event.title, style: "subheading" });
+      describeAgendaEvent(event, travellerNames).forEach((line) => {
+        blocks.push({ text: line, style: "muted", indent: 12 });
+      });
+      if (event.description) {
+        blocks.push({ text: event.description, indent: 12 });
+      }
+    });
+  });
 
-    if (!normalizedStart || !normalizedEnd) {
-      setEditError("Please include both start and end dates.");
-      return;
-    }
+  return blocks;
+};
 
-    if (new Date(normalizedStart) > new Date(normalizedEnd)) {
-      setEditError("Trip end date should be after the start date.");
-      return;
-    }
+const DOWNLOAD_URL_LIFETIME_MS = 60_000;
+
+const downloadFile = (contents: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after `click()` returns and save nothing if the URL is already revoked.
+  window.setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
 
-    const travellers = {
-      males: coerceTravellerCount(editItineraryDraft.males),
-      females: coerceTravellerCount(editItineraryDraft.females),
-      kids: coerceTravellerCount(editItineraryDraft.kids),
-    };
+const buildDaySegments = (
+  events: ItineraryEvent[],
+  dayIso: string,
+  dayIndexMap: Map<string, number>
+): CalendarSegment[] =>
+  events
+    .map((entry) => {
+      const parsedStart = parseIsoLocalDateTime(entry.startDateTime);
+      const parsedEnd = parseIsoLocalDateTime(entry.endDateTime);
+
+      if (!parsedStart || !parsedEnd) {
+        return null;
+      }
 
-    setEditSaving(true);
-    setEditError(null);
+      const eventStartAbs = toCalendarAbsoluteMinutes(
+        dayIndexMap,
+        parsedStart.date,
+        parsedStart.hours * 60 + parsedStart.minutes
+      );
+      const eventEndAbs = toCalendarAbsoluteMinutes(
+        dayIndexMap,
+        parsedEnd.date,
+        parsedEnd.hours * 60 + parsedEnd.minutes
+      );
+      const dayStartAbs = toCalendarAbsoluteMinutes(dayIndexMap, dayIso, 0);
+      const dayEndAbs = toCalendarAbsoluteMinutes(dayIndexMap, dayIso, TOTAL_DAY_MINUTES);
+
+      if (
+        eventStartAbs === null ||
+        eventEndAbs === null ||
+        dayStartAbs === null ||
+        dayEndAbs === null ||
+        eventEndAbs <= dayStartAbs ||
+        eventStartAbs >= dayEndAbs
+      ) {
+        return null;
+      }
 
-    try {
-      const [{ doc, updateDoc }, firestore] = await Promise.all([
-        loadFirestoreModule(),
-        getFirestoreInstance(),
-      ]);
+      const segmentStartMinutes = Math.max(eventStartAbs, dayStartAbs) - dayStartAbs;
+      const segmentEndMinutes = Math.min(eventEndAbs, dayEndAbs) - dayStartAbs;
 
-      const itineraryRef = doc(firestore, "itineraries", itineraryId);
-      await updateDoc(itineraryRef, {
-        travellers,
-        startDate: normalizedStart,
-        endDate: normalizedEnd,
-      });
+      return {
+        event: entry,
+        segmentStartMinutes: clampMinutes(segmentStartMinutes),
+        segmentEndMinutes: clampMinutes(segmentEndMinutes),
+        isStartSegment: eventStartAbs >= dayStartAbs,
+        isEndSegment: eventEndAbs <= dayEndAbs,
+      };
+    })
+    .filter((segment): segment is CalendarSegment =>
+      Boolean(segment && segment.segmentEndMinutes > segment.segmentStartMinutes)
+    )
+    .sort((a, b) => a.segmentStartMinutes - b.segmentStartMinutes);
+
+const normalizeItineraryEvent = (id: string, data: Record<string, unknown>): ItineraryEvent | null => {
+  const titleValue = typeof data.title === "string" ? data.title : null;
+  const startValue = typeof data.startDateTime === "string" ? data.startDateTime : null;
+  const endValue = typeof data.endDateTime === "string" ? data.endDateTime : null;
+
+  if (!titleValue || !startValue || !endValue) {
+    return null;
+  }
 
-      cancelEditItinerary();
-    } catch (error) {
-      setEditError(deriveReadableError(error));
-    } finally {
-      setEditSaving(false);
-    }
-  };
+  if (!parseIsoLocalDateTime(startValue) || !parseIsoLocalDateTime(endValue)) {
+    return null;
+  }
 
-  const handleOpenItinerary = (itineraryId: string) => {
-    navigate(`/itineraries/${itineraryId}`);
-  };
+  const descriptionValue =
+    typeof data.description === "string" && data.description.trim()
+      ? data.description
+      : null;
+  const startTimeZone =
+    typeof data.startTimeZone === "string" && isSupportedTimeZone(data.startTimeZone) ? data.startTimeZone : null;
+  const endTimeZone =
+    typeof data.endTimeZone === "string" && isSupportedTimeZone(data.endTimeZone) ? data.endTimeZone : startTimeZone;
+  const category = isEventCategory(data.category) ? data.category : "general";
 
-  const DashboardContent = () => (
-    <section className="card itinerary-card" aria-live="polite">
-      <div className="section-heading">
-        <h2>Your itineraries</h2>
-        <div className="itinerary-actions">
-          <span className="badge">{itineraries.length}</span>
-          <button
-            className="primary"
-            type="button"
-            onClick={() => {
-              setIsItineraryFormVisible((visible) => !visible);
-              setItineraryError(null);
-            }}
-            disabled={isCreatingItinerary}
-          >
-            {isItineraryFormVisible ? "Close" : "New itinerary"}
-          </button>
-        </div>
-      </div>
+  return {
+    id,
+    title: titleValue,
+    description: descriptionValue,
+    category,
+    details: coerceEventDetails(category, data.details),
+    startDateTime: startValue,
+    endDateTime: endValue,
+    startTimeZone,
+    endTimeZone,
+    travellerIds: Array.isArray(data.travellerIds)
+      ? data.travellerIds.filter((entry): entry is string => typeof entry === "string" && Boolean(entry))
+      : [],
+    location: coerceEventLocation(data.location),
+    recurrence: coerceRecurrence(data.recurrence),
+    occurrence: null,
+  };
+};
 
-      {isItineraryFormVisible ? (
-        <form className="itinerary-form" onSubmit={handleCreateItinerary}>
-          <label className="field">
-            <span>Itinerary name</span>
-            <input
-              type="text"
-              name="itinerary-title"
-              placeholder="Weekend getaway to Kyoto"
-              value={newItineraryTitle}
-              onChange={(event) => setNewItineraryTitle(event.target.value)}
-              required
-              disabled={isCreatingItinerary}
-            />
-          </label>
+// Replaces each repeating event with its occurrences up to the end of the trip. Without an end date a series
+// only repeats up to its own `until`.
+const expandRecurringEvents = (events: ItineraryEvent[], tripEndDate: string | null): ItineraryEvent[] =>
+  events.flatMap((entry) => {
+    const { recurrence } = entry;
+    if (!recurrence) {
+      return [entry];
+    }
 
-          <div className="date-grid">
-            <label className="field compact-field">
-              <span>Start date</span>
-              <input
-                type="date"
-                name="trip-start"
-                value={newItineraryDates.startDate}
-                onChange={(event) =>
-                  setNewItineraryDates((prev) => ({
-                    ...prev,
-                    startDate: event.target.value,
-                  }))
-                }
-                required
-                disabled={isCreatingItinerary}
-              />
-            </label>
+    const rangeEnd = tripEndDate ? `${tripEndDate}T23:59` : recurrence.until ?? entry.startDateTime;
+    return listOccurrences({ ...entry, recurrence }, rangeEnd).map((occurrence) => ({
+      ...entry,
+      id: `${entry.id}@${occurrence.key}`,
+      startDateTime: occurrence.startDateTime,
+      endDateTime: occurrence.endDateTime,
+      occurrence: { seriesId: entry.id, key: occurrence.key },
+    }));
+  });
 
-            <label className="field compact-field">
-              <span>End date</span>
-              <input
-                type="date"
-                name="trip-end"
-                value={newItineraryDates.endDate}
-                onChange={(event) =>
-                  setNewItineraryDates((prev) => ({
-                    ...prev,
-                    endDate: event.target.value,
-                  }))
-                }
-                required
-                disabled={isCreatingItinerary}
-              />
-            </label>
-          </div>
+const normalizeItineraryExpense = (id: string, data: Record<string, unknown>): ItineraryExpense | null => {
+  const { amount, currency, paidBy } = data;
+  if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
 
-          <div className="traveller-grid">
-            <label className="field compact-field">
-              <span>Males</span>
-              <input
-                type="number"
-                min={0}
-                name="traveller-males"
-                value={newItineraryTravellers.males}
-                onChange={(event) =>
-                  setNewItineraryTravellers((prev) => ({
-                    ...prev,
-                    males: coerceTravellerCount(event.target.value),
-                  }))
-                }
-                disabled={isCreatingItinerary}
-                inputMode="numeric"
-                pattern="\\d*"
-              />
-            </label>
+  if (!isCurrencyCode(currency) || typeof paidBy !== "string" || !paidBy) {
+    return null;
+  }
 
-            <label className="field compact-field">
-              <span>Females</span>
-              <input
-                type="number"
-                min={0}
-                name="traveller-females"
-                value={newItineraryTravellers.females}
-                onChange={(event) =>
-                  setNewItineraryTravellers((prev) => ({
-                    ...prev,
-                    females: coerceTravellerCount(event.target.value),
-                  }))
-                }
-                disabled={isCreatingItinerary}
-                inputMode="numeric"
-                pattern="\\d*"
-              />
-            </label>
+  const splitBetween = Array.isArray(data.splitBetween)
+    ? data.splitBetween.filter((entry): entry is string => typeof entry === "string" && Boolean(entry))
+    : [];
 
-            <label className="field compact-field">
-              <span>Kids</span>
-              <input
-                type="number"
-                min={0}
-                name="traveller-kids"
-                value={newItineraryTravellers.kids}
-                onChange={(event) =>
-                  setNewItineraryTravellers((prev) => ({
-                    ...prev,
-                    kids: coerceTravellerCount(event.target.value),
-                  }))
-                }
-                disabled={isCreatingItinerary}
-                inputMode="numeric"
-                pattern="\\d*"
-              />
-            </label>
-          </div>
+  return {
+    id,
+    title: typeof data.title === "string" && data.title.trim() ? data.title : "Expense",
+    amount,
+    currency,
+    category: isExpenseCategory(data.category) ? data.category : "other",
+    paidBy,
+    splitBetween: splitBetween.length ? Array.from(new Set(splitBetween)) : [paidBy],
+    eventId: typeof data.eventId === "string" && data.eventId ? data.eventId : null,
+    exchangeRate: coerceExchangeRateOverride(data.exchangeRate),
+    createdAt: asTimestamp(data.createdAt),
+  };
+};
 
-          <button className="primary" type="submit" disabled={isCreatingItinerary}>
-            {isCreatingItinerary ? "Saving..." : "Create itinerary"}
-          </button>
-        </form>
-      ) : null}
+const getPointerClientX = (
+  nativeEvent: PointerEvent | MouseEvent | TouchEvent
+): number | null => {
+  if ("clientX" in nativeEvent) {
+    return nativeEvent.clientX;
+  }
 
-      {itineraryError ? (
-        <p className="error" role="alert">
-          {itineraryError}
-        </p>
-      ) : itinerariesLoading ? (
-        <p className="muted">Loading itineraries...</p>
-      ) : itineraries.length ? (
-        <div className="itinerary-grid">
-          {itineraries.map((itinerary) => {
-            const totalTravellers =
-              itinerary.travellers.males +
-              itinerary.travellers.females +
-              itinerary.travellers.kids;
-            const travellerLabel = totalTravellers === 1 ? "traveller" : "travellers";
-            const isEditingThisItinerary = editingItineraryId === itinerary.id;
+  if ("touches" in nativeEvent && nativeEvent.touches.length > 0) {
+    return nativeEvent.touches[0]?.clientX ?? null;
+  }
 
-            return (
-              <article
-                key={itinerary.id}
-                className="itinerary-card-item"
-                role="button"
-                tabIndex={0}
-                onClick={() => {
-                  if (!isEditingThisItinerary) {
-                    handleOpenItinerary(itinerary.id);
-                  }
-                }}
-                onKeyDown={(event) => {
-                  if (
-                    !isEditingThisItinerary &&
-                    (event.key === "Enter" || event.key === " ")
-                  ) {
-                    event.preventDefault();
-                    handleOpenItinerary(itinerary.id);
-                  }
-                }}
-                aria-label={`Open itinerary ${itinerary.title}`}
-              >
-                <div className="itinerary-card-heading">
-                  <h3>{itinerary.title}</h3>
-                </div>
+  if ("changedTouches" in nativeEvent && nativeEvent.changedTouches.length > 0) {
+    return nativeEvent.changedTouches[0]?.clientX ?? null;
+  }
 
-                <p className="date-range" aria-label="Trip dates">
-                  {formatDateRange(itinerary.startDate, itinerary.endDate)}
-                </p>
+  return null;
+};
 
-                <p className="traveller-total" aria-label="Total travellers">
-                  {totalTravellers} {travellerLabel}
-                </p>
+const getPointerClientY = (
+  nativeEvent: PointerEvent | MouseEvent | TouchEvent
+): number | null => {
+  if ("clientY" in nativeEvent) {
+    return nativeEvent.clientY;
+  }
 
-                {isEditingThisItinerary ? (
-                  <form
-                    className="itinerary-edit-form"
-                    onSubmit={(event) => handleUpdateItinerary(event, itinerary.id)}
-                    onClick={(event) => event.stopPropagation()}
-                  >
-                    <div className="date-grid">
-                      <label className="field compact-field">
-                        <span>Start date</span>
-                        <input
-                          type="date"
-                          value={editItineraryDraft.startDate}
-                          onChange={(event) =>
-                            setEditItineraryDraft((prev) => ({
-                              ...prev,
-                              startDate: event.target.value,
-                            }))
-                          }
-                          disabled={editSaving}
-                          required
-                        />
-                      </label>
-                      <label className="field compact-field">
-                        <span>End date</span>
-                        <input
-                          type="date"
-                          value={editItineraryDraft.endDate}
-                          onChange={(event) =>
-                            setEditItineraryDraft((prev) => ({
-                              ...prev,
-                              endDate: event.target.value,
-                            }))
-                          }
-                          disabled={editSaving}
-                          required
-                        />
-                      </label>
-                    </div>
+  if ("touches" in nativeEvent && nativeEvent.touches.length > 0) {
+    return nativeEvent.touches[0]?.clientY ?? null;
+  }
 
-                    <div className="traveller-grid">
-                      <label className="field compact-field">
-                        <span>Males</span>
-                        <input
-                          type="number"
-                          min={0}
-                          value={editItineraryDraft.males}
-                          onChange={(event) =>
-                            setEditItineraryDraft((prev) => ({
-                              ...prev,
-                              males: coerceTravellerCount(event.target.value),
-                            }))
-                          }
-                          disabled={editSaving}
-                          inputMode="numeric"
-                          pattern="\\d*"
-                        />
-                      </label>
-                      <label className="field compact-field">
-                        <span>Females</span>
-                        <input
-                          type="number"
-                          min={0}
-                          value={editItineraryDraft.females}
-                          onChange={(event) =>
-                            setEditItineraryDraft((prev) => ({
-                              ...prev,
-                              females: coerceTravellerCount(event.target.value),
-                            }))
-                          }
-                          disabled={editSaving}
-                          inputMode="numeric"
-                          pattern="\\d*"
-                        />
-                      </label>
-                      <label className="field compact-field">
-                        <span>Kids</span>
-                        <input
-                          type="number"
-                          min={0}
-                          value={editItineraryDraft.kids}
-                          onChange={(event) =>
-                            setEditItineraryDraft((prev) => ({
-                              ...prev,
-                              kids: coerceTravellerCount(event.target.value),
-                            }))
-                          }
-                          disabled={editSaving}
-                          inputMode="numeric"
-                          pattern="\\d*"
-                        />
-                      </label>
-                    </div>
+  if ("changedTouches" in nativeEvent && nativeEvent.changedTouches.length > 0) {
+    return nativeEvent.changedTouches[0]?.clientY ?? null;
+  }
 
-                    {editError ? (
-                      <p className="error" role="alert">
-                        {editError}
-                      </p>
-                    ) : null}
+  return null;
+};
 
-                    <div className="edit-actions">
-                      <button className="primary" type="submit" disabled={editSaving}>
-                        {editSaving ? "Saving..." : "Save"}
-                      </button>
-                      <button
-                        className="secondary"
-                        type="button"
-                        onClick={(event) => {
-                          event.stopPropagation();
-                          cancelEditItinerary();
-                        }}
-                        disabled={editSaving}
-                      >
-                        Cancel
-                      </button>
-                    </div>
-                  </form>
-                ) : (
-                  <div className="card-actions">
-                    <button
-                      type="button"
-                      className="link-button"
-                      onClick={(event) => {
-                        event.stopPropagation();
-                        beginEditItinerary(itinerary);
-                      }}
-                    >
-                      Edit details
-                    </button>
-                  </div>
-                )}
-              </article>
-            );
-          })}
-        </div>
-      ) : (
-        <p className="empty-state">
-          No itineraries yet. Use the button above to create one.
-        </p>
-      )}
-    </section>
-  );
+// Firestore rejects batches with more than 500 writes.
+const FIRESTORE_BATCH_LIMIT = 500;
+const UNDO_WINDOW_MS = 8000;
 
-  if (!authReady) {
-    return (
-      <div className="app-shell">
-        <header className="app-header">
-          <h1>Travelio</h1>
-          <p className="app-subtitle">Plan itineraries securely with your Travelio account.</p>
-        </header>
+type StoredDocument = {
+  id: string;
+  data: Record<string, unknown>;
+};
 
-        <section className="card auth-card" aria-live="polite">
-          <p className="muted">Checking your session…</p>
-        </section>
+type ItineraryDeletion = {
+  itineraryId: string;
+  title: string;
+  itineraryData: Record<string, unknown>;
+  events: StoredDocument[];
+  expenses: StoredDocument[];
+  publicShare: StoredDocument | null;
+};
 
-        <footer className="app-footer">
-          <p>Authentication handled by Google Cloud Identity Platform.</p>
-        </footer>
-      </div>
-    );
+// The stored, user-editable fields of an event; history keeps them so an event can be put back exactly.
+type EventFields = Pick<
+  ItineraryEvent,
+  | "title"
+  | "description"
+  | "category"
+  | "details"
+  | "startDateTime"
+  | "endDateTime"
+  | "startTimeZone"
+  | "endTimeZone"
+  | "travellerIds"
+  | "location"
+  | "recurrence"
+>;
+
+type ItineraryDetailFields = Pick<Itinerary, "title" | "startDate" | "endDate" | "travellers">;
+
+// `before` is null when the step created the event and `after` is null when it deleted it.
+type HistoryChange =
+  | { kind: "event"; eventId: string; before: EventFields | null; after: EventFields | null }
+  | { kind: "itinerary"; before: ItineraryDetailFields; after: ItineraryDetailFields };
+
+type HistoryEntry = {
+  label: string;
+  changes: HistoryChange[];
+};
+
+// Per-session undo and redo stacks for one itinerary. Steps are undone by writing the old values back, so they
+// stay reversible after the original write has reached Firestore.
+type EditHistory = {
+  itineraryId: string | null;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+const HISTORY_LIMIT = 50;
+
+const toEventFields = (event: ItineraryEvent): EventFields => ({
+  title: event.title,
+  description: event.description,
+  category: event.category,
+  details: event.details,
+  startDateTime: event.startDateTime,
+  endDateTime: event.endDateTime,
+  startTimeZone: event.startTimeZone,
+  endTimeZone: event.endTimeZone,
+  travellerIds: event.travellerIds,
+  location: event.location,
+  recurrence: event.recurrence,
+});
+
+// Wall clock minutes from one ISO-local value to another, ignoring any zone.
+const minutesBetweenIsoLocal = (from: string, to: string): number =>
+  ((isoLocalToUtcMs(to, "UTC") ?? 0) - (isoLocalToUtcMs(from, "UTC") ?? 0)) / 60000;
+
+// The changes that apply `fields` (or a delete, when null) to one occurrence of a series, to it and the
+// occurrences after it, or to the whole series. `newEventId` is used when the edit splits off a new event.
+const planOccurrenceEdit = (
+  series: ItineraryEvent,
+  occurrence: ItineraryEvent,
+  scope: RecurrenceEditScope,
+  fields: EventFields | null,
+  newEventId: string
+): HistoryChange[] => {
+  const before = toEventFields(series);
+  const rule = series.recurrence;
+  const key = occurrence.occurrence?.key;
+  if (!rule || !key) {
+    return [];
   }
 
-  return (
-    <div className="app-shell">
-      <header className="app-header">
-        <h1>Travelio</h1>
-        <p className="app-subtitle">Plan itineraries securely with your Travelio account.</p>
-      </header>
+  const updateSeries = (after: EventFields | null): HistoryChange => ({
+    kind: "event",
+    eventId: series.id,
+    before,
+    after,
+  });
 
-      {currentUser ? (
-        <>
-          <header className="signed-in-header">
-            <div>
-              <p className="signed-in-label">
-                {isItineraryBuilderRoute ? "Itinerary builder" : "Travelio dashboard"}
-              </p>
-              <p className="signed-in-greeting">
-                Hi
-                {" "}
-                {profileName?.trim() || currentUser.displayName?.trim() || currentUser.email || currentUser.uid}
-              </p>
-            </div>
-            <div className="signed-in-actions">
-              {isItineraryBuilderRoute ? (
-                <button className="secondary" type="button" onClick={() => navigate("/")}>
-                  Back to itineraries
-                </button>
-              ) : null}
-              <button
-                className="secondary"
-                type="button"
-                onClick={() => {
-                  setShowProfileEditor((visible) => !visible);
-                  setProfileMessage(null);
-                  setProfileError(null);
-                  setProfileDraft(profileName ?? "");
-                }}
-              >
-                {showProfileEditor ? "Close" : "Edit profile"}
-              </button>
-              <button className="secondary" type="button" onClick={handleSignOut}>
-                Sign out
-              </button>
-            </div>
-          </header>
+  if (scope === "this") {
+    const skipped = { ...before, recurrence: { ...rule, exceptions: { ...rule.exceptions, [key]: null } } };
+    if (!fields) {
+      return [updateSeries(skipped)];
+    }
 
-          {showProfileEditor ? (
-            <section className="profile-panel" aria-live="polite">
-              <form className="profile-form" onSubmit={handleProfileSubmit}>
-                <label className="field profile-field">
-                  <span>What should we call you?</span>
-                  <input
-                    type="text"
-                    name="displayName"
-                    placeholder="Add a friendly name"
-                    value={profileDraft}
-                    onChange={(event) => setProfileDraft(event.target.value)}
-                    disabled={profileLoading || profileSaving}
-                    required
-                  />
-                </label>
-                <button
-                  className="secondary"
-                  type="submit"
-                  disabled={profileLoading || profileSaving}
-                >
-                  {profileSaving ? "Saving..." : "Save name"}
-                </button>
-              </form>
+    // Only the times changed, so the occurrence stays part of the series; anything else makes it its own event.
+    const withoutTiming = (entry: EventFields) =>
+      JSON.stringify({ ...entry, startDateTime: null, endDateTime: null, recurrence: null });
+    if (withoutTiming(fields) === withoutTiming(toEventFields(occurrence))) {
+      const exception = { startDateTime: fields.startDateTime, endDateTime: fields.endDateTime };
+      return [updateSeries({ ...before, recurrence: { ...rule, exceptions: { ...rule.exceptions, [key]: exception } } })];
+    }
 
-              {profileError ? (
-                <p className="error" role="alert">
-                  {profileError}
-                </p>
-              ) : profileMessage ? (
-                <p className="profile-status" role="status">
-                  {profileMessage}
-                </p>
-              ) : profileLoading ? (
-                <p className="muted">Loading profile...</p>
-              ) : null}
-            </section>
-          ) : null}
+    return [
+      updateSeries(skipped),
+      { kind: "event", eventId: newEventId, before: null, after: { ...fields, recurrence: null } },
+    ];
+  }
 
-          <Routes>
-            <Route path="/" element={<DashboardContent />} />
-            <Route
-              path="/itineraries/:itineraryId"
-              element={<ItineraryDetailView currentUser={currentUser} />}
-            />
-            <Route path="*" element={<Navigate to="/" replace />} />
-          </Routes>
-        </>
-      ) : (
-        <section className="card auth-card" aria-live="polite">
-          <form className="auth-form" onSubmit={handleSubmit}>
-            <h2>{isSignUp ? "Create an account" : "Sign in"}</h2>
-            <p className="form-helper">
-              {isSignUp
-                ? "Enter your email and a strong password to register a new Travelio account."
-                : "Use the credentials configured in Google Cloud Identity Platform."}
-            </p>
+  if (scope === "following" && key !== series.startDateTime) {
+    const truncated = updateSeries({ ...before, recurrence: endRecurrenceBefore(rule, key) });
+    if (!fields) {
+      return [truncated];
+    }
 
-            <label className="field">
-              <span>Email</span>
-              <input
-                type="email"
-                name="username"
-                autoComplete="username"
-                value={username}
-                onChange={(event) => setUsername(event.target.value)}
-                placeholder="you@example.com"
-                required
-                disabled={isAuthenticating}
-              />
-            </label>
+    // The new series starts at the edited occurrence, and the occurrences after it that were moved or skipped
+    // stay that way, rekeyed to its start.
+    const laterExceptions = Object.fromEntries(Object.entries(rule.exceptions).filter(([entry]) => entry > key));
+    const recurrence = fields.recurrence && {
+      ...fields.recurrence,
+      exceptions: shiftRecurrenceExceptions(
+        laterExceptions,
+        minutesBetweenIsoLocal(key, fields.startDateTime),
+        minutesBetweenIsoLocal(occurrence.startDateTime, fields.startDateTime),
+        minutesBetweenIsoLocal(occurrence.endDateTime, fields.endDateTime)
+      ),
+    };
+    return [truncated, { kind: "event", eventId: newEventId, before: null, after: { ...fields, recurrence } }];
+  }
 
-            <label className="field">
-              <span>Password</span>
-              <input
-                type="password"
-                name="password"
-                autoComplete={isSignUp ? "new-password" : "current-password"}
-                value={password}
-                onChange={(event) => setPassword(event.target.value)}
-                required
-                disabled={isAuthenticating}
-              />
-            </label>
+  if (!fields) {
+    return [updateSeries(null)];
+  }
 
-            {isSignUp ? (
-              <p className="form-note">
-                Passwords must meet the policy you configure in Identity Platform.
-              </p>
-            ) : null}
+  // Editing from the first occurrence onwards is the same as editing the whole series. The form shows this
+  // occurrence's times, so move the series, and its moved or skipped occurrences, by however far they were moved.
+  const startShift = minutesBetweenIsoLocal(occurrence.startDateTime, fields.startDateTime);
+  const endShift = minutesBetweenIsoLocal(occurrence.endDateTime, fields.endDateTime);
+  const startDateTime = shiftIsoLocal(series.startDateTime, null, startShift) ?? series.startDateTime;
+  const endDateTime = shiftIsoLocal(series.endDateTime, null, endShift) ?? series.endDateTime;
+  return [
+    updateSeries({
+      ...fields,
+      startDateTime,
+      endDateTime,
+      recurrence: fields.recurrence && {
+        ...fields.recurrence,
+        exceptions: shiftRecurrenceExceptions(rule.exceptions, startShift, startShift, endShift),
+      },
+    }),
+  ];
+};
 
-            {errorMessage ? (
-              <p className="error" role="alert">
-                {errorMessage}
-              </p>
-            ) : null}
+// Shortcuts typed into form fields are left to the browser's own text undo.
+const isTextEntryTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
 
-            <button className="primary" type="submit" disabled={isAuthenticating}>
-              {isAuthenticating
-                ? "Processing..."
-                : isSignUp
-                  ? "Create account"
-                  : "Sign in"}
-            </button>
-          </form>
+const generateShareToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
 
-          <p className="form-switch">
-            {isSignUp ? "Already have an account?" : "Need a Travelio account?"}
-            <button
-              type="button"
-              className="link-button"
-              onClick={toggleMode}
-              disabled={isAuthenticating}
-            >
-              {isSignUp ? "Sign in" : "Create one"}
-            </button>
-          </p>
-        </section>
-      )}
+const buildShareUrl = (token: string): string => `${window.location.origin}/share/${token}`;
 
-      <footer className="app-footer">
-        <p>Authentication handled by Google Cloud Identity Platform.</p>
-      </footer>
-    </div>
+// Anonymous visitors cannot be authorised against the itinerary itself, so a published link
+// serves a denormalised copy that contains only what the read-only view needs.
+const selectPublicEventDetails = (category: EventCategory, details: EventDetails): EventDetails => {
+  const publicKeys = new Set<string>(
+    EVENT_CATEGORY_CONFIG[category].fields.filter(({ isPrivate }) => !isPrivate).map(({ key }) => key)
   );
-}
+  return Object.fromEntries(Object.entries(details).filter(([key]) => publicKeys.has(key)));
+};
 
-type ItineraryDetailDraft = {
-  title: string;
-  startDate: string;
-  endDate: string;
-  travellers: {
-    males: number;
-    females: number;
-    kids: number;
+const buildPublicShareData = (itinerary: Itinerary, events: ItineraryEvent[]) => ({
+  itineraryId: itinerary.id,
+  title: itinerary.title,
+  startDate: itinerary.startDate,
+  endDate: itinerary.endDate,
+  // Names, notes and linked accounts stay private; the shared view only shows the age breakdown.
+  travellers: itinerary.travellers.map(({ id, ageBand }) => ({ id, ageBand })),
+  events: events.map((entry) => ({
+    id: entry.id,
+    title: entry.title,
+    description: entry.description,
+    category: entry.category,
+    details: selectPublicEventDetails(entry.category, entry.details),
+    startDateTime: entry.startDateTime,
+    endDateTime: entry.endDateTime,
+    startTimeZone: entry.startTimeZone,
+    endTimeZone: entry.endTimeZone,
+    location: entry.location,
+  })),
+});
+
+const chunkItems = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+};
+
+const deleteItineraryWithEvents = async (itinerary: Itinerary): Promise<ItineraryDeletion> => {
+  const [{ collection, doc, getDoc, getDocs, writeBatch }, firestore] = await Promise.all([
+    loadFirestoreModule(),
+    getFirestoreInstance(),
+  ]);
+
+  const itineraryRef = doc(firestore, "itineraries", itinerary.id);
+  const itinerarySnapshot = await getDoc(itineraryRef);
+  if (!itinerarySnapshot.exists()) {
+    throw new Error("Itinerary not found or may have been deleted.");
+  }
+
+  const publicShareRef = itinerary.shareToken
+    ? doc(firestore, "publicShares", itinerary.shareToken)
+    : null;
+  const publicShareSnapshot = publicShareRef ? await getDoc(publicShareRef) : null;
+
+  const eventsSnapshot = await getDocs(collection(firestore, "itineraries", itinerary.id, "events"));
+  const events = eventsSnapshot.docs.map((eventSnapshot) => ({
+    id: eventSnapshot.id,
+    data: eventSnapshot.data(),
+  }));
+  const expensesSnapshot = await getDocs(collection(firestore, "itineraries", itinerary.id, "expenses"));
+  const expenses = expensesSnapshot.docs.map((expenseSnapshot) => ({
+    id: expenseSnapshot.id,
+    data: expenseSnapshot.data(),
+  }));
+  const children = [
+    ...events.map((entry) => ({ subcollection: "events", entry })),
+    ...expenses.map((entry) => ({ subcollection: "expenses", entry })),
+  ];
+
+  // Subcollections go first: the security rules read the parent itinerary to authorise each delete.
+  for (const chunk of chunkItems(children, FIRESTORE_BATCH_LIMIT)) {
+    const batch = writeBatch(firestore);
+    chunk.forEach(({ subcollection, entry }) => {
+      batch.delete(doc(firestore, "itineraries", itinerary.id, subcollection, entry.id));
+    });
+    await batch.commit();
+  }
+
+  const itineraryBatch = writeBatch(firestore);
+  if (publicShareRef && publicShareSnapshot?.exists()) {
+    itineraryBatch.delete(publicShareRef);
+  }
+  itineraryBatch.delete(itineraryRef);
+  await itineraryBatch.commit();
+
+  return {
+    itineraryId: itinerary.id,
+    title: itinerary.title,
+    itineraryData: itinerarySnapshot.data(),
+    events,
+    expenses,
+    publicShare:
+      publicShareSnapshot?.exists() && itinerary.shareToken
+        ? { id: itinerary.shareToken, data: publicShareSnapshot.data() }
+        : null,
   };
 };
 
-const toDraftFromItinerary = (value: Itinerary): ItineraryDetailDraft => ({
-  title: value.title,
-  startDate: value.startDate ?? "",
-  endDate: value.endDate ?? "",
-  travellers: {
-    males: value.travellers.males,
-    females: value.travellers.females,
-    kids: value.travellers.kids,
-  },
-});
+const restoreDeletedItinerary = async (deletion: ItineraryDeletion): Promise<void> => {
+  const [{ doc, writeBatch }, firestore] = await Promise.all([
+    loadFirestoreModule(),
+    getFirestoreInstance(),
+  ]);
+
+  // The itinerary must exist again before its events and expenses can pass the security rules.
+  const itineraryBatch = writeBatch(firestore);
+  itineraryBatch.set(doc(firestore, "itineraries", deletion.itineraryId), deletion.itineraryData);
+  if (deletion.publicShare) {
+    itineraryBatch.set(doc(firestore, "publicShares", deletion.publicShare.id), deletion.publicShare.data);
+  }
+  await itineraryBatch.commit();
 
-function ItineraryDetailView({ currentUser }: { currentUser: User }) {
-  const { itineraryId } = useParams<{ itineraryId: string }>();
-  const navigate = useNavigate();
-  const [loading, setLoading] = useState(true);
-  const [loadError, setLoadError] = useState<string | null>(null);
-  const [formError, setFormError] = useState<string | null>(null);
-  const [statusMessage, setStatusMessage] = useState<string | null>(null);
-  const [saving, setSaving] = useState(false);
-  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
-  const [draft, setDraft] = useState<ItineraryDetailDraft>({
-    title: "",
-    startDate: "",
-    endDate: "",
-    travellers: { males: 0, females: 0, kids: 0 },
-  });
-  const [isEditingSidebar, setIsEditingSidebar] = useState(false);
-  const [events, setEvents] = useState<ItineraryEvent[]>([]);
-  const [eventsLoading, setEventsLoading] = useState(false);
-  const [eventsError, setEventsError] = useState<string | null>(null);
-  const [selectionRange, setSelectionRange] = useState<CalendarSelection | null>(null);
-  const [dragSelection, setDragSelection] = useState<CalendarSelection | null>(null);
-  const [isDraggingSelection, setIsDraggingSelection] = useState(false);
-  const [showEventForm, setShowEventForm] = useState(false);
-  const [eventDraft, setEventDraft] = useState<ItineraryEventDraft>({
-    title: "",
-    description: "",
-    startDate: "",
-    endDate: "",
-    startTime: "",
-    endTime: "",
-  });
-  const [eventFormError, setEventFormError] = useState<string | null>(null);
-  const [eventSaving, setEventSaving] = useState(false);
-  const [eventStatusMessage, setEventStatusMessage] = useState<string | null>(null);
-  const [eventFormPosition, setEventFormPosition] = useState<{ top: number; left: number } | null>(null);
-  const [eventFormPlacement, setEventFormPlacement] = useState<"left" | "right">("right");
-  const dragSelectionRef = useRef<{
-    anchorDate: string;
-    anchorMinutes: number;
-    currentDate: string;
-    currentMinutes: number;
-  } | null>(null);
-  const dayBodyRefs = useRef(new Map<string, HTMLDivElement>());
-  const eventFormRef = useRef<HTMLFormElement | null>(null);
-  const calendarGridRef = useRef<HTMLDivElement | null>(null);
-  const [eventDragState, setEventDragState] = useState<null | {
-    eventId: string;
-    date: string;
-    mode: "move" | "resize-start" | "resize-end";
-    originalStart: number;
-    originalEnd: number;
-    previewStart: number;
-    previewEnd: number;
-    anchorOffset?: number;
-  }>(null);
+  const children = [
+    ...deletion.events.map((entry) => ({ subcollection: "events", entry })),
+    ...deletion.expenses.map((entry) => ({ subcollection: "expenses", entry })),
+  ];
 
-  useEffect(() => {
-    if (!statusMessage) {
-      return;
-    }
+  for (const chunk of chunkItems(children, FIRESTORE_BATCH_LIMIT)) {
+    const batch = writeBatch(firestore);
+    chunk.forEach(({ subcollection, entry }) => {
+      batch.set(doc(firestore, "itineraries", deletion.itineraryId, subcollection, entry.id), entry.data);
+    });
+    await batch.commit();
+  }
+};
 
-    const timeout = window.setTimeout(() => {
-      setStatusMessage(null);
-    }, 3000);
+// What a copy of a trip keeps besides its title, dates, travellers and events. Members, invites, the share link and
+// expenses stay with the original.
+type ItineraryPlanFields = Pick<Itinerary, "budget" | "homeCurrency" | "exchangeRates" | "travelSpeeds">;
 
-    return () => window.clearTimeout(timeout);
-  }, [statusMessage]);
+type ItineraryTemplate = ItineraryPlanFields & {
+  id: string;
+  title: string;
+  // Dates of the trip it was saved from; trips started from it keep each event's offset from `startDate`.
+  startDate: string;
+  endDate: string;
+  travellers: Traveller[];
+  // The events themselves are in the template's `events` subcollection.
+  eventCount: number;
+  createdAt: FirestoreTimestamp | null;
+};
 
+type NewItineraryFields = {
+  title: string;
+  startDate: string;
+  endDate: string;
+  travellers: Traveller[];
+  plan?: ItineraryPlanFields;
+  // Stored event fields to copy in, moved by `dayShift` days.
+  events?: Record<string, unknown>[];
+  dayShift?: number;
+};
 
-  useEffect(() => {
-    if (!eventStatusMessage) {
-      return;
-    }
+const normalizeItineraryTemplate = (id: string, data: Record<string, unknown>): ItineraryTemplate | null => {
+  const startDate = typeof data.startDate === "string" ? normalizeDateInput(data.startDate) : null;
+  const endDate = typeof data.endDate === "string" ? normalizeDateInput(data.endDate) : null;
+  if (!startDate || !endDate) {
+    return null;
+  }
 
-    const timeout = window.setTimeout(() => {
-      setEventStatusMessage(null);
-    }, 3000);
+  // Templates store the same trip fields as itineraries, so they are read the same way.
+  const { title, travellers, budget, homeCurrency, exchangeRates, travelSpeeds, createdAt } = normalizeItinerary(
+    id,
+    data
+  );
+  return {
+    id,
+    title,
+    startDate,
+    endDate,
+    travellers,
+    budget,
+    homeCurrency,
+    exchangeRates,
+    travelSpeeds,
+    eventCount: typeof data.eventCount === "number" && data.eventCount >= 0 ? data.eventCount : 0,
+    createdAt,
+  };
+};
 
-    return () => window.clearTimeout(timeout);
-  }, [eventStatusMessage]);
+const pickPlanFields = (source: ItineraryPlanFields): ItineraryPlanFields => ({
+  budget: source.budget,
+  homeCurrency: source.homeCurrency,
+  exchangeRates: source.exchangeRates,
+  travelSpeeds: source.travelSpeeds,
+});
 
-  useEffect(() => {
-    if (!itineraryId) {
-      setLoadError("Itinerary not found.");
-      setLoading(false);
-      return;
-    }
+// The person making the copy is its only member, so only their own account link is kept.
+const copyTravellers = (travellers: Traveller[], uid: string): Traveller[] =>
+  travellers.map((traveller) => ({ ...traveller, linkedUid: traveller.linkedUid === uid ? uid : null }));
 
-    let unsubscribe: Unsubscribe | undefined;
-    let isActive = true;
+// A template's end date moved to a new start.
+const getTemplateEndDate = (template: ItineraryTemplate, startDate: string): string | null =>
+  shiftIsoDate(startDate, countDaysBetween(template.startDate, template.endDate));
 
-    setLoading(true);
-    setLoadError(null);
-    setFormError(null);
+const readEventPlans = async (itineraryId: string): Promise<Record<string, unknown>[]> => {
+  const [{ collection, getDocs }, firestore] = await Promise.all([loadFirestoreModule(), getFirestoreInstance()]);
+  const snapshot = await getDocs(collection(firestore, "itineraries", itineraryId, "events"));
+  return snapshot.docs.map((eventSnapshot) => omitKey(omitKey(eventSnapshot.data(), "ownerUid"), "createdAt"));
+};
 
-    loadFirestoreModule()
-      .then(async ({ doc, onSnapshot }) => {
-        if (!isActive) {
-          return;
-        }
+// Creates an itinerary owned by `user`, then copies in any events. Resolves to the new itinerary's id.
+// The writes are queued rather than awaited, so a trip can be created offline; `onError` hears if one is rejected.
+const createItineraryWithEvents = async (
+  user: User,
+  fields: NewItineraryFields,
+  onError: (message: string) => void
+): Promise<string> => {
+  const [{ collection, doc, serverTimestamp, setDoc, writeBatch }, firestore] = await Promise.all([
+    loadFirestoreModule(),
+    getFirestoreInstance(),
+  ]);
+
+  const itineraryRef = doc(collection(firestore, "itineraries"));
+  const itineraryData = {
+    ...fields.plan,
+    title: fields.title,
+    ownerUid: user.uid,
+    members: {
+      [user.uid]: { role: "owner", email: user.email ?? null },
+    },
+    memberUids: [user.uid],
+    invites: {},
+    inviteEmails: [],
+    travellers: fields.travellers,
+    startDate: fields.startDate,
+    endDate: fields.endDate,
+    createdAt: serverTimestamp(),
+  };
 
-        const firestore = await getFirestoreInstance();
-        const itineraryRef = doc(firestore, "itineraries", itineraryId);
+  queueWrite(setDoc(itineraryRef, itineraryData), onError);
 
-        unsubscribe = onSnapshot(
-          itineraryRef,
-          (snapshot) => {
-            if (!snapshot.exists()) {
-              setLoadError("Itinerary not found or may have been deleted.");
-              setItinerary(null);
-              setLoading(false);
-              return;
-            }
+  // Events are sent after the itinerary, as the security rules read it to authorise them. Queued writes reach the
+  // server in order.
+  chunkItems(fields.events ?? [], FIRESTORE_BATCH_LIMIT).forEach((chunk) => {
+    const batch = writeBatch(firestore);
+    chunk.forEach((data) => {
+      batch.set(doc(collection(firestore, "itineraries", itineraryRef.id, "events")), {
+        ...shiftStoredEvent(data, fields.dayShift ?? 0),
+        ownerUid: user.uid,
+        createdAt: serverTimestamp(),
+      });
+    });
+    queueWrite(batch.commit(), onError);
+  });
 
-            const data = snapshot.data();
+  return itineraryRef.id;
+};
 
-            if (data && data.ownerUid !== currentUser.uid) {
-              setLoadError("You do not have access to this itinerary.");
-              setItinerary(null);
-              setLoading(false);
-              return;
-            }
+// Template events are owned like the template itself, so the rules can check them without reading the template.
+const listTemplateEvents = async (user: User, templateId: string): Promise<StoredDocument[]> => {
+  const [{ collection, getDocs, query, where }, firestore] = await Promise.all([
+    loadFirestoreModule(),
+    getFirestoreInstance(),
+  ]);
 
-            const travellersData =
-              data && typeof data.travellers === "object"
-                ? (data.travellers as Record<string, unknown>)
-                : {};
-
-            const normalized: Itinerary = {
-              id: snapshot.id,
-              title:
-                typeof data.title === "string" && data.title.trim()
-                  ? data.title
-                  : "Untitled itinerary",
-              createdAt: asTimestamp(data.createdAt),
-              travellers: {
-                males: coerceTravellerCount(travellersData.males),
-                females: coerceTravellerCount(travellersData.females),
-                kids: coerceTravellerCount(travellersData.kids),
-              },
-              startDate:
-                typeof data.startDate === "string"
-                  ? normalizeDateInput(data.startDate) ?? null
-                  : null,
-              endDate:
-                typeof data.endDate === "string"
-                  ? normalizeDateInput(data.endDate) ?? null
-                  : null,
-            };
+  // Queries must match the rules, which only let owners read template events.
+  const snapshot = await getDocs(
+    query(collection(firestore, "templates", templateId, "events"), where("ownerUid", "==", user.uid))
+  );
+  return snapshot.docs.map((eventSnapshot) => ({
+    id: eventSnapshot.id,
+    data: omitKey(eventSnapshot.data(), "ownerUid"),
+  }));
+};
 
-            setItinerary(normalized);
-            setDraft(toDraftFromItinerary(normalized));
-            setIsEditingSidebar(false);
-            setSelectionRange(null);
-            setDragSelection(null);
-            dragSelectionRef.current = null;
-            setIsDraggingSelection(false);
-            setShowEventForm(false);
-            setEventFormError(null);
-            setEventStatusMessage(null);
-            setEventDraft((prev) => ({
-              ...prev,
-              date: normalized.startDate ?? "",
-            }));
-            setLoadError(null);
-            setFormError(null);
-            setLoading(false);
-          },
-          (snapshotError) => {
-            setLoadError(deriveReadableError(snapshotError));
-            setItinerary(null);
-            setLoading(false);
-          }
-        );
-      })
-      .catch((loadError) => {
-        if (!isActive) {
-          return;
-        }
+// Events go in a subcollection, as a long trip would not fit in one document. They are written before the template
+// so it only shows up in the picker once it is complete.
+const saveItineraryAsTemplate = async (
+  user: User,
+  itinerary: Itinerary & { startDate: string; endDate: string }
+): Promise<void> => {
+  const events = await readEventPlans(itinerary.id);
+  const [{ collection, doc, serverTimestamp, setDoc, writeBatch }, firestore] = await Promise.all([
+    loadFirestoreModule(),
+    getFirestoreInstance(),
+  ]);
+
+  const templateRef = doc(collection(firestore, "templates"));
+  for (const chunk of chunkItems(events, FIRESTORE_BATCH_LIMIT)) {
+    const batch = writeBatch(firestore);
+    chunk.forEach((data) => {
+      batch.set(doc(collection(firestore, "templates", templateRef.id, "events")), { ...data, ownerUid: user.uid });
+    });
+    await batch.commit();
+  }
 
-        setLoadError(deriveReadableError(loadError));
-        setIsEditingSidebar(false);
-        setLoading(false);
-      });
+  await setDoc(templateRef, {
+    ...pickPlanFields(itinerary),
+    title: itinerary.title,
+    ownerUid: user.uid,
+    startDate: itinerary.startDate,
+    endDate: itinerary.endDate,
+    travellers: copyTravellers(itinerary.travellers, user.uid),
+    eventCount: events.length,
+    createdAt: serverTimestamp(),
+  });
+};
+
+// The template goes first so it leaves the picker straight away; its events follow.
+const deleteItineraryTemplate = async (user: User, templateId: string): Promise<void> => {
+  const [{ deleteDoc, doc, writeBatch }, firestore] = await Promise.all([
+    loadFirestoreModule(),
+    getFirestoreInstance(),
+  ]);
+
+  await deleteDoc(doc(firestore, "templates", templateId));
+  const events = await listTemplateEvents(user, templateId);
+  for (const chunk of chunkItems(events, FIRESTORE_BATCH_LIMIT)) {
+    const batch = writeBatch(firestore);
+    chunk.forEach((entry) => {
+      batch.delete(doc(firestore, "templates", templateId, "events", entry.id));
+    });
+    await batch.commit();
+  }
+};
+
+function App() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [phase, setPhase] = useState<AuthPhase>("idle");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  // Tracked on its own because verifying changes the same `User` object rather than replacing it.
+  const [isEmailVerified, setIsEmailVerified] = useState(false);
+  const [verificationEmailStatus, setVerificationEmailStatus] = useState<"idle" | "sending" | "sent">("idle");
+  const [mode, setMode] = useState<AuthMode>("sign-in");
+  const [authReady, setAuthReady] = useState(false);
+  const [profileName, setProfileName] = useState<string | null>(null);
+  const [profileDraft, setProfileDraft] = useState("");
+  const [profileLoading, setProfileLoading] = useState(false);
+  const [profileSaving, setProfileSaving] = useState(false);
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
+  const [itinerariesLoading, setItinerariesLoading] = useState(false);
+  const [itineraryError, setItineraryError] = useState<string | null>(null);
+  const [newItineraryTitle, setNewItineraryTitle] = useState("");
+  const [newItineraryTravellerNames, setNewItineraryTravellerNames] = useState("");
+  const [newItineraryDates, setNewItineraryDates] = useState({
+    startDate: "",
+    endDate: "",
+  });
+  const [newItineraryTemplateId, setNewItineraryTemplateId] = useState("");
+  // Tagged with the account they were loaded for, so another account never sees them after a switch.
+  const [templatesState, setTemplatesState] = useState<{ uid: string; templates: ItineraryTemplate[] } | null>(null);
+  const [templatesError, setTemplatesError] = useState<string | null>(null);
+  const [templateMessage, setTemplateMessage] = useState<string | null>(null);
+  const [savingTemplateId, setSavingTemplateId] = useState<string | null>(null);
+  const [duplicateDraft, setDuplicateDraft] = useState<{
+    itineraryId: string;
+    title: string;
+    startDate: string;
+  } | null>(null);
+  const [duplicateSaving, setDuplicateSaving] = useState(false);
+  const [duplicateError, setDuplicateError] = useState<string | null>(null);
+  const [isCreatingItinerary, setIsCreatingItinerary] = useState(false);
+  const [isItineraryFormVisible, setIsItineraryFormVisible] = useState(false);
+  const [editingItineraryId, setEditingItineraryId] = useState<string | null>(null);
+  const [editItineraryDraft, setEditItineraryDraft] = useState({
+    startDate: "",
+    endDate: "",
+  });
+  const [editSaving, setEditSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [deletingItineraryId, setDeletingItineraryId] = useState<string | null>(null);
+  const [respondingInviteId, setRespondingInviteId] = useState<string | null>(null);
+  const [recentDeletion, setRecentDeletion] = useState<ItineraryDeletion | null>(null);
+  const [isRestoringItinerary, setIsRestoringItinerary] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [itineraryPendingWrites, setItineraryPendingWrites] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const isItineraryBuilderRoute = location.pathname.startsWith("/itineraries/");
+  const isPublicShareRoute = location.pathname.startsWith("/share/");
+  const syncStatus: SyncStatus = isOnline
+    ? itineraryPendingWrites
+      ? "pending"
+      : "synced"
+    : itineraryPendingWrites
+      ? "offline-pending"
+      : "offline";
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
 
     return () => {
-      isActive = false;
-      if (unsubscribe) {
-        unsubscribe();
-      }
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
     };
-  }, [currentUser.uid, itineraryId]);
+  }, []);
 
+  // Token changes include signing in and out, and the refresh after an email address is verified.
   useEffect(() => {
-    if (!itineraryId || !itinerary) {
-      setEvents([]);
-      setEventsLoading(false);
-      setEventsError(null);
+    const unsubscribe = onIdTokenChanged(auth, (user) => {
+      setCurrentUser(user);
+      setIsEmailVerified(Boolean(user?.emailVerified));
+      setPhase(user ? "authenticated" : "idle");
+      setAuthReady(true);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setProfileName(null);
+      setProfileDraft("");
+      setProfileLoading(false);
+      setProfileSaving(false);
+      setProfileMessage(null);
+      setProfileError(null);
+      setShowProfileEditor(false);
       return;
     }
 
-    let isActive = true;
-    let unsubscribe: Unsubscribe | undefined;
+    setProfileLoading(true);
 
-    setEventsLoading(true);
-    setEventsError(null);
+    let unsubscribe: Unsubscribe | undefined;
+    let isActive = true;
 
     loadFirestoreModule()
-      .then(async ({ collection, onSnapshot, query, where }) => {
+      .then(async (module) => {
         if (!isActive) {
           return;
         }
 
+        const { doc, onSnapshot } = module;
         const firestore = await getFirestoreInstance();
-        const eventsCollection = collection(firestore, "itineraries", itineraryId, "events");
-        const constrained = query(eventsCollection, where("ownerUid", "==", currentUser.uid));
+        const profileRef = doc(firestore, "profiles", currentUser.uid);
 
         unsubscribe = onSnapshot(
-          constrained,
+          profileRef,
           (snapshot) => {
-            if (!isActive) {
+            if (!snapshot.exists()) {
+              setProfileName(null);
+              setProfileDraft("");
+              setProfileLoading(false);
+              setProfileError(null);
               return;
             }
 
-            const next: ItineraryEvent[] = [];
-
-            snapshot.forEach((docSnapshot) => {
-              const data = docSnapshot.data();
-              const titleValue = typeof data.title === "string" ? data.title : null;
-              const startValue = typeof data.startDateTime === "string" ? data.startDateTime : null;
-              const endValue = typeof data.endDateTime === "string" ? data.endDateTime : null;
-
-              if (!titleValue || !startValue || !endValue) {
-                return;
-              }
-
-              if (!parseIsoLocalDateTime(startValue) || !parseIsoLocalDateTime(endValue)) {
-                return;
-              }
-
-              const descriptionValue =
-                typeof data.description === "string" && data.description.trim()
-                  ? data.description
-                  : null;
-
-              next.push({
-                id: docSnapshot.id,
-                title: titleValue,
-                description: descriptionValue,
-                startDateTime: startValue,
-                endDateTime: endValue,
-              });
-            });
+            const data = snapshot.data();
+            const rawName =
+              data && typeof data.displayName === "string"
+                ? data.displayName
+                : "";
+            const normalized = rawName.trim();
 
-            next.sort((a, b) => a.startDateTime.localeCompare(b.startDateTime));
-            setEvents(next);
-            setEventsLoading(false);
-            setEventsError(null);
+            setProfileName(normalized || null);
+            setProfileDraft(normalized);
+            setProfileLoading(false);
+            setProfileError(null);
           },
-          (eventsErrorValue) => {
-            if (!isActive) {
-              return;
-            }
-
-            setEvents([]);
-            setEventsLoading(false);
-            const readable = deriveReadableError(eventsErrorValue);
-            setEventsError(
-              typeof readable === "string"
-                ? readable
-                : "Unable to load itinerary events right now."
-            );
+          (error) => {
+            setProfileError(deriveReadableError(error));
+            setProfileLoading(false);
           }
         );
       })
-      .catch((eventsLoadError) => {
+      .catch((error) => {
         if (!isActive) {
           return;
         }
 
-        setEvents([]);
-        setEventsLoading(false);
-        const readable = deriveReadableError(eventsLoadError);
-        setEventsError(
-          typeof readable === "string"
-            ? readable
-            : "Unable to load itinerary events right now."
-        );
+        setProfileError(deriveReadableError(error));
+        setProfileLoading(false);
       });
 
     return () => {
@@ -1718,1348 +2489,6557 @@ function ItineraryDetailView({ currentUser }: { currentUser: User }) {
         unsubscribe();
       }
     };
-  }, [currentUser.uid, itineraryId, itinerary]);
-
-  const handleDetailSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
+  }, [currentUser]);
 
-    if (!itineraryId) {
-      setFormError("Itinerary reference missing.");
+  useEffect(() => {
+    if (!profileMessage) {
       return;
     }
 
-    const trimmedTitle = draft.title.trim();
+    const timeout = window.setTimeout(() => {
+      setProfileMessage(null);
+    }, 3000);
 
-    if (!trimmedTitle) {
-      setFormError("Itinerary name is required.");
+    return () => window.clearTimeout(timeout);
+  }, [profileMessage]);
+
+  useEffect(() => {
+    if (!recentDeletion || isRestoringItinerary) {
       return;
     }
 
-    const normalizedStart = normalizeDateInput(draft.startDate);
-    const normalizedEnd = normalizeDateInput(draft.endDate);
+    const timeout = window.setTimeout(() => {
+      setRecentDeletion(null);
+    }, UNDO_WINDOW_MS);
 
-    if (!normalizedStart || !normalizedEnd) {
-      setFormError("Please provide both start and end dates.");
-      return;
-    }
+    return () => window.clearTimeout(timeout);
+  }, [recentDeletion, isRestoringItinerary]);
 
-    if (new Date(normalizedStart) > new Date(normalizedEnd)) {
-      setFormError("Trip end date should be after the start date.");
+  useEffect(() => {
+    if (!currentUser) {
+      setItineraries([]);
+      setItinerariesLoading(false);
+      setItineraryError(null);
+      setNewItineraryTitle("");
+      setNewItineraryTravellerNames("");
+      setNewItineraryDates({ startDate: "", endDate: "" });
+      setIsItineraryFormVisible(false);
+      setRecentDeletion(null);
+      setVerificationEmailStatus("idle");
       return;
     }
 
-    const travellers = {
-      males: coerceTravellerCount(draft.travellers.males),
-      females: coerceTravellerCount(draft.travellers.females),
-      kids: coerceTravellerCount(draft.travellers.kids),
-    };
+    setItinerariesLoading(true);
 
-    setSaving(true);
-    setFormError(null);
-    setStatusMessage(null);
+    let unsubscribe: Unsubscribe | undefined;
+    let isActive = true;
 
-    try {
-      const [{ doc, updateDoc }, firestore] = await Promise.all([
-        loadFirestoreModule(),
-        getFirestoreInstance(),
-      ]);
+    loadFirestoreModule()
+      .then(async ({ collection, query, where, onSnapshot, or }) => {
+        if (!isActive) {
+          return;
+        }
 
-      const itineraryRef = doc(firestore, "itineraries", itineraryId);
-      await updateDoc(itineraryRef, {
-        title: trimmedTitle,
-        startDate: normalizedStart,
-        endDate: normalizedEnd,
-        travellers,
-      });
+        const firestore = await getFirestoreInstance();
+        const visibilityFilters = [
+          where("ownerUid", "==", currentUser.uid),
+          where("memberUids", "array-contains", currentUser.uid),
+        ];
+        // Invitations are only readable once the address they were sent to is verified.
+        if (currentUser.email && isEmailVerified) {
+          visibilityFilters.push(
+            where("inviteEmails", "array-contains", normalizeEmail(currentUser.email))
+          );
+        }
 
-      setStatusMessage("Itinerary updated");
-      setIsEditingSidebar(false);
-    } catch (updateError) {
-      setFormError(deriveReadableError(updateError));
-    } finally {
-      setSaving(false);
-    }
-  };
+        const userItinerariesQuery = query(
+          collection(firestore, "itineraries"),
+          or(...visibilityFilters)
+        );
 
-  const startSidebarEdit = () => {
-    if (!itinerary) {
-      return;
-    }
+        unsubscribe = onSnapshot(
+          userItinerariesQuery,
+          (snapshot) => {
+            const mapped = snapshot.docs
+              .map((docSnapshot) => normalizeItinerary(docSnapshot.id, docSnapshot.data()))
+              .sort((first, second) => {
+                const firstTime = first.createdAt ? first.createdAt.toMillis() : 0;
+                const secondTime = second.createdAt ? second.createdAt.toMillis() : 0;
+                return secondTime - firstTime;
+              });
 
-    setDraft(toDraftFromItinerary(itinerary));
-    setFormError(null);
-    setStatusMessage(null);
-    setIsEditingSidebar(true);
-  };
+            setItineraries(mapped);
+            setItineraryError(null);
+            setItinerariesLoading(false);
+          },
+          (error) => {
+            setItineraryError(deriveReadableError(error));
+            setItineraries([]);
+            setItinerariesLoading(false);
+          }
+        );
+      })
+      .catch((error) => {
+        if (!isActive) {
+          return;
+        }
 
-  const cancelSidebarEdit = () => {
-    if (!itinerary) {
+        setItineraryError(deriveReadableError(error));
+        setItineraries([]);
+        setItinerariesLoading(false);
+      });
+
+    return () => {
+      isActive = false;
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
+  }, [currentUser, isEmailVerified]);
+
+  useEffect(() => {
+    if (!currentUser) {
       return;
     }
 
-    setDraft(toDraftFromItinerary(itinerary));
-    setFormError(null);
-    setStatusMessage(null);
-    setIsEditingSidebar(false);
-  };
+    let unsubscribe: Unsubscribe | undefined;
+    let isActive = true;
 
-  const getDefaultEventDate = () => normalizeDateInput(draft.startDate) ?? normalizeDateInput(draft.endDate) ?? "";
+    loadFirestoreModule()
+      .then(async ({ collection, query, where, onSnapshot }) => {
+        if (!isActive) {
+          return;
+        }
 
-  const resetEventDraft = () => {
-    setEventDraft({
-      title: "",
-      description: "",
-      startDate: getDefaultEventDate(),
-      endDate: getDefaultEventDate(),
-      startTime: "",
-      endTime: "",
-    });
-  };
+        const firestore = await getFirestoreInstance();
+        unsubscribe = onSnapshot(
+          query(collection(firestore, "templates"), where("ownerUid", "==", currentUser.uid)),
+          (snapshot) => {
+            const templates = snapshot.docs
+              .map((docSnapshot) => normalizeItineraryTemplate(docSnapshot.id, docSnapshot.data()))
+              .filter((entry): entry is ItineraryTemplate => Boolean(entry))
+              .sort((first, second) => first.title.localeCompare(second.title));
 
-  const cancelEventCreation = (force = false) => {
-    if (eventSaving && !force) {
+            setTemplatesState({ uid: currentUser.uid, templates });
+            setTemplatesError(null);
+          },
+          (error) => {
+            setTemplatesError(deriveReadableError(error));
+          }
+        );
+      })
+      .catch((error) => {
+        if (isActive) {
+          setTemplatesError(deriveReadableError(error));
+        }
+      });
+
+    return () => {
+      isActive = false;
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!authReady) {
       return;
     }
 
-    setSelectionRange(null);
-    setDragSelection(null);
-    dragSelectionRef.current = null;
-    setIsDraggingSelection(false);
-    setShowEventForm(false);
-    setEventFormError(null);
-    setEventFormPosition(null);
-    setEventFormPlacement("right");
-    resetEventDraft();
-  };
+    if (!currentUser && phase !== "loading" && location.pathname !== "/" && !isPublicShareRoute) {
+      navigate("/", {
+        replace: true,
+        state: { from: location.pathname },
+      });
+    }
+  }, [authReady, currentUser, phase, location.pathname, navigate, isPublicShareRoute]);
 
-  const openEventComposer = (range: CalendarSelection) => {
-    setSelectionRange(range);
-    setEventFormPosition(null);
-    setEventFormPlacement("right");
-    setDragSelection(null);
-    dragSelectionRef.current = null;
-    setIsDraggingSelection(false);
-    setEventFormError(null);
-    setEventStatusMessage(null);
-    setShowEventForm(true);
+  useEffect(() => {
+    if (!authReady || !currentUser) {
+      return;
+    }
 
-    const safeEndMinutes = range.endMinutes >= TOTAL_DAY_MINUTES ? TOTAL_DAY_MINUTES - 1 : range.endMinutes;
+    const state = location.state as { from?: string } | null;
+    if (state && typeof state.from === "string" && location.pathname === "/") {
+      navigate(state.from, { replace: true });
+    }
+  }, [authReady, currentUser, location.pathname, location.state, navigate]);
 
-    setEventDraft((previous) => ({
-      title: previous.title,
-      description: previous.description,
-      startDate: range.startDate,
-      endDate: range.endDate,
-      startTime: formatMinutesToTime(range.startMinutes),
-      endTime: formatMinutesToTime(safeEndMinutes),
-    }));
-  };
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setPhase("loading");
+    setErrorMessage(null);
 
-  const beginSlotSelection = (date: string, hour: number) => {
-    const startMinutes = clampMinutes(hour * 60);
-    const initialEndMinutes = clampMinutes(startMinutes + 60);
+    try {
+      if (mode === "sign-in") {
+        await signInWithEmailAndPassword(auth, username, password);
+      } else {
+        await createUserWithEmailAndPassword(auth, username, password);
+      }
+    } catch (error) {
+      setPhase("error");
+      setErrorMessage(deriveReadableError(error));
+    }
+  };
 
-    dragSelectionRef.current = {
-      anchorDate: date,
-      anchorMinutes: startMinutes,
-      currentDate: date,
-      currentMinutes: initialEndMinutes,
-    };
+  const handleSignOut = async () => {
+    try {
+      await signOut(auth);
+      setPhase("idle");
+    } catch (error) {
+      setErrorMessage(deriveReadableError(error));
+      setPhase("error");
+    }
+  };
 
-    setDragSelection(normalizeSelection(date, startMinutes, date, initialEndMinutes));
-    setIsDraggingSelection(true);
-    setSelectionRange(null);
-    setShowEventForm(false);
-    setEventFormError(null);
-    setEventStatusMessage(null);
+  const toggleMode = () => {
+    setUsername("");
+    setPassword("");
+    setErrorMessage(null);
+    setMode((prevMode) => (prevMode === "sign-in" ? "sign-up" : "sign-in"));
   };
 
-  const extendSlotSelection = (date: string, hour: number) => {
-    if (!isDraggingSelection || !dragSelectionRef.current) {
+  const isAuthenticating = phase === "loading";
+  const isSignUp = mode === "sign-up";
+
+  const handleProfileSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!currentUser) {
+      setProfileError("You need to be signed in to update your name.");
       return;
     }
 
-    const { anchorDate, anchorMinutes } = dragSelectionRef.current;
-    const anchorAbs = toAbsoluteMinutes(anchorDate, anchorMinutes);
-    const targetStart = clampMinutes(hour * 60);
-    const targetStartAbs = toAbsoluteMinutes(date, targetStart);
+    const trimmed = profileDraft.trim();
 
-    if (anchorAbs === null || targetStartAbs === null) {
+    if (!trimmed) {
+      setProfileError("Please tell us what to call you.");
       return;
     }
 
-    const movingForward = targetStartAbs >= anchorAbs;
-    const currentMinutes = movingForward
-      ? clampMinutes((hour + 1) * 60)
-      : targetStart;
+    if (trimmed === (profileName?.trim() ?? "")) {
+      setProfileMessage("Saved!");
+      return;
+    }
 
-    dragSelectionRef.current = {
-      anchorDate,
-      anchorMinutes,
-      currentDate: date,
-      currentMinutes,
-    };
+    setProfileSaving(true);
+    setProfileError(null);
+    setProfileMessage(null);
 
-    setDragSelection(normalizeSelection(anchorDate, anchorMinutes, date, currentMinutes));
+    try {
+      const [{ doc, setDoc }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
+
+      const profileRef = doc(firestore, "profiles", currentUser.uid);
+      await setDoc(profileRef, { displayName: trimmed }, { merge: true });
+
+      setProfileName(trimmed);
+      setProfileDraft(trimmed);
+      setProfileMessage("Saved!");
+    } catch (error) {
+      setProfileError(deriveReadableError(error));
+    } finally {
+      setProfileSaving(false);
+      setShowProfileEditor(false);
+    }
   };
 
-  const finalizeSlotSelection = (commit: boolean) => {
-    const anchor = dragSelectionRef.current;
-    dragSelectionRef.current = null;
-    setIsDraggingSelection(false);
-    setDragSelection(null);
+  const templates = templatesState && templatesState.uid === currentUser?.uid ? templatesState.templates : [];
+  const selectedTemplate = templates.find((entry) => entry.id === newItineraryTemplateId) ?? null;
 
-    if (!commit || !anchor) {
+  const handleCreateItinerary = async (
+    event: FormEvent<HTMLFormElement>
+  ) => {
+    event.preventDefault();
+
+    if (!currentUser) {
+      setItineraryError("You need to be signed in to create an itinerary.");
       return;
     }
 
-    const selection = normalizeSelection(
-      anchor.anchorDate,
-      anchor.anchorMinutes,
-      anchor.currentDate,
-      anchor.currentMinutes
-    );
-
-    openEventComposer(selection);
-  };
+    const trimmedTitle = newItineraryTitle.trim();
 
-  useEffect(() => {
-    if (!isDraggingSelection) {
+    if (!trimmedTitle) {
+      setItineraryError("Itinerary name is required.");
       return;
     }
 
-    const commit = () => finalizeSlotSelection(true);
-    const cancel = () => finalizeSlotSelection(false);
+    const normalizedStart = normalizeDateInput(newItineraryDates.startDate);
+    const normalizedEnd = normalizeDateInput(newItineraryDates.endDate);
 
-    window.addEventListener("pointerup", commit);
-    window.addEventListener("pointercancel", cancel);
+    if (!normalizedStart || !normalizedEnd) {
+      setItineraryError("Please provide both start and end dates for the trip.");
+      return;
+    }
+
+    if (new Date(normalizedStart) > new Date(normalizedEnd)) {
+      setItineraryError("Trip end date should be after the start date.");
+      return;
+    }
+
+    // Names typed in are added to the template's travellers, whom its events are assigned to.
+    const travellers = [
+      ...(selectedTemplate ? copyTravellers(selectedTemplate.travellers, currentUser.uid) : []),
+      ...parseTravellerNames(newItineraryTravellerNames).map((name) => createTraveller(name)),
+    ];
+
+    setIsCreatingItinerary(true);
+    setItineraryError(null);
+
+    try {
+      const templateEvents = selectedTemplate ? await listTemplateEvents(currentUser, selectedTemplate.id) : [];
+      await createItineraryWithEvents(
+        currentUser,
+        {
+          title: trimmedTitle,
+          startDate: normalizedStart,
+          endDate: normalizedEnd,
+          travellers,
+          ...(selectedTemplate
+            ? {
+                plan: pickPlanFields(selectedTemplate),
+                events: templateEvents.map((entry) => entry.data),
+                dayShift: countDaysBetween(selectedTemplate.startDate, normalizedStart),
+              }
+            : {}),
+        },
+        setItineraryError
+      );
+
+      setNewItineraryTitle("");
+      setNewItineraryTravellerNames("");
+      setNewItineraryDates({ startDate: "", endDate: "" });
+      setNewItineraryTemplateId("");
+      setIsItineraryFormVisible(false);
+    } catch (error) {
+      setItineraryError(deriveReadableError(error));
+    } finally {
+      setIsCreatingItinerary(false);
+    }
+  };
+
+  const beginEditItinerary = (itinerary: Itinerary) => {
+    setEditingItineraryId(itinerary.id);
+    setEditItineraryDraft({
+      startDate: itinerary.startDate ?? "",
+      endDate: itinerary.endDate ?? "",
+    });
+    setEditError(null);
+  };
+
+  const cancelEditItinerary = () => {
+    setEditingItineraryId(null);
+    setEditError(null);
+    setEditItineraryDraft({ startDate: "", endDate: "" });
+  };
+
+  const handleUpdateItinerary = async (
+    event: FormEvent<HTMLFormElement>,
+    itineraryId: string
+  ) => {
+    event.preventDefault();
+
+    if (!currentUser) {
+      setEditError("You need to be signed in to update an itinerary.");
+      return;
+    }
+
+    const normalizedStart = normalizeDateInput(editItineraryDraft.startDate);
+    const normalizedEnd = normalizeDateInput(editItineraryDraft.endDate);
+
+    if (!normalizedStart || !normalizedEnd) {
+      setEditError("Please include both start and end dates.");
+      return;
+    }
+
+    if (new Date(normalizedStart) > new Date(normalizedEnd)) {
+      setEditError("Trip end date should be after the start date.");
+      return;
+    }
+
+    setEditSaving(true);
+    setEditError(null);
+
+    try {
+      const [{ doc, updateDoc }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
+
+      // Closes straight away, as offline the write only settles once the connection returns.
+      const itineraryRef = doc(firestore, "itineraries", itineraryId);
+      queueWrite(updateDoc(itineraryRef, { startDate: normalizedStart, endDate: normalizedEnd }), setItineraryError);
+
+      cancelEditItinerary();
+    } catch (error) {
+      setEditError(deriveReadableError(error));
+    } finally {
+      setEditSaving(false);
+    }
+  };
+
+  const selectNewItineraryTemplate = (templateId: string) => {
+    setNewItineraryTemplateId(templateId);
+    const template = templates.find((entry) => entry.id === templateId);
+    if (!template) {
+      return;
+    }
+
+    setNewItineraryTitle((title) => title || template.title);
+    setNewItineraryDates((dates) => ({
+      ...dates,
+      endDate: (dates.startDate && getTemplateEndDate(template, dates.startDate)) || dates.endDate,
+    }));
+  };
+
+  const handleDeleteTemplate = async (template: ItineraryTemplate) => {
+    if (!currentUser) {
+      return;
+    }
+
+    setTemplatesError(null);
+
+    try {
+      await deleteItineraryTemplate(currentUser, template.id);
+      setNewItineraryTemplateId("");
+    } catch (error) {
+      setTemplatesError(deriveReadableError(error));
+    }
+  };
+
+  const handleSaveAsTemplate = async (itinerary: Itinerary) => {
+    const { startDate, endDate } = itinerary;
+    if (!currentUser || !startDate || !endDate) {
+      return;
+    }
+
+    setSavingTemplateId(itinerary.id);
+    setItineraryError(null);
+    setTemplateMessage(null);
+
+    try {
+      await saveItineraryAsTemplate(currentUser, { ...itinerary, startDate, endDate });
+      setTemplateMessage(`Saved “${itinerary.title}” as a template. Pick it when you create a new itinerary.`);
+    } catch (error) {
+      setItineraryError(deriveReadableError(error));
+    } finally {
+      setSavingTemplateId(null);
+    }
+  };
+
+  const beginDuplicateItinerary = (itinerary: Itinerary) => {
+    setDuplicateDraft({ itineraryId: itinerary.id, title: `${itinerary.title} (copy)`, startDate: "" });
+    setDuplicateError(null);
+  };
+
+  const handleDuplicateItinerary = async (event: FormEvent<HTMLFormElement>, itinerary: Itinerary) => {
+    event.preventDefault();
+
+    if (!currentUser || !duplicateDraft) {
+      setDuplicateError("You need to be signed in to duplicate an itinerary.");
+      return;
+    }
+
+    const trimmedTitle = duplicateDraft.title.trim();
+    if (!trimmedTitle) {
+      setDuplicateError("Itinerary name is required.");
+      return;
+    }
+
+    const normalizedStart = normalizeDateInput(duplicateDraft.startDate);
+    if (!normalizedStart || !itinerary.startDate || !itinerary.endDate) {
+      setDuplicateError("Please pick a start date for the copy.");
+      return;
+    }
+
+    // Every event moves by the same number of days, so times relative to the trip stay the same.
+    const dayShift = countDaysBetween(itinerary.startDate, normalizedStart);
+    const normalizedEnd = shiftIsoDate(itinerary.endDate, dayShift);
+    if (!normalizedEnd) {
+      setDuplicateError("Please pick a start date for the copy.");
+      return;
+    }
+
+    setDuplicateSaving(true);
+    setDuplicateError(null);
+
+    try {
+      const events = await readEventPlans(itinerary.id);
+      // The form is closed by the time a rejected write is heard of, so that error shows on the dashboard.
+      await createItineraryWithEvents(
+        currentUser,
+        {
+          title: trimmedTitle,
+          startDate: normalizedStart,
+          endDate: normalizedEnd,
+          travellers: copyTravellers(itinerary.travellers, currentUser.uid),
+          plan: pickPlanFields(itinerary),
+          events,
+          dayShift,
+        },
+        setItineraryError
+      );
+
+      setDuplicateDraft(null);
+    } catch (error) {
+      setDuplicateError(deriveReadableError(error));
+    } finally {
+      setDuplicateSaving(false);
+    }
+  };
+
+  const handleOpenItinerary = (itineraryId: string) => {
+    navigate(`/itineraries/${itineraryId}`);
+  };
+
+  const handleRespondToInvite = async (itinerary: Itinerary, accept: boolean) => {
+    if (!currentUser || !currentUser.email) {
+      setItineraryError("You need to be signed in to respond to an invitation.");
+      return;
+    }
+
+    if (!currentUser.emailVerified) {
+      setItineraryError("Verify your email address before responding to an invitation.");
+      return;
+    }
+
+    const email = normalizeEmail(currentUser.email);
+    const invitedRole = itinerary.invites[email];
+    if (!invitedRole) {
+      setItineraryError("This invitation is no longer available.");
+      return;
+    }
+
+    setRespondingInviteId(itinerary.id);
+    setItineraryError(null);
+
+    try {
+      const [{ arrayRemove, arrayUnion, doc, updateDoc }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
+
+      const itineraryRef = doc(firestore, "itineraries", itinerary.id);
+      await updateDoc(itineraryRef, {
+        invites: omitKey(itinerary.invites, email),
+        inviteEmails: arrayRemove(email),
+        ...(accept
+          ? {
+              members: {
+                ...itinerary.members,
+                [currentUser.uid]: { role: invitedRole, email },
+              },
+              memberUids: arrayUnion(currentUser.uid),
+            }
+          : {}),
+      });
+    } catch (error) {
+      setItineraryError(deriveReadableError(error));
+    } finally {
+      setRespondingInviteId(null);
+    }
+  };
+
+  const handleSendVerificationEmail = async () => {
+    if (!currentUser) {
+      return;
+    }
+
+    setVerificationEmailStatus("sending");
+    setItineraryError(null);
+
+    try {
+      await sendEmailVerification(currentUser);
+      setVerificationEmailStatus("sent");
+    } catch (error) {
+      setVerificationEmailStatus("idle");
+      setItineraryError(deriveReadableError(error));
+    }
+  };
+
+  const handleCheckEmailVerified = async () => {
+    if (!currentUser) {
+      return;
+    }
+
+    setItineraryError(null);
+
+    try {
+      await currentUser.reload();
+      if (!currentUser.emailVerified) {
+        setItineraryError("Your email address is not verified yet. Open the link in the verification email first.");
+        return;
+      }
+
+      // The rules read the flag from the ID token, so fetch one issued after verifying.
+      await currentUser.getIdToken(true);
+    } catch (error) {
+      setItineraryError(deriveReadableError(error));
+    }
+  };
+
+  const handleDeleteItinerary = async (itinerary: Itinerary) => {
+    if (!currentUser) {
+      setItineraryError("You need to be signed in to delete an itinerary.");
+      return;
+    }
+
+    setDeletingItineraryId(itinerary.id);
+    setItineraryError(null);
+
+    if (isItineraryBuilderRoute) {
+      navigate("/");
+    }
+
+    try {
+      const deletion = await deleteItineraryWithEvents(itinerary);
+      setRecentDeletion(deletion);
+      if (editingItineraryId === itinerary.id) {
+        cancelEditItinerary();
+      }
+    } catch (error) {
+      setItineraryError(deriveReadableError(error));
+    } finally {
+      setDeletingItineraryId(null);
+    }
+  };
+
+  const handleUndoDelete = async () => {
+    if (!recentDeletion) {
+      return;
+    }
+
+    setIsRestoringItinerary(true);
+    setItineraryError(null);
+
+    try {
+      await restoreDeletedItinerary(recentDeletion);
+      setRecentDeletion(null);
+    } catch (error) {
+      setItineraryError(deriveReadableError(error));
+    } finally {
+      setIsRestoringItinerary(false);
+    }
+  };
+
+  const currentUserEmail = currentUser?.email ? normalizeEmail(currentUser.email) : null;
+  const accessibleItineraries = currentUser
+    ? itineraries.filter((itinerary) => resolveItineraryRole(itinerary, currentUser.uid))
+    : [];
+  const pendingInvitations =
+    currentUser && currentUserEmail
+      ? itineraries.filter(
+          (itinerary) =>
+            !resolveItineraryRole(itinerary, currentUser.uid) && itinerary.invites[currentUserEmail]
+        )
+      : [];
+
+  const DashboardContent = () => (
+    <section className="card itinerary-card" aria-live="polite">
+      <div className="section-heading">
+        <h2>Your itineraries</h2>
+        <div className="itinerary-actions">
+          <span className="badge">{accessibleItineraries.length}</span>
+          <button
+            className="primary"
+            type="button"
+            onClick={() => {
+              setIsItineraryFormVisible((visible) => !visible);
+              setItineraryError(null);
+            }}
+            disabled={isCreatingItinerary}
+          >
+            {isItineraryFormVisible ? "Close" : "New itinerary"}
+          </button>
+        </div>
+      </div>
+
+      {templateMessage ? (
+        <p className="form-note" role="status">
+          {templateMessage}
+        </p>
+      ) : null}
+
+      {isItineraryFormVisible ? (
+        <form className="itinerary-form" onSubmit={handleCreateItinerary}>
+          {templates.length ? (
+            <div className="template-picker">
+              <label className="field">
+                <span>Start from</span>
+                <select
+                  name="itinerary-template"
+                  value={selectedTemplate?.id ?? ""}
+                  onChange={(event) => selectNewItineraryTemplate(event.target.value)}
+                  disabled={isCreatingItinerary}
+                >
+                  <option value="">Blank itinerary</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.title}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {selectedTemplate ? (
+                <p className="form-note">
+                  {formatDayCount(countDaysBetween(selectedTemplate.startDate, selectedTemplate.endDate) + 1)} ·{" "}
+                  {selectedTemplate.eventCount} {selectedTemplate.eventCount === 1 ? "event" : "events"} ·{" "}
+                  {formatTravellerCount(selectedTemplate.travellers.length)}.{" "}
+                  <button
+                    type="button"
+                    className="link-button link-button--danger"
+                    onClick={() => void handleDeleteTemplate(selectedTemplate)}
+                    disabled={isCreatingItinerary}
+                  >
+                    Delete template
+                  </button>
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+          {templatesError ? (
+            <p className="error" role="alert">
+              {templatesError}
+            </p>
+          ) : null}
+
+          <label className="field">
+            <span>Itinerary name</span>
+            <input
+              type="text"
+              name="itinerary-title"
+              placeholder="Weekend getaway to Kyoto"
+              value={newItineraryTitle}
+              onChange={(event) => setNewItineraryTitle(event.target.value)}
+              required
+              disabled={isCreatingItinerary}
+            />
+          </label>
+
+          <div className="date-grid">
+            <label className="field compact-field">
+              <span>Start date</span>
+              <input
+                type="date"
+                name="trip-start"
+                value={newItineraryDates.startDate}
+                onChange={(event) => {
+                  const startDate = event.target.value;
+                  // Templates have a set length, so the end date follows the start.
+                  const templateEnd =
+                    selectedTemplate && startDate ? getTemplateEndDate(selectedTemplate, startDate) : null;
+                  setNewItineraryDates((prev) => ({
+                    startDate,
+                    endDate: templateEnd ?? prev.endDate,
+                  }));
+                }}
+                required
+                disabled={isCreatingItinerary}
+              />
+            </label>
+
+            <label className="field compact-field">
+              <span>End date</span>
+              <input
+                type="date"
+                name="trip-end"
+                value={newItineraryDates.endDate}
+                onChange={(event) =>
+                  setNewItineraryDates((prev) => ({
+                    ...prev,
+                    endDate: event.target.value,
+                  }))
+                }
+                required
+                disabled={isCreatingItinerary}
+              />
+            </label>
+          </div>
+
+          <label className="field">
+            <span>Travellers</span>
+            <input
+              type="text"
+              name="traveller-names"
+              value={newItineraryTravellerNames}
+              onChange={(event) => setNewItineraryTravellerNames(event.target.value)}
+              placeholder="Asha, Ben, Kai"
+              disabled={isCreatingItinerary}
+            />
+          </label>
+          <p className="form-note">
+            Separate names with commas. Ages, notes and accounts can be added on the trip page.
+            {selectedTemplate ? " They join the travellers from the template." : ""}
+          </p>
+
+          <button className="primary" type="submit" disabled={isCreatingItinerary}>
+            {isCreatingItinerary ? "Saving..." : "Create itinerary"}
+          </button>
+        </form>
+      ) : null}
+
+      {currentUserEmail && !isEmailVerified ? (
+        <p className="form-note" role="status">
+          Invitations sent to {currentUserEmail} show up here once you verify it.{" "}
+          {verificationEmailStatus === "sent" ? (
+            <>
+              Check your inbox for the link, then{" "}
+              <button type="button" className="link-button" onClick={() => void handleCheckEmailVerified()}>
+                continue
+              </button>
+              .
+            </>
+          ) : (
+            <button
+              type="button"
+              className="link-button"
+              onClick={() => void handleSendVerificationEmail()}
+              disabled={verificationEmailStatus === "sending"}
+            >
+              {verificationEmailStatus === "sending" ? "Sending..." : "Send verification email"}
+            </button>
+          )}
+        </p>
+      ) : null}
+
+      {pendingInvitations.length && currentUserEmail ? (
+        <div className="invitation-list" role="group" aria-label="Trip invitations">
+          {pendingInvitations.map((itinerary) => {
+            const isResponding = respondingInviteId === itinerary.id;
+
+            return (
+              <div key={itinerary.id} className="invitation-item">
+                <div>
+                  <p className="invitation-title">{itinerary.title}</p>
+                  <p className="muted">
+                    {formatDateRange(itinerary.startDate, itinerary.endDate)} · Invited as{" "}
+                    {ITINERARY_ROLE_LABELS[itinerary.invites[currentUserEmail]].toLowerCase()}
+                  </p>
+                </div>
+                <div className="edit-actions">
+                  <button
+                    className="primary"
+                    type="button"
+                    onClick={() => handleRespondToInvite(itinerary, true)}
+                    disabled={isResponding}
+                  >
+                    {isResponding ? "Saving..." : "Accept"}
+                  </button>
+                  <button
+                    className="secondary"
+                    type="button"
+                    onClick={() => handleRespondToInvite(itinerary, false)}
+                    disabled={isResponding}
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+
+      {itineraryError ? (
+        <p className="error" role="alert">
+          {itineraryError}
+        </p>
+      ) : itinerariesLoading ? (
+        <p className="muted">Loading itineraries...</p>
+      ) : accessibleItineraries.length ? (
+        <div className="itinerary-grid">
+          {accessibleItineraries.map((itinerary) => {
+            const isDuplicatingThisItinerary = duplicateDraft?.itineraryId === itinerary.id;
+            const isEditingThisItinerary = editingItineraryId === itinerary.id || isDuplicatingThisItinerary;
+            const isDeletingThisItinerary = deletingItineraryId === itinerary.id;
+            const hasTripDates = Boolean(itinerary.startDate && itinerary.endDate);
+            const itineraryRole = resolveItineraryRole(itinerary, currentUser?.uid ?? "");
+            const canEditThisItinerary = itineraryRole === "owner" || itineraryRole === "editor";
+
+            return (
+              <article
+                key={itinerary.id}
+                className="itinerary-card-item"
+                role="button"
+                tabIndex={0}
+                onClick={() => {
+                  if (!isEditingThisItinerary) {
+                    handleOpenItinerary(itinerary.id);
+                  }
+                }}
+                onKeyDown={(event) => {
+                  if (
+                    !isEditingThisItinerary &&
+                    (event.key === "Enter" || event.key === " ")
+                  ) {
+                    event.preventDefault();
+                    handleOpenItinerary(itinerary.id);
+                  }
+                }}
+                aria-label={`Open itinerary ${itinerary.title}`}
+              >
+                <div className="itinerary-card-heading">
+                  <h3>{itinerary.title}</h3>
+                  {itineraryRole && itineraryRole !== "owner" ? (
+                    <span className="pill">Shared · {ITINERARY_ROLE_LABELS[itineraryRole]}</span>
+                  ) : null}
+                </div>
+
+                <p className="date-range" aria-label="Trip dates">
+                  {formatDateRange(itinerary.startDate, itinerary.endDate)}
+                </p>
+
+                <p className="traveller-total" aria-label="Total travellers">
+                  {formatTravellerCount(itinerary.travellers.length)}
+                </p>
+
+                {isDuplicatingThisItinerary && duplicateDraft ? (
+                  <form
+                    className="itinerary-edit-form"
+                    onSubmit={(event) => handleDuplicateItinerary(event, itinerary)}
+                    onClick={(event) => event.stopPropagation()}
+                    aria-label={`Duplicate ${itinerary.title}`}
+                  >
+                    <label className="field compact-field">
+                      <span>Name of the copy</span>
+                      <input
+                        type="text"
+                        value={duplicateDraft.title}
+                        onChange={(event) =>
+                          setDuplicateDraft((prev) => (prev ? { ...prev, title: event.target.value } : prev))
+                        }
+                        disabled={duplicateSaving}
+                        required
+                      />
+                    </label>
+                    <label className="field compact-field">
+                      <span>New start date</span>
+                      <input
+                        type="date"
+                        value={duplicateDraft.startDate}
+                        onChange={(event) =>
+                          setDuplicateDraft((prev) => (prev ? { ...prev, startDate: event.target.value } : prev))
+                        }
+                        disabled={duplicateSaving}
+                        required
+                      />
+                    </label>
+                    <p className="form-note">
+                      Events, travellers and the budget are copied and moved with the new dates. Members, the share
+                      link and expenses stay with this trip.
+                    </p>
+
+                    {duplicateError ? (
+                      <p className="error" role="alert">
+                        {duplicateError}
+                      </p>
+                    ) : null}
+
+                    <div className="edit-actions">
+                      <button className="primary" type="submit" disabled={duplicateSaving}>
+                        {duplicateSaving ? "Copying..." : "Duplicate"}
+                      </button>
+                      <button
+                        className="secondary"
+                        type="button"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          setDuplicateDraft(null);
+                        }}
+                        disabled={duplicateSaving}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : isEditingThisItinerary ? (
+                  <form
+                    className="itinerary-edit-form"
+                    onSubmit={(event) => handleUpdateItinerary(event, itinerary.id)}
+                    onClick={(event) => event.stopPropagation()}
+                  >
+                    <div className="date-grid">
+                      <label className="field compact-field">
+                        <span>Start date</span>
+                        <input
+                          type="date"
+                          value={editItineraryDraft.startDate}
+                          onChange={(event) =>
+                            setEditItineraryDraft((prev) => ({
+                              ...prev,
+                              startDate: event.target.value,
+                            }))
+                          }
+                          disabled={editSaving}
+                          required
+                        />
+                      </label>
+                      <label className="field compact-field">
+                        <span>End date</span>
+                        <input
+                          type="date"
+                          value={editItineraryDraft.endDate}
+                          onChange={(event) =>
+                            setEditItineraryDraft((prev) => ({
+                              ...prev,
+                              endDate: event.target.value,
+                            }))
+                          }
+                          disabled={editSaving}
+                          required
+                        />
+                      </label>
+                    </div>
+
+                    {editError ? (
+                      <p className="error" role="alert">
+                        {editError}
+                      </p>
+                    ) : null}
+
+                    <div className="edit-actions">
+                      <button className="primary" type="submit" disabled={editSaving}>
+                        {editSaving ? "Saving..." : "Save"}
+                      </button>
+                      <button
+                        className="secondary"
+                        type="button"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          cancelEditItinerary();
+                        }}
+                        disabled={editSaving}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="card-actions">
+                    {canEditThisItinerary ? (
+                      <button
+                        type="button"
+                        className="link-button"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          beginEditItinerary(itinerary);
+                        }}
+                        disabled={isDeletingThisItinerary}
+                      >
+                        Edit details
+                      </button>
+                    ) : null}
+                    {hasTripDates ? (
+                      <button
+                        type="button"
+                        className="link-button"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          beginDuplicateItinerary(itinerary);
+                        }}
+                        disabled={isDeletingThisItinerary}
+                      >
+                        Duplicate
+                      </button>
+                    ) : null}
+                    {hasTripDates ? (
+                      <button
+                        type="button"
+                        className="link-button"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          void handleSaveAsTemplate(itinerary);
+                        }}
+                        disabled={isDeletingThisItinerary || savingTemplateId === itinerary.id}
+                      >
+                        {savingTemplateId === itinerary.id ? "Saving..." : "Save as template"}
+                      </button>
+                    ) : null}
+                    {itineraryRole === "owner" ? (
+                      <button
+                        type="button"
+                        className="link-button link-button--danger"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          void handleDeleteItinerary(itinerary);
+                        }}
+                        disabled={isDeletingThisItinerary}
+                      >
+                        {isDeletingThisItinerary ? "Deleting..." : "Delete"}
+                      </button>
+                    ) : null}
+                  </div>
+                )}
+              </article>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="empty-state">
+          No itineraries yet. Use the button above to create one.
+        </p>
+      )}
+    </section>
+  );
+
+  // Public links render without a session so people without Travelio accounts can view them.
+  if (isPublicShareRoute) {
+    return (
+      <div className="app-shell">
+        <header className="app-header">
+          <h1>Travelio</h1>
+          <p className="app-subtitle">A trip plan shared with you.</p>
+        </header>
+
+        <Routes>
+          <Route path="/share/:token" element={<SharedItineraryView />} />
+        </Routes>
+
+        <footer className="app-footer">
+          <p>Plan your own trips with a Travelio account.</p>
+        </footer>
+      </div>
+    );
+  }
+
+  if (!authReady) {
+    return (
+      <div className="app-shell">
+        <header className="app-header">
+          <h1>Travelio</h1>
+          <p className="app-subtitle">Plan itineraries securely with your Travelio account.</p>
+        </header>
+
+        <section className="card auth-card" aria-live="polite">
+          <p className="muted">Checking your session…</p>
+        </section>
+
+        <footer className="app-footer">
+          <p>Authentication handled by Google Cloud Identity Platform.</p>
+        </footer>
+      </div>
+    );
+  }
+
+  return (
+    <div className="app-shell">
+      <header className="app-header">
+        <h1>Travelio</h1>
+        <p className="app-subtitle">Plan itineraries securely with your Travelio account.</p>
+      </header>
+
+      {currentUser ? (
+        <>
+          <header className="signed-in-header">
+            <div>
+              <p className="signed-in-label">
+                {isItineraryBuilderRoute ? "Itinerary builder" : "Travelio dashboard"}
+              </p>
+              <p className="signed-in-greeting">
+                Hi
+                {" "}
+                {profileName?.trim() || currentUser.displayName?.trim() || currentUser.email || currentUser.uid}
+              </p>
+            </div>
+            <div className="signed-in-actions">
+              {!isOnline || isItineraryBuilderRoute ? (
+                <span className={`sync-status sync-status--${syncStatus}`} role="status">
+                  {SYNC_STATUS_LABELS[syncStatus]}
+                </span>
+              ) : null}
+              {isItineraryBuilderRoute ? (
+                <button className="secondary" type="button" onClick={() => navigate("/")}>
+                  Back to itineraries
+                </button>
+              ) : null}
+              <button
+                className="secondary"
+                type="button"
+                onClick={() => {
+                  setShowProfileEditor((visible) => !visible);
+                  setProfileMessage(null);
+                  setProfileError(null);
+                  setProfileDraft(profileName ?? "");
+                }}
+              >
+                {showProfileEditor ? "Close" : "Edit profile"}
+              </button>
+              <button className="secondary" type="button" onClick={handleSignOut}>
+                Sign out
+              </button>
+            </div>
+          </header>
+
+          {showProfileEditor ? (
+            <section className="profile-panel" aria-live="polite">
+              <form className="profile-form" onSubmit={handleProfileSubmit}>
+                <label className="field profile-field">
+                  <span>What should we call you?</span>
+                  <input
+                    type="text"
+                    name="displayName"
+                    placeholder="Add a friendly name"
+                    value={profileDraft}
+                    onChange={(event) => setProfileDraft(event.target.value)}
+                    disabled={profileLoading || profileSaving}
+                    required
+                  />
+                </label>
+                <button
+                  className="secondary"
+                  type="submit"
+                  disabled={profileLoading || profileSaving}
+                >
+                  {profileSaving ? "Saving..." : "Save name"}
+                </button>
+              </form>
+
+              {profileError ? (
+                <p className="error" role="alert">
+                  {profileError}
+                </p>
+              ) : profileMessage ? (
+                <p className="profile-status" role="status">
+                  {profileMessage}
+                </p>
+              ) : profileLoading ? (
+                <p className="muted">Loading profile...</p>
+              ) : null}
+            </section>
+          ) : null}
+
+          <Routes>
+            <Route path="/" element={<DashboardContent />} />
+            <Route
+              path="/itineraries/:itineraryId"
+              element={
+                <ItineraryDetailView
+                  currentUser={currentUser}
+                  onDeleteItinerary={handleDeleteItinerary}
+                  onPendingWritesChange={setItineraryPendingWrites}
+                />
+              }
+            />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+
+          {recentDeletion ? (
+            <div className="undo-toast" role="status">
+              <span>
+                Deleted “{recentDeletion.title}”
+                {recentDeletion.events.length
+                  ? ` and ${recentDeletion.events.length} ${recentDeletion.events.length === 1 ? "event" : "events"}`
+                  : ""}
+                .
+              </span>
+              <button
+                className="link-button"
+                type="button"
+                onClick={handleUndoDelete}
+                disabled={isRestoringItinerary}
+              >
+                {isRestoringItinerary ? "Restoring..." : "Undo"}
+              </button>
+            </div>
+          ) : null}
+        </>
+      ) : (
+        <section className="card auth-card" aria-live="polite">
+          <form className="auth-form" onSubmit={handleSubmit}>
+            <h2>{isSignUp ? "Create an account" : "Sign in"}</h2>
+            <p className="form-helper">
+              {isSignUp
+                ? "Enter your email and a strong password to register a new Travelio account."
+                : "Use the credentials configured in Google Cloud Identity Platform."}
+            </p>
+
+            <label className="field">
+              <span>Email</span>
+              <input
+                type="email"
+                name="username"
+                autoComplete="username"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                placeholder="you@example.com"
+                required
+                disabled={isAuthenticating}
+              />
+            </label>
+
+            <label className="field">
+              <span>Password</span>
+              <input
+                type="password"
+                name="password"
+                autoComplete={isSignUp ? "new-password" : "current-password"}
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                required
+                disabled={isAuthenticating}
+              />
+            </label>
+
+            {isSignUp ? (
+              <p className="form-note">
+                Passwords must meet the policy you configure in Identity Platform.
+              </p>
+            ) : null}
+
+            {errorMessage ? (
+              <p className="error" role="alert">
+                {errorMessage}
+              </p>
+            ) : null}
+
+            <button className="primary" type="submit" disabled={isAuthenticating}>
+              {isAuthenticating
+                ? "Processing..."
+                : isSignUp
+                  ? "Create account"
+                  : "Sign in"}
+            </button>
+          </form>
+
+          <p className="form-switch">
+            {isSignUp ? "Already have an account?" : "Need a Travelio account?"}
+            <button
+              type="button"
+              className="link-button"
+              onClick={toggleMode}
+              disabled={isAuthenticating}
+            >
+              {isSignUp ? "Sign in" : "Create one"}
+            </button>
+          </p>
+        </section>
+      )}
+
+      <footer className="app-footer">
+        <p>Authentication handled by Google Cloud Identity Platform.</p>
+      </footer>
+    </div>
+  );
+}
+
+type ItineraryDetailDraft = {
+  title: string;
+  startDate: string;
+  endDate: string;
+  travellers: Traveller[];
+};
+
+const toDraftFromItinerary = (value: Itinerary): ItineraryDetailDraft => ({
+  title: value.title,
+  startDate: value.startDate ?? "",
+  endDate: value.endDate ?? "",
+  travellers: value.travellers.map((traveller) => ({ ...traveller })),
+});
+
+function ItineraryDetailView({
+  currentUser,
+  onDeleteItinerary,
+  onPendingWritesChange,
+  createTravelEstimator = createStraightLineEstimator,
+}: {
+  currentUser: User;
+  onDeleteItinerary: (itinerary: Itinerary) => Promise<void>;
+  onPendingWritesChange: (hasPendingWrites: boolean) => void;
+  // Swaps the straight-line travel estimates for another source, such as a routing service.
+  createTravelEstimator?: TravelTimeEstimatorFactory;
+}) {
+  const { itineraryId } = useParams<{ itineraryId: string }>();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [draft, setDraft] = useState<ItineraryDetailDraft>({
+    title: "",
+    startDate: "",
+    endDate: "",
+    travellers: [],
+  });
+  const [isEditingSidebar, setIsEditingSidebar] = useState(false);
+  const [events, setEvents] = useState<ItineraryEvent[]>([]);
+  const [eventsLoading, setEventsLoading] = useState(false);
+  const [eventsError, setEventsError] = useState<string | null>(null);
+  const [selectionRange, setSelectionRange] = useState<CalendarSelection | null>(null);
+  const [dragSelection, setDragSelection] = useState<CalendarSelection | null>(null);
+  const [isDraggingSelection, setIsDraggingSelection] = useState(false);
+  const [showEventForm, setShowEventForm] = useState(false);
+  const [eventDraft, setEventDraft] = useState<ItineraryEventDraft>({
+    title: "",
+    description: "",
+    category: "general",
+    details: {},
+    startDate: "",
+    endDate: "",
+    startTime: "",
+    endTime: "",
+    startTimeZone: "",
+    endTimeZone: "",
+    travellerIds: [],
+    locationName: "",
+    locationAddress: "",
+    locationCoordinates: "",
+    repeat: "",
+    repeatInterval: "1",
+    repeatWeekdays: [],
+    repeatUntil: "",
+  });
+  const [eventFormError, setEventFormError] = useState<string | null>(null);
+  const [eventSaving, setEventSaving] = useState(false);
+  const [editingEventId, setEditingEventId] = useState<string | null>(null);
+  const [eventEditScope, setEventEditScope] = useState<RecurrenceEditScope>("this");
+  const [eventStatusMessage, setEventStatusMessage] = useState<string | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistory>({ itineraryId: null, past: [], future: [] });
+  const [eventFormPosition, setEventFormPosition] = useState<{ top: number; left: number } | null>(null);
+  const [eventFormPlacement, setEventFormPlacement] = useState<"left" | "right">("right");
+  const dragSelectionRef = useRef<{
+    anchorDate: string;
+    anchorMinutes: number;
+    currentDate: string;
+    currentMinutes: number;
+  } | null>(null);
+  const dayBodyRefs = useRef(new Map<string, HTMLDivElement>());
+  const eventFormRef = useRef<HTMLFormElement | null>(null);
+  const calendarGridRef = useRef<HTMLDivElement | null>(null);
+  const [eventDragState, setEventDragState] = useState<EventDragState | null>(null);
+  const [calendarTimeMode, setCalendarTimeMode] = useState<CalendarTimeMode>("trip");
+  const [calendarView, setCalendarView] = useState<CalendarView>(() =>
+    window.matchMedia(NARROW_SCREEN_QUERY).matches ? "agenda" : "grid"
+  );
+  // Empty shows every event; one id filters to that traveller; several lay them out side by side.
+  const [viewAsTravellerIds, setViewAsTravellerIds] = useState<string[]>([]);
+  const [travelMode, setTravelMode] = useState<TravelMode>("walking");
+  // Keyed by `getTravelLegKey`; null when the estimator had no answer.
+  const [travelEstimates, setTravelEstimates] = useState<Record<string, TravelEstimate | null>>({});
+  const requestedTravelLegsRef = useRef(new Set<string>());
+  const [travelSpeedsDraft, setTravelSpeedsDraft] = useState<Record<TravelMode, string> | null>(null);
+  const [travelSpeedsError, setTravelSpeedsError] = useState<string | null>(null);
+  // The one hour slot in the tab order; arrow keys move it around the grid.
+  const [focusedSlot, setFocusedSlot] = useState<{ date: string; hour: number } | null>(null);
+  const [calendarAnnouncement, setCalendarAnnouncement] = useState("");
+  // Set after a keyboard move is saved so focus can follow the block once the new times arrive.
+  const keyboardMovedEventIdRef = useRef<string | null>(null);
+  const [inviteDraft, setInviteDraft] = useState<{ email: string; role: ItineraryInviteRole }>({
+    email: "",
+    role: "editor",
+  });
+  const [sharingSaving, setSharingSaving] = useState(false);
+  const [sharingError, setSharingError] = useState<string | null>(null);
+  const lastPublishedShareRef = useRef<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importFileName, setImportFileName] = useState<string | null>(null);
+  const [importCandidates, setImportCandidates] = useState<IcsImportedEvent[]>([]);
+  const [importSelection, setImportSelection] = useState<Set<string>>(() => new Set());
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importSaving, setImportSaving] = useState(false);
+
+  useEffect(() => {
+    if (!statusMessage) {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      setStatusMessage(null);
+    }, 3000);
+
+    return () => window.clearTimeout(timeout);
+  }, [statusMessage]);
+
+
+  useEffect(() => {
+    if (!eventStatusMessage) {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      setEventStatusMessage(null);
+    }, 3000);
+
+    return () => window.clearTimeout(timeout);
+  }, [eventStatusMessage]);
+
+  useEffect(() => {
+    if (!itineraryId) {
+      setLoadError("Itinerary not found.");
+      setLoading(false);
+      return;
+    }
+
+    let unsubscribe: Unsubscribe | undefined;
+    let isActive = true;
+
+    setLoading(true);
+    setLoadError(null);
+    setFormError(null);
+
+    loadFirestoreModule()
+      .then(async ({ doc, onSnapshot }) => {
+        if (!isActive) {
+          return;
+        }
+
+        const firestore = await getFirestoreInstance();
+        const itineraryRef = doc(firestore, "itineraries", itineraryId);
+
+        unsubscribe = onSnapshot(
+          itineraryRef,
+          (snapshot) => {
+            if (!snapshot.exists()) {
+              setLoadError("Itinerary not found or may have been deleted.");
+              setItinerary(null);
+              setLoading(false);
+              return;
+            }
+
+            const normalized = normalizeItinerary(snapshot.id, snapshot.data());
+
+            if (!resolveItineraryRole(normalized, currentUser.uid)) {
+              setLoadError("You do not have access to this itinerary.");
+              setItinerary(null);
+              setLoading(false);
+              return;
+            }
+
+            setItinerary(normalized);
+            setDraft(toDraftFromItinerary(normalized));
+            setIsEditingSidebar(false);
+            setSelectionRange(null);
+            setDragSelection(null);
+            dragSelectionRef.current = null;
+            setIsDraggingSelection(false);
+            setShowEventForm(false);
+            setEventFormError(null);
+            setEventStatusMessage(null);
+            setEventDraft((prev) => ({
+              ...prev,
+              date: normalized.startDate ?? "",
+            }));
+            setLoadError(null);
+            setFormError(null);
+            setLoading(false);
+          },
+          (snapshotError) => {
+            setLoadError(deriveReadableError(snapshotError));
+            setItinerary(null);
+            setLoading(false);
+          }
+        );
+      })
+      .catch((loadError) => {
+        if (!isActive) {
+          return;
+        }
+
+        setLoadError(deriveReadableError(loadError));
+        setIsEditingSidebar(false);
+        setLoading(false);
+      });
+
+    return () => {
+      isActive = false;
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
+  }, [currentUser.uid, itineraryId]);
+
+  useEffect(() => {
+    if (!itineraryId || !itinerary) {
+      setEvents([]);
+      setEventsLoading(false);
+      setEventsError(null);
+      return;
+    }
+
+    let isActive = true;
+    let unsubscribe: Unsubscribe | undefined;
+
+    setEventsLoading(true);
+    setEventsError(null);
+
+    loadFirestoreModule()
+      .then(async ({ collection, onSnapshot }) => {
+        if (!isActive) {
+          return;
+        }
+
+        const firestore = await getFirestoreInstance();
+        const eventsCollection = collection(firestore, "itineraries", itineraryId, "events");
+
+        unsubscribe = onSnapshot(
+          eventsCollection,
+          (snapshot) => {
+            if (!isActive) {
+              return;
+            }
+
+            const next: ItineraryEvent[] = [];
+
+            snapshot.forEach((docSnapshot) => {
+              const normalizedEvent = normalizeItineraryEvent(docSnapshot.id, docSnapshot.data());
+              if (normalizedEvent) {
+                next.push(normalizedEvent);
+              }
+            });
+
+            next.sort((a, b) => a.startDateTime.localeCompare(b.startDateTime));
+            setEvents(next);
+            setEventsLoading(false);
+            setEventsError(null);
+          },
+          (eventsErrorValue) => {
+            if (!isActive) {
+              return;
+            }
+
+            setEvents([]);
+            setEventsLoading(false);
+            const readable = deriveReadableError(eventsErrorValue);
+            setEventsError(
+              typeof readable === "string"
+                ? readable
+                : "Unable to load itinerary events right now."
+            );
+          }
+        );
+      })
+      .catch((eventsLoadError) => {
+        if (!isActive) {
+          return;
+        }
+
+        setEvents([]);
+        setEventsLoading(false);
+        const readable = deriveReadableError(eventsLoadError);
+        setEventsError(
+          typeof readable === "string"
+            ? readable
+            : "Unable to load itinerary events right now."
+        );
+      });
+
+    return () => {
+      isActive = false;
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
+  }, [itineraryId, itinerary]);
+
+  // Watches snapshot metadata only, so the header can show whether local edits have reached the server.
+  useEffect(() => {
+    if (!itineraryId) {
+      return;
+    }
+
+    let isActive = true;
+    const unsubscribes: Unsubscribe[] = [];
+    let itineraryPending = false;
+    let eventsPending = false;
+    let expensesPending = false;
+    const report = () => {
+      if (isActive) {
+        onPendingWritesChange(itineraryPending || eventsPending || expensesPending);
+      }
+    };
+
+    Promise.all([loadFirestoreModule(), getFirestoreInstance()])
+      .then(([{ collection, doc, onSnapshot }, firestore]) => {
+        if (!isActive) {
+          return;
+        }
+
+        // Load errors are surfaced by the main listeners above.
+        unsubscribes.push(
+          onSnapshot(
+            doc(firestore, "itineraries", itineraryId),
+            { includeMetadataChanges: true },
+            (snapshot) => {
+              itineraryPending = snapshot.metadata.hasPendingWrites;
+              report();
+            },
+            () => undefined
+          ),
+          onSnapshot(
+            collection(firestore, "itineraries", itineraryId, "events"),
+            { includeMetadataChanges: true },
+            (snapshot) => {
+              eventsPending = snapshot.metadata.hasPendingWrites;
+              report();
+            },
+            () => undefined
+          ),
+          onSnapshot(
+            collection(firestore, "itineraries", itineraryId, "expenses"),
+            { includeMetadataChanges: true },
+            (snapshot) => {
+              expensesPending = snapshot.metadata.hasPendingWrites;
+              report();
+            },
+            () => undefined
+          )
+        );
+      })
+      .catch(() => undefined);
+
+    return () => {
+      isActive = false;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      onPendingWritesChange(false);
+    };
+  }, [itineraryId, onPendingWritesChange]);
+
+  const viewerRole = itinerary ? resolveItineraryRole(itinerary, currentUser.uid) : null;
+  const isItineraryOwner = viewerRole === "owner";
+  const canEditItinerary = viewerRole === "owner" || viewerRole === "editor";
+
+  const calendarDays = buildCalendarDays(draft.startDate || null, draft.endDate || null);
+  const totalCalendarMinutes = calendarDays.length * TOTAL_DAY_MINUTES;
+
+  const dayIndexMap = useMemo(() => buildDayIndexMap(calendarDays), [calendarDays]);
+
+  const deviceTimeZone = getDeviceTimeZone();
+  const tripEndDate = itinerary?.endDate ?? null;
+  const expandedEvents = useMemo(() => expandRecurringEvents(events, tripEndDate), [events, tripEndDate]);
+  const displayEvents = useMemo(
+    () => expandedEvents.map((entry) => toDisplayEvent(entry, calendarTimeMode, deviceTimeZone)),
+    [expandedEvents, calendarTimeMode, deviceTimeZone]
+  );
+
+  const travellerNames = new Map(
+    (itinerary?.travellers ?? []).map((traveller) => [traveller.id, traveller.name])
+  );
+  // Travellers removed since they were picked drop out of the view.
+  const viewAsIds = viewAsTravellerIds.filter((travellerId) => travellerNames.has(travellerId));
+  const itineraryWarnings = validateItinerary(
+    expandedEvents,
+    draft.startDate || null,
+    draft.endDate || null,
+    travellerNames
+  );
+  const warningsByEvent = new Map<string, ItineraryWarning[]>();
+  itineraryWarnings.forEach((warning) => {
+    warning.eventIds.forEach((eventId) => {
+      warningsByEvent.set(eventId, [...(warningsByEvent.get(eventId) ?? []), warning]);
+    });
+  });
+  // Appended to block labels so screen readers hear about warnings the badge shows visually.
+  const describeEventWarnings = (eventId: string): string => {
+    const count = warningsByEvent.get(eventId)?.length ?? 0;
+    return count ? `, ${count} ${count === 1 ? "warning" : "warnings"}` : "";
+  };
+  const calendarLanes: { key: string; travellerId: string | null; label: string | null }[] = viewAsIds.length
+    ? viewAsIds.map((travellerId) => ({ key: travellerId, travellerId, label: travellerNames.get(travellerId) ?? null }))
+    : [{ key: "everyone", travellerId: null, label: null }];
+
+  const startTravelSpeedsEdit = () => {
+    const speeds = itinerary?.travelSpeeds ?? DEFAULT_TRAVEL_SPEEDS;
+    setTravelSpeedsDraft({
+      walking: String(speeds.walking),
+      transit: String(speeds.transit),
+      driving: String(speeds.driving),
+    });
+    setTravelSpeedsError(null);
+  };
+
+  const handleTravelSpeedsSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!itineraryId || !travelSpeedsDraft) {
+      return;
+    }
+
+    const speeds = { ...DEFAULT_TRAVEL_SPEEDS };
+    for (const mode of TRAVEL_MODES) {
+      const speed = Number(travelSpeedsDraft[mode]);
+      if (!isValidTravelSpeed(speed)) {
+        setTravelSpeedsError(
+          `Enter the ${TRAVEL_MODE_LABELS[mode].toLowerCase()} speed in km/h, up to ${MAX_TRAVEL_SPEED}.`
+        );
+        return;
+      }
+
+      speeds[mode] = speed;
+    }
+
+    setTravelSpeedsError(null);
+
+    try {
+      const [{ doc, updateDoc }, firestore] = await Promise.all([loadFirestoreModule(), getFirestoreInstance()]);
+      queueWrite(updateDoc(doc(firestore, "itineraries", itineraryId), { travelSpeeds: speeds }), setEventStatusMessage);
+      setTravelSpeedsDraft(null);
+    } catch (submissionError) {
+      setTravelSpeedsError(deriveReadableError(submissionError));
+    }
+  };
+
+  const toggleViewAsTraveller = (travellerId: string) => {
+    setViewAsTravellerIds((previous) =>
+      previous.includes(travellerId)
+        ? previous.filter((entry) => entry !== travellerId)
+        : [...previous, travellerId]
+    );
+  };
+
+  // Keep the published copy in step with the live itinerary while someone who can edit has it open.
+  useEffect(() => {
+    if (!itinerary || !itinerary.shareToken || !canEditItinerary || eventsLoading) {
+      return;
+    }
+
+    const token = itinerary.shareToken;
+    const shareData = buildPublicShareData(itinerary, expandedEvents);
+    const publishedKey = `${token}:${JSON.stringify(shareData)}`;
+    if (lastPublishedShareRef.current === publishedKey) {
+      return;
+    }
+
+    lastPublishedShareRef.current = publishedKey;
+
+    Promise.all([loadFirestoreModule(), getFirestoreInstance()])
+      .then(([{ doc, serverTimestamp, setDoc }, firestore]) =>
+        setDoc(doc(firestore, "publicShares", token), {
+          ...shareData,
+          updatedAt: serverTimestamp(),
+        })
+      )
+      .catch((syncError) => {
+        lastPublishedShareRef.current = null;
+        setSharingError(deriveReadableError(syncError));
+      });
+  }, [itinerary, expandedEvents, eventsLoading, canEditItinerary]);
+
+  const normalizeSelection = (
+    anchorDate: string,
+    anchorMinutes: number,
+    targetDate: string,
+    targetMinutes: number
+  ): CalendarSelection => {
+    if (!calendarDays.length) {
+      return {
+        startDate: anchorDate,
+        startMinutes: clampMinutes(anchorMinutes),
+        endDate: targetDate,
+        endMinutes: clampMinutes(targetMinutes),
+      };
+    }
+
+    const anchorIndex = dayIndexMap.get(anchorDate) ?? 0;
+    const targetIndex = dayIndexMap.get(targetDate) ?? anchorIndex;
+
+    let anchorAbs = anchorIndex * TOTAL_DAY_MINUTES + clampMinutes(anchorMinutes);
+    let targetAbs = targetIndex * TOTAL_DAY_MINUTES + clampMinutes(targetMinutes);
+
+    let startAbs = Math.min(anchorAbs, targetAbs);
+    let endAbs = Math.max(anchorAbs, targetAbs);
+
+    const maxAbs = Math.max(totalCalendarMinutes - MIN_EVENT_DURATION, MIN_EVENT_DURATION);
+    startAbs = Math.max(0, Math.min(startAbs, maxAbs));
+    endAbs = Math.max(startAbs + MIN_EVENT_DURATION, Math.min(endAbs, totalCalendarMinutes));
+
+    const startDayIndex = Math.min(
+      Math.floor(startAbs / TOTAL_DAY_MINUTES),
+      Math.max(calendarDays.length - 1, 0)
+    );
+    const endDayIndex = Math.min(
+      Math.floor((endAbs - 1) / TOTAL_DAY_MINUTES),
+      Math.max(calendarDays.length - 1, 0)
+    );
+
+    const normalizedStartMinutes = clampMinutes(startAbs - startDayIndex * TOTAL_DAY_MINUTES);
+    let normalizedEndMinutes = endAbs - endDayIndex * TOTAL_DAY_MINUTES;
+    if (normalizedEndMinutes === 0) {
+      normalizedEndMinutes = TOTAL_DAY_MINUTES;
+    }
+
+    return {
+      startDate: calendarDays[startDayIndex]?.iso ?? anchorDate,
+      startMinutes: normalizedStartMinutes,
+      endDate: calendarDays[endDayIndex]?.iso ?? targetDate,
+      endMinutes: clampMinutes(normalizedEndMinutes),
+    };
+  };
+
+  const toAbsoluteMinutes = (date: string, minutes: number): number | null =>
+    toCalendarAbsoluteMinutes(dayIndexMap, date, minutes);
+
+  const applySharingUpdate = async (
+    buildPayload: (module: FirestoreModule, current: Itinerary) => Record<string, unknown>
+  ): Promise<boolean> => {
+    if (!itineraryId || !itinerary) {
+      setSharingError("Itinerary reference missing.");
+      return false;
+    }
+
+    setSharingSaving(true);
+    setSharingError(null);
+
+    try {
+      const [module, firestore] = await Promise.all([loadFirestoreModule(), getFirestoreInstance()]);
+      const itineraryRef = module.doc(firestore, "itineraries", itineraryId);
+      await module.updateDoc(itineraryRef, buildPayload(module, itinerary));
+      return true;
+    } catch (sharingUpdateError) {
+      setSharingError(deriveReadableError(sharingUpdateError));
+      return false;
+    } finally {
+      setSharingSaving(false);
+    }
+  };
+
+  const handleInviteSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const email = normalizeEmail(inviteDraft.email);
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setSharingError("Enter a valid email address.");
+      return;
+    }
+
+    if (
+      itinerary &&
+      (itinerary.invites[email] ||
+        Object.values(itinerary.members).some((member) => member.email === email))
+    ) {
+      setSharingError("That person already has access or a pending invite.");
+      return;
+    }
+
+    const saved = await applySharingUpdate(({ arrayUnion }, current) => ({
+      // Older itineraries predate the members map, so make sure the owner is recorded before sharing.
+      members: {
+        ...current.members,
+        [current.ownerUid]: current.members[current.ownerUid] ?? {
+          role: "owner",
+          email: currentUser.email ? normalizeEmail(currentUser.email) : null,
+        },
+      },
+      memberUids: arrayUnion(current.ownerUid),
+      invites: { ...current.invites, [email]: inviteDraft.role },
+      inviteEmails: arrayUnion(email),
+    }));
+
+    if (saved) {
+      setInviteDraft((previous) => ({ ...previous, email: "" }));
+      setStatusMessage(`Invited ${email}`);
+    }
+  };
+
+  const handleRevokeInvite = (email: string) =>
+    applySharingUpdate(({ arrayRemove }, current) => ({
+      invites: omitKey(current.invites, email),
+      inviteEmails: arrayRemove(email),
+    }));
+
+  const handleChangeMemberRole = (uid: string, role: ItineraryInviteRole) =>
+    applySharingUpdate((_module, current) => ({
+      members: {
+        ...current.members,
+        [uid]: { ...current.members[uid], role },
+      },
+    }));
+
+  const handleRemoveMember = (uid: string) =>
+    applySharingUpdate(({ arrayRemove }, current) => ({
+      members: omitKey(current.members, uid),
+      memberUids: arrayRemove(uid),
+    }));
+
+  const handleTogglePublicLink = async () => {
+    if (!itineraryId || !itinerary) {
+      setSharingError("Itinerary reference missing.");
+      return;
+    }
+
+    setSharingSaving(true);
+    setSharingError(null);
+
+    try {
+      const [{ doc, serverTimestamp, writeBatch }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
+
+      const itineraryRef = doc(firestore, "itineraries", itineraryId);
+      const batch = writeBatch(firestore);
+
+      if (itinerary.shareToken) {
+        batch.update(itineraryRef, { shareToken: null });
+        batch.delete(doc(firestore, "publicShares", itinerary.shareToken));
+        await batch.commit();
+        setStatusMessage("Public link revoked");
+        return;
+      }
+
+      const token = generateShareToken();
+      const shareData = buildPublicShareData(itinerary, expandedEvents);
+      batch.update(itineraryRef, { shareToken: token });
+      batch.set(doc(firestore, "publicShares", token), {
+        ...shareData,
+        updatedAt: serverTimestamp(),
+      });
+      await batch.commit();
+
+      lastPublishedShareRef.current = `${token}:${JSON.stringify(shareData)}`;
+      setStatusMessage("Public link published");
+    } catch (publishError) {
+      setSharingError(deriveReadableError(publishError));
+    } finally {
+      setSharingSaving(false);
+    }
+  };
+
+  const handleCopyShareLink = () => {
+    if (!itinerary?.shareToken) {
+      return;
+    }
+
+    navigator.clipboard
+      .writeText(buildShareUrl(itinerary.shareToken))
+      .then(() => setStatusMessage("Link copied"))
+      .catch((copyError) => setSharingError(deriveReadableError(copyError)));
+  };
+
+  const handleExportCalendar = () => {
+    if (!itinerary) {
+      return;
+    }
+
+    const calendar = buildIcsCalendar({
+      calendarName: itinerary.title,
+      timeZone: getDeviceTimeZone(),
+      events: expandedEvents,
+    });
+    downloadFile(calendar, "text/calendar;charset=utf-8", buildIcsFileName(itinerary.title));
+    setStatusMessage(expandedEvents.length ? "Calendar file downloaded" : "Calendar file downloaded (no events yet)");
+  };
+
+  // Steps recorded for a different itinerary are dropped rather than mixed into this one's history.
+  const undoStack = editHistory.itineraryId === itineraryId ? editHistory.past : [];
+  const redoStack = editHistory.itineraryId === itineraryId ? editHistory.future : [];
+
+  const recordHistory = (entry: HistoryEntry) => {
+    setEditHistory({
+      itineraryId: itineraryId ?? null,
+      past: [...undoStack, entry].slice(-HISTORY_LIMIT),
+      future: [],
+    });
+  };
+
+  // Writes one side of each change in a single batch: "redo" applies the changes and "undo" puts the old values
+  // back. Events are re-created under their old ids, owned by whoever restores them.
+  const writeHistoryChanges = async (changes: HistoryChange[], direction: "undo" | "redo") => {
+    if (!itineraryId) {
+      return;
+    }
+
+    const [{ doc, serverTimestamp, writeBatch }, firestore] = await Promise.all([
+      loadFirestoreModule(),
+      getFirestoreInstance(),
+    ]);
+
+    const batch = writeBatch(firestore);
+    changes.forEach((change) => {
+      if (change.kind === "itinerary") {
+        batch.update(doc(firestore, "itineraries", itineraryId), {
+          ...(direction === "undo" ? change.before : change.after),
+        });
+        return;
+      }
+
+      const eventRef = doc(firestore, "itineraries", itineraryId, "events", change.eventId);
+      const target = direction === "undo" ? change.before : change.after;
+      const current = direction === "undo" ? change.after : change.before;
+      if (!target) {
+        batch.delete(eventRef);
+      } else if (!current) {
+        batch.set(eventRef, { ...target, createdAt: serverTimestamp(), ownerUid: currentUser.uid });
+      } else {
+        batch.update(eventRef, { ...target });
+      }
+    });
+    queueWrite(batch.commit(), setEventStatusMessage);
+  };
+
+  const resetImportDialog = () => {
+    setImportFileName(null);
+    setImportCandidates([]);
+    setImportSelection(new Set());
+    setImportError(null);
+  };
+
+  const openImportDialog = () => {
+    resetImportDialog();
+    setIsImportOpen(true);
+  };
+
+  const closeImportDialog = () => {
+    if (importSaving) {
+      return;
+    }
+
+    setIsImportOpen(false);
+    resetImportDialog();
+  };
+
+  const isDuplicateImport = (candidate: IcsImportedEvent): boolean =>
+    expandedEvents.some(
+      (entry) =>
+        candidate.uid === `${entry.id}@travelio` ||
+        (entry.title === candidate.title &&
+          entry.startDateTime === candidate.startDateTime &&
+          entry.endDateTime === candidate.endDateTime)
+    );
+
+  const handleImportFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    resetImportDialog();
+
+    if (!file) {
+      return;
+    }
+
+    setImportFileName(file.name);
+
+    try {
+      const candidates = parseIcsEvents(await file.text(), {
+        timeZone: getDeviceTimeZone(),
+        rangeStartDate: draft.startDate,
+        rangeEndDate: draft.endDate,
+      });
+
+      setImportCandidates(candidates);
+      // Preselect events that do not clash with the existing plan.
+      setImportSelection(
+        new Set(
+          candidates
+            .filter((candidate) => !findOverlappingEvents(candidate, expandedEvents).length)
+            .map((candidate) => candidate.key)
+        )
+      );
+    } catch (parseError) {
+      setImportError(deriveReadableError(parseError));
+    }
+  };
+
+  const toggleImportCandidate = (key: string) => {
+    setImportSelection((previous) => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleImportSubmit = async () => {
+    if (!itineraryId) {
+      setImportError("Itinerary reference missing.");
+      return;
+    }
+
+    const selected = importCandidates.filter((candidate) => importSelection.has(candidate.key));
+    if (!selected.length) {
+      setImportError("Select at least one event to import.");
+      return;
+    }
+
+    if (selected.length > FIRESTORE_BATCH_LIMIT) {
+      setImportError(`Import at most ${FIRESTORE_BATCH_LIMIT} events at a time.`);
+      return;
+    }
+
+    setImportSaving(true);
+    setImportError(null);
+
+    try {
+      const [{ collection, doc, serverTimestamp, writeBatch }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
+
+      const eventsCollection = collection(firestore, "itineraries", itineraryId, "events");
+      const batch = writeBatch(firestore);
+      const changes: HistoryChange[] = selected.map((candidate) => {
+        const eventRef = doc(eventsCollection);
+        const eventFields: EventFields = {
+          title: candidate.title,
+          description: candidate.description,
+          category: "general",
+          details: {},
+          startDateTime: candidate.startDateTime,
+          endDateTime: candidate.endDateTime,
+          startTimeZone: candidate.startTimeZone,
+          endTimeZone: candidate.endTimeZone,
+          travellerIds: [],
+          location: null,
+          recurrence: null,
+        };
+        batch.set(eventRef, {
+          ...eventFields,
+          createdAt: serverTimestamp(),
+          ownerUid: currentUser.uid,
+        });
+        return { kind: "event", eventId: eventRef.id, before: null, after: eventFields };
+      });
+      queueWrite(batch.commit(), setEventStatusMessage);
+      recordHistory({
+        label: `Import ${selected.length} ${selected.length === 1 ? "event" : "events"}`,
+        changes,
+      });
+
+      setEventStatusMessage(`${selected.length} ${selected.length === 1 ? "event" : "events"} imported`);
+      setIsImportOpen(false);
+      resetImportDialog();
+    } catch (importWriteError) {
+      setImportError(deriveReadableError(importWriteError));
+    } finally {
+      setImportSaving(false);
+    }
+  };
+
+  const handleDetailSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!itineraryId) {
+      setFormError("Itinerary reference missing.");
+      return;
+    }
+
+    const trimmedTitle = draft.title.trim();
+
+    if (!trimmedTitle) {
+      setFormError("Itinerary name is required.");
+      return;
+    }
+
+    const normalizedStart = normalizeDateInput(draft.startDate);
+    const normalizedEnd = normalizeDateInput(draft.endDate);
+
+    if (!normalizedStart || !normalizedEnd) {
+      setFormError("Please provide both start and end dates.");
+      return;
+    }
+
+    if (new Date(normalizedStart) > new Date(normalizedEnd)) {
+      setFormError("Trip end date should be after the start date.");
+      return;
+    }
+
+    const travellers = draft.travellers.map((traveller) => ({
+      ...traveller,
+      name: traveller.name.trim(),
+      dietaryNotes: traveller.dietaryNotes.trim(),
+      accessibilityNotes: traveller.accessibilityNotes.trim(),
+    }));
+
+    if (travellers.some((traveller) => !traveller.name)) {
+      setFormError("Every traveller needs a name.");
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    setStatusMessage(null);
+
+    try {
+      const [{ doc, updateDoc }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
+
+      const itineraryRef = doc(firestore, "itineraries", itineraryId);
+      const detailFields: ItineraryDetailFields = {
+        title: trimmedTitle,
+        startDate: normalizedStart,
+        endDate: normalizedEnd,
+        travellers,
+      };
+      queueWrite(updateDoc(itineraryRef, detailFields), setFormError);
+      if (itinerary) {
+        recordHistory({
+          label: "Edit trip details",
+          changes: [
+            {
+              kind: "itinerary",
+              before: {
+                title: itinerary.title,
+                startDate: itinerary.startDate,
+                endDate: itinerary.endDate,
+                travellers: itinerary.travellers,
+              },
+              after: detailFields,
+            },
+          ],
+        });
+      }
+
+      setStatusMessage("Itinerary updated");
+      setIsEditingSidebar(false);
+    } catch (updateError) {
+      setFormError(deriveReadableError(updateError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startSidebarEdit = () => {
+    if (!itinerary) {
+      return;
+    }
+
+    setDraft(toDraftFromItinerary(itinerary));
+    setFormError(null);
+    setStatusMessage(null);
+    setIsEditingSidebar(true);
+  };
+
+  const cancelSidebarEdit = () => {
+    if (!itinerary) {
+      return;
+    }
+
+    setDraft(toDraftFromItinerary(itinerary));
+    setFormError(null);
+    setStatusMessage(null);
+    setIsEditingSidebar(false);
+  };
+
+  const getDefaultEventDate = () => normalizeDateInput(draft.startDate) ?? normalizeDateInput(draft.endDate) ?? "";
+
+  const resetEventDraft = () => {
+    setEventDraft({
+      title: "",
+      description: "",
+      category: "general",
+      details: {},
+      startDate: getDefaultEventDate(),
+      endDate: getDefaultEventDate(),
+      startTime: "",
+      endTime: "",
+      startTimeZone: "",
+      endTimeZone: "",
+      travellerIds: [],
+      locationName: "",
+      locationAddress: "",
+      locationCoordinates: "",
+      repeat: "",
+      repeatInterval: "1",
+      repeatWeekdays: [],
+      repeatUntil: "",
+    });
+  };
+
+  const cancelEventCreation = (force = false) => {
+    if (eventSaving && !force) {
+      return;
+    }
+
+    setSelectionRange(null);
+    setDragSelection(null);
+    dragSelectionRef.current = null;
+    setIsDraggingSelection(false);
+    setShowEventForm(false);
+    setEditingEventId(null);
+    setEventFormError(null);
+    setEventFormPosition(null);
+    setEventFormPlacement("right");
+    resetEventDraft();
+  };
+
+  const openEventComposer = (range: CalendarSelection) => {
+    setSelectionRange(range);
+    setEventFormPosition(null);
+    setEventFormPlacement("right");
+    setDragSelection(null);
+    dragSelectionRef.current = null;
+    setIsDraggingSelection(false);
+    setEventFormError(null);
+    setEventStatusMessage(null);
+    setEditingEventId(null);
+    setShowEventForm(true);
+
+    const safeEndMinutes = range.endMinutes >= TOTAL_DAY_MINUTES ? TOTAL_DAY_MINUTES - 1 : range.endMinutes;
+    const startTime = formatMinutesToTime(range.startMinutes);
+    const defaultTimeZone =
+      calendarTimeMode === "device"
+        ? deviceTimeZone
+        : inferTimeZoneAt(events, formatMinutesToIsoLocal(range.startDate, range.startMinutes), deviceTimeZone);
+
+    setEventDraft((previous) => ({
+      title: previous.title,
+      description: previous.description,
+      category: previous.category,
+      details: previous.details,
+      startDate: range.startDate,
+      endDate: range.endDate,
+      startTime,
+      endTime: formatMinutesToTime(safeEndMinutes),
+      startTimeZone: defaultTimeZone,
+      endTimeZone: defaultTimeZone,
+      // New events made while viewing one traveller's day are for that traveller.
+      travellerIds:
+        previous.travellerIds.length || calendarLanes.length !== 1 || !calendarLanes[0].travellerId
+          ? previous.travellerIds
+          : [calendarLanes[0].travellerId],
+      locationName: previous.locationName,
+      locationAddress: previous.locationAddress,
+      locationCoordinates: previous.locationCoordinates,
+      repeat: previous.repeat,
+      repeatInterval: previous.repeatInterval,
+      repeatWeekdays: previous.repeatWeekdays,
+      repeatUntil: previous.repeatUntil,
+    }));
+  };
+
+  const openEventEditor = (calendarEvent: ItineraryEvent) => {
+    // The form always edits the stored wall clocks; the highlighted selection follows what the calendar shows.
+    const storedEvent = expandedEvents.find((entry) => entry.id === calendarEvent.id) ?? calendarEvent;
+    const displayedEvent = toDisplayEvent(storedEvent, calendarTimeMode, deviceTimeZone);
+    const parsedStart = parseIsoLocalDateTime(storedEvent.startDateTime);
+    const parsedEnd = parseIsoLocalDateTime(storedEvent.endDateTime);
+    const displayedStart = parseIsoLocalDateTime(displayedEvent.startDateTime);
+    const displayedEnd = parseIsoLocalDateTime(displayedEvent.endDateTime);
+
+    if (!parsedStart || !parsedEnd || !displayedStart || !displayedEnd) {
+      return;
+    }
+
+    openEventComposer(
+      normalizeSelection(
+        displayedStart.date,
+        displayedStart.hours * 60 + displayedStart.minutes,
+        displayedEnd.date,
+        displayedEnd.hours * 60 + displayedEnd.minutes
+      )
+    );
+    setEditingEventId(storedEvent.id);
+    setEventEditScope("this");
+    const { recurrence } = storedEvent;
+    const locationPoint = getLocationPoint(storedEvent.location);
+    setEventDraft({
+      title: storedEvent.title,
+      description: storedEvent.description ?? "",
+      category: storedEvent.category,
+      details: { ...storedEvent.details },
+      startDate: parsedStart.date,
+      endDate: parsedEnd.date,
+      startTime: formatMinutesToTime(parsedStart.hours * 60 + parsedStart.minutes),
+      endTime: formatMinutesToTime(parsedEnd.hours * 60 + parsedEnd.minutes),
+      startTimeZone: storedEvent.startTimeZone ?? "",
+      endTimeZone: storedEvent.endTimeZone ?? "",
+      travellerIds: storedEvent.travellerIds,
+      locationName: storedEvent.location?.name ?? "",
+      locationAddress: storedEvent.location?.address ?? "",
+      locationCoordinates: locationPoint ? formatCoordinates(locationPoint) : "",
+      repeat: recurrence?.frequency ?? "",
+      repeatInterval: String(recurrence?.interval ?? 1),
+      repeatWeekdays: recurrence?.weekdays ?? [],
+      repeatUntil: recurrence?.until?.slice(0, 10) ?? "",
+    });
+  };
+
+  const beginSlotSelection = (date: string, hour: number) => {
+    if (!canEditItinerary) {
+      return;
+    }
+
+    const startMinutes = clampMinutes(hour * 60);
+    const initialEndMinutes = clampMinutes(startMinutes + 60);
+
+    dragSelectionRef.current = {
+      anchorDate: date,
+      anchorMinutes: startMinutes,
+      currentDate: date,
+      currentMinutes: initialEndMinutes,
+    };
+
+    setDragSelection(normalizeSelection(date, startMinutes, date, initialEndMinutes));
+    setIsDraggingSelection(true);
+    setSelectionRange(null);
+    setShowEventForm(false);
+    setEditingEventId(null);
+    setEventFormError(null);
+    setEventStatusMessage(null);
+  };
+
+  const extendSlotSelection = (date: string, hour: number) => {
+    if (!isDraggingSelection || !dragSelectionRef.current) {
+      return;
+    }
+
+    const { anchorDate, anchorMinutes } = dragSelectionRef.current;
+    const anchorAbs = toAbsoluteMinutes(anchorDate, anchorMinutes);
+    const targetStart = clampMinutes(hour * 60);
+    const targetStartAbs = toAbsoluteMinutes(date, targetStart);
+
+    if (anchorAbs === null || targetStartAbs === null) {
+      return;
+    }
+
+    const movingForward = targetStartAbs >= anchorAbs;
+    const currentMinutes = movingForward
+      ? clampMinutes((hour + 1) * 60)
+      : targetStart;
+
+    dragSelectionRef.current = {
+      anchorDate,
+      anchorMinutes,
+      currentDate: date,
+      currentMinutes,
+    };
+
+    setDragSelection(normalizeSelection(anchorDate, anchorMinutes, date, currentMinutes));
+  };
+
+  const finalizeSlotSelection = (commit: boolean) => {
+    const anchor = dragSelectionRef.current;
+    dragSelectionRef.current = null;
+    setIsDraggingSelection(false);
+    setDragSelection(null);
+
+    if (!commit || !anchor) {
+      return;
+    }
+
+    const selection = normalizeSelection(
+      anchor.anchorDate,
+      anchor.anchorMinutes,
+      anchor.currentDate,
+      anchor.currentMinutes
+    );
+
+    openEventComposer(selection);
+  };
+
+  useEffect(() => {
+    if (!isDraggingSelection) {
+      return;
+    }
+
+    const commit = () => finalizeSlotSelection(true);
+    const cancel = () => finalizeSlotSelection(false);
+
+    window.addEventListener("pointerup", commit);
+    window.addEventListener("pointercancel", cancel);
+    window.addEventListener("mouseup", commit);
+    window.addEventListener("touchend", commit);
+    window.addEventListener("touchcancel", cancel);
+
+    return () => {
+      window.removeEventListener("pointerup", commit);
+      window.removeEventListener("pointercancel", cancel);
+      window.removeEventListener("mouseup", commit);
+      window.removeEventListener("touchend", commit);
+      window.removeEventListener("touchcancel", cancel);
+    };
+  }, [isDraggingSelection]);
+
+  const resolvePointerAbsoluteMinutes = (clientX: number, clientY: number): number | null => {
+    let closestIndex = -1;
+    let closestRect: DOMRect | null = null;
+    let closestDistance = Number.POSITIVE_INFINITY;
+
+    for (const [index, day] of calendarDays.entries()) {
+      const container = dayBodyRefs.current.get(day.iso);
+      if (!container) {
+        continue;
+      }
+
+      const rect = container.getBoundingClientRect();
+      const distance =
+        clientX < rect.left ? rect.left - clientX : clientX > rect.right ? clientX - rect.right : 0;
+
+      if (distance < closestDistance) {
+        closestIndex = index;
+        closestRect = rect;
+        closestDistance = distance;
+      }
+    }
+
+    if (!closestRect) {
+      return null;
+    }
+
+    const pointerMinutes = clampMinutes(
+      roundToSelectionStep(((clientY - closestRect.top) / CALENDAR_SLOT_HEIGHT_PX) * 60)
+    );
+
+    return closestIndex * TOTAL_DAY_MINUTES + pointerMinutes;
+  };
+
+  const fromAbsoluteMinutes = (absolute: number, boundary: "start" | "end"): string | null => {
+    let dayIndex = Math.floor(absolute / TOTAL_DAY_MINUTES);
+    let minutes = absolute - dayIndex * TOTAL_DAY_MINUTES;
+
+    // Events are stored with a 23:59 end rather than 24:00, matching the event form.
+    if (boundary === "end" && minutes === 0 && dayIndex > 0) {
+      dayIndex -= 1;
+      minutes = TOTAL_DAY_MINUTES;
+    }
+
+    const day = calendarDays[dayIndex];
+    if (!day) {
+      return null;
+    }
+
+    return formatMinutesToIsoLocal(day.iso, Math.min(minutes, TOTAL_DAY_MINUTES - 1));
+  };
+
+  const startEventDrag = (
+    calendarEvent: ItineraryEvent,
+    mode: EventDragState["mode"],
+    reactEvent: ReactPointerEvent<HTMLElement>
+  ) => {
+    reactEvent.preventDefault();
+    reactEvent.stopPropagation();
+
+    if (reactEvent.button !== undefined && reactEvent.button !== 0) {
+      return;
+    }
+
+    // Viewers can still open an event to read it, they just cannot move or resize it.
+    if (!canEditItinerary) {
+      if (mode === "move") {
+        openEventEditor(calendarEvent);
+      }
+      return;
+    }
+
+    const parsedStart = parseIsoLocalDateTime(calendarEvent.startDateTime);
+    const parsedEnd = parseIsoLocalDateTime(calendarEvent.endDateTime);
+    if (!parsedStart || !parsedEnd) {
+      return;
+    }
+
+    const startAbs = toAbsoluteMinutes(parsedStart.date, parsedStart.hours * 60 + parsedStart.minutes);
+    const endAbs = toAbsoluteMinutes(parsedEnd.date, parsedEnd.hours * 60 + parsedEnd.minutes);
+    if (startAbs === null || endAbs === null) {
+      return;
+    }
+
+    const clientX = getPointerClientX(reactEvent.nativeEvent);
+    const clientY = getPointerClientY(reactEvent.nativeEvent);
+
+    const previewStart = startAbs;
+    const previewEnd = Math.max(endAbs, previewStart + MIN_EVENT_DURATION);
+
+    let anchorOffset: number | undefined;
+    if (mode === "move" && clientX !== null && clientY !== null) {
+      const pointerAbs = resolvePointerAbsoluteMinutes(clientX, clientY);
+      if (pointerAbs !== null) {
+        anchorOffset = pointerAbs - previewStart;
+      }
+    }
+
+    setEventDragState({
+      eventId: calendarEvent.id,
+      mode,
+      source: "pointer",
+      originalStart: previewStart,
+      originalEnd: previewEnd,
+      previewStart,
+      previewEnd,
+      anchorOffset,
+    });
+
+    dragSelectionRef.current = null;
+    setDragSelection(null);
+    setIsDraggingSelection(false);
+  };
+
+  const updateEventDragPreview = (clientX: number, clientY: number) => {
+    const pointerAbs = resolvePointerAbsoluteMinutes(clientX, clientY);
+    if (pointerAbs === null) {
+      return;
+    }
+
+    setEventDragState((previous) => {
+      if (!previous) {
+        return previous;
+      }
+
+      if (previous.mode === "move") {
+        const duration = previous.originalEnd - previous.originalStart;
+        const anchor = previous.anchorOffset ?? 0;
+        const latestStart = Math.max(totalCalendarMinutes - duration, 0);
+        const start = Math.max(0, Math.min(pointerAbs - anchor, latestStart));
+
+        return {
+          ...previous,
+          previewStart: start,
+          previewEnd: start + duration,
+        };
+      }
+
+      if (previous.mode === "resize-start") {
+        return {
+          ...previous,
+          previewStart: Math.max(0, Math.min(pointerAbs, previous.previewEnd - MIN_EVENT_DURATION)),
+        };
+      }
+
+      return {
+        ...previous,
+        previewEnd: Math.min(
+          Math.max(pointerAbs, previous.previewStart + MIN_EVENT_DURATION),
+          totalCalendarMinutes
+        ),
+      };
+    });
+  };
+
+  const announceRange = (prefix: string, startAbs: number, endAbs: number) => {
+    const startIso = fromAbsoluteMinutes(startAbs, "start");
+    const endIso = fromAbsoluteMinutes(endAbs, "end");
+    if (startIso && endIso) {
+      setCalendarAnnouncement(`${prefix}${formatRangeAnnouncement(startIso, endIso)}`);
+    }
+  };
+
+  // Arrow keys move an event by a selection step, or by a day sideways; Shift+Up/Down moves its end instead.
+  const handleEventKeyDown = (calendarEvent: ItineraryEvent, reactEvent: ReactKeyboardEvent<HTMLElement>) => {
+    if (reactEvent.key === "Enter" || reactEvent.key === " ") {
+      reactEvent.preventDefault();
+      openEventEditor(calendarEvent);
+      return;
+    }
+
+    const vertical = { ArrowUp: -SELECTION_STEP_MINUTES, ArrowDown: SELECTION_STEP_MINUTES }[reactEvent.key];
+    const horizontal = { ArrowLeft: -TOTAL_DAY_MINUTES, ArrowRight: TOTAL_DAY_MINUTES }[reactEvent.key];
+    const delta = vertical ?? (reactEvent.shiftKey ? undefined : horizontal);
+    if (!canEditItinerary || delta === undefined) {
+      return;
+    }
+
+    reactEvent.preventDefault();
+
+    let current = eventDragState?.eventId === calendarEvent.id ? eventDragState : null;
+    if (!current) {
+      const parsedStart = parseIsoLocalDateTime(calendarEvent.startDateTime);
+      const parsedEnd = parseIsoLocalDateTime(calendarEvent.endDateTime);
+      const startAbs = parsedStart && toAbsoluteMinutes(parsedStart.date, parsedStart.hours * 60 + parsedStart.minutes);
+      const endAbs = parsedEnd && toAbsoluteMinutes(parsedEnd.date, parsedEnd.hours * 60 + parsedEnd.minutes);
+      if (startAbs === null || endAbs === null) {
+        return;
+      }
+
+      const originalEnd = Math.max(endAbs, startAbs + MIN_EVENT_DURATION);
+      current = {
+        eventId: calendarEvent.id,
+        mode: "move",
+        source: "keyboard",
+        originalStart: startAbs,
+        originalEnd,
+        previewStart: startAbs,
+        previewEnd: originalEnd,
+      };
+    }
+
+    let { previewStart, previewEnd } = current;
+    if (reactEvent.shiftKey) {
+      previewEnd = Math.min(Math.max(previewEnd + delta, previewStart + MIN_EVENT_DURATION), totalCalendarMinutes);
+    } else {
+      const duration = previewEnd - previewStart;
+      previewStart = Math.max(0, Math.min(previewStart + delta, Math.max(totalCalendarMinutes - duration, 0)));
+      previewEnd = previewStart + duration;
+    }
+
+    setEventDragState({
+      ...current,
+      mode: reactEvent.shiftKey ? "resize-end" : "move",
+      previewStart,
+      previewEnd,
+    });
+    announceRange(`${calendarEvent.title}: `, previewStart, previewEnd);
+  };
+
+  const focusSlot = (date: string, hour: number) => {
+    setFocusedSlot({ date, hour });
+    calendarGridRef.current?.querySelector<HTMLElement>(`[data-slot="${date}T${hour}"]`)?.focus();
+  };
+
+  // Arrow keys move between hours and days. Shift+Up/Down grows or shrinks a selection from the focused hour by
+  // selection steps, and Enter opens the event form for it.
+  const handleSlotKeyDown = (date: string, hour: number, reactEvent: ReactKeyboardEvent<HTMLElement>) => {
+    const { key, shiftKey } = reactEvent;
+
+    if (key === "Enter" || key === " ") {
+      if (canEditItinerary) {
+        reactEvent.preventDefault();
+        openEventComposer(
+          dragSelection ?? normalizeSelection(date, clampMinutes(hour * 60), date, clampMinutes((hour + 1) * 60))
+        );
+      }
+      return;
+    }
+
+    if (key === "Escape" && dragSelection) {
+      setDragSelection(null);
+      setCalendarAnnouncement("Selection cleared");
+      return;
+    }
+
+    if (shiftKey && (key === "ArrowUp" || key === "ArrowDown")) {
+      const selection = dragSelection ?? normalizeSelection(date, hour * 60, date, (hour + 1) * 60);
+      const startAbs = toAbsoluteMinutes(selection.startDate, selection.startMinutes);
+      const endAbs = toAbsoluteMinutes(selection.endDate, selection.endMinutes);
+      if (!canEditItinerary || startAbs === null || endAbs === null) {
+        return;
+      }
+
+      reactEvent.preventDefault();
+      const step = key === "ArrowUp" ? -SELECTION_STEP_MINUTES : SELECTION_STEP_MINUTES;
+      const nextEndAbs = Math.min(Math.max(endAbs + step, startAbs + MIN_EVENT_DURATION), totalCalendarMinutes);
+      const endDayIndex = Math.min(Math.floor((nextEndAbs - 1) / TOTAL_DAY_MINUTES), calendarDays.length - 1);
+      const nextSelection = normalizeSelection(
+        selection.startDate,
+        selection.startMinutes,
+        calendarDays[endDayIndex].iso,
+        nextEndAbs - endDayIndex * TOTAL_DAY_MINUTES
+      );
+      setDragSelection(nextSelection);
+      announceRange("Selected ", startAbs, nextEndAbs);
+      return;
+    }
+
+    const dayIndex = dayIndexMap.get(date) ?? 0;
+    const target =
+      key === "ArrowUp"
+        ? { dayIndex, hour: hour - 1 }
+        : key === "ArrowDown"
+          ? { dayIndex, hour: hour + 1 }
+          : key === "ArrowLeft"
+            ? { dayIndex: dayIndex - 1, hour }
+            : key === "ArrowRight"
+              ? { dayIndex: dayIndex + 1, hour }
+              : null;
+    if (!target) {
+      return;
+    }
+
+    reactEvent.preventDefault();
+    const targetDay = calendarDays[target.dayIndex];
+    if (targetDay && target.hour >= 0 && target.hour < HOUR_MARKERS.length) {
+      setDragSelection(null);
+      focusSlot(targetDay.iso, target.hour);
+    }
+  };
+
+  const finalizeEventDrag = (commit: boolean) => {
+    const current = eventDragState;
+    setEventDragState(null);
+
+    if (!commit || !current || !itineraryId) {
+      return;
+    }
+
+    if (
+      current.previewStart === current.originalStart &&
+      current.previewEnd === current.originalEnd
+    ) {
+      // A press without any movement is a click: open the event for editing.
+      if (current.mode === "move" && current.source === "pointer") {
+        const clickedEvent = expandedEvents.find((entry) => entry.id === current.eventId);
+        if (clickedEvent) {
+          openEventEditor(clickedEvent);
+        }
+      }
+      return;
+    }
+
+    const draggedEvent = expandedEvents.find((entry) => entry.id === current.eventId);
+    if (!draggedEvent) {
+      return;
+    }
+
+    // The drag happened on the displayed clock, so apply it to the stored times as elapsed minutes.
+    const nextStartIso = shiftIsoLocal(
+      draggedEvent.startDateTime,
+      draggedEvent.startTimeZone,
+      current.previewStart - current.originalStart
+    );
+    const shiftedEndIso = shiftIsoLocal(
+      draggedEvent.endDateTime,
+      draggedEvent.endTimeZone,
+      current.previewEnd - current.originalEnd
+    );
+
+    if (!nextStartIso || !shiftedEndIso) {
+      return;
+    }
+
+    // Events are stored with a 23:59 end rather than 24:00, matching the event form.
+    const nextEndIso = shiftedEndIso.endsWith("T00:00")
+      ? shiftIsoLocal(shiftedEndIso, null, -1) ?? shiftedEndIso
+      : shiftedEndIso;
+
+    if (current.source === "keyboard") {
+      keyboardMovedEventIdRef.current = current.eventId;
+    }
+
+    const label = `${current.mode === "move" ? "Move" : "Resize"} “${draggedEvent.title}”`;
+    const series = draggedEvent.occurrence
+      ? events.find((entry) => entry.id === draggedEvent.occurrence?.seriesId)
+      : undefined;
+    if (series) {
+      // Dragging one occurrence moves just that one, as an exception to the series. Only the times change, so
+      // the edit never splits off a new event and needs no id for one.
+      const changes = planOccurrenceEdit(
+        series,
+        draggedEvent,
+        "this",
+        { ...toEventFields(draggedEvent), startDateTime: nextStartIso, endDateTime: nextEndIso },
+        ""
+      );
+      writeHistoryChanges(changes, "redo")
+        .then(() => {
+          recordHistory({ label, changes });
+          setEventStatusMessage("Event updated");
+        })
+        .catch((error) => {
+          setEventStatusMessage(deriveReadableError(error));
+        });
+      return;
+    }
+
+    Promise.all([loadFirestoreModule(), getFirestoreInstance()])
+      .then(([module, firestore]) => {
+        const { doc, updateDoc } = module;
+        const eventRef = doc(firestore, "itineraries", itineraryId, "events", current.eventId);
+
+        // The move shows up through the local snapshot immediately and reconciles once back online.
+        queueWrite(
+          updateDoc(eventRef, {
+            startDateTime: nextStartIso,
+            endDateTime: nextEndIso,
+          }),
+          setEventStatusMessage
+        );
+        const before = toEventFields(draggedEvent);
+        recordHistory({
+          label,
+          changes: [
+            {
+              kind: "event",
+              eventId: draggedEvent.id,
+              before,
+              after: { ...before, startDateTime: nextStartIso, endDateTime: nextEndIso },
+            },
+          ],
+        });
+        setEventStatusMessage("Event updated");
+      })
+      .catch((error) => {
+        setEventStatusMessage(deriveReadableError(error));
+      });
+  };
+
+  useEffect(() => {
+    if (!eventDragState) {
+      return;
+    }
+
+    if (eventDragState.source === "keyboard") {
+      // Moving to another day re-creates the block, so keep focus on it for the next key press.
+      const block = calendarGridRef.current?.querySelector<HTMLElement>(`[data-event-id="${eventDragState.eventId}"]`);
+      if (block && document.activeElement !== block) {
+        block.focus();
+      }
+
+      const handleKeyUp = (nativeEvent: KeyboardEvent) => {
+        if (nativeEvent.key.startsWith("Arrow")) {
+          finalizeEventDrag(true);
+        }
+      };
+
+      window.addEventListener("keyup", handleKeyUp);
+      return () => {
+        window.removeEventListener("keyup", handleKeyUp);
+      };
+    }
+
+    const handlePointerMove = (nativeEvent: PointerEvent) => {
+      const x = getPointerClientX(nativeEvent);
+      const y = getPointerClientY(nativeEvent);
+      if (x !== null && y !== null) {
+        updateEventDragPreview(x, y);
+      }
+    };
+
+    const handleMouseMove = (nativeEvent: MouseEvent) => {
+      const x = getPointerClientX(nativeEvent);
+      const y = getPointerClientY(nativeEvent);
+      if (x !== null && y !== null) {
+        updateEventDragPreview(x, y);
+      }
+    };
+
+    const handleTouchMove = (nativeEvent: TouchEvent) => {
+      const x = getPointerClientX(nativeEvent);
+      const y = getPointerClientY(nativeEvent);
+      if (x !== null && y !== null) {
+        nativeEvent.preventDefault();
+        updateEventDragPreview(x, y);
+      }
+    };
+
+    const commit = () => finalizeEventDrag(true);
+    const cancel = () => finalizeEventDrag(false);
+
+    window.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerup", commit);
+    window.addEventListener("pointercancel", cancel);
+    window.addEventListener("mousemove", handleMouseMove);
     window.addEventListener("mouseup", commit);
+    window.addEventListener("touchmove", handleTouchMove, { passive: false });
     window.addEventListener("touchend", commit);
     window.addEventListener("touchcancel", cancel);
 
-    return () => {
-      window.removeEventListener("pointerup", commit);
-      window.removeEventListener("pointercancel", cancel);
-      window.removeEventListener("mouseup", commit);
-      window.removeEventListener("touchend", commit);
-      window.removeEventListener("touchcancel", cancel);
-    };
-  }, [isDraggingSelection]);
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", commit);
+      window.removeEventListener("pointercancel", cancel);
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", commit);
+      window.removeEventListener("touchmove", handleTouchMove);
+      window.removeEventListener("touchend", commit);
+      window.removeEventListener("touchcancel", cancel);
+    };
+  }, [eventDragState]);
+
+  useEffect(() => {
+    const eventId = keyboardMovedEventIdRef.current;
+    if (!eventId) {
+      return;
+    }
+
+    keyboardMovedEventIdRef.current = null;
+    calendarGridRef.current?.querySelector<HTMLElement>(`[data-event-id="${eventId}"]`)?.focus();
+  }, [events]);
+
+  const handleEventSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!itineraryId) {
+      setEventFormError("Itinerary reference missing.");
+      return;
+    }
+
+    const trimmedTitle = eventDraft.title.trim();
+    if (!trimmedTitle) {
+      setEventFormError("Event title is required.");
+      return;
+    }
+
+    const normalizedStartDate = normalizeDateInput(eventDraft.startDate);
+    const normalizedEndDate = normalizeDateInput(eventDraft.endDate);
+
+    if (!normalizedStartDate || !normalizedEndDate) {
+      setEventFormError("Please provide both start and end dates.");
+      return;
+    }
+
+    const isoStart = combineDateWithTime(normalizedStartDate, eventDraft.startTime);
+    const isoEnd = combineDateWithTime(normalizedEndDate, eventDraft.endTime);
+
+    if (!isoStart || !isoEnd) {
+      setEventFormError("Provide valid start and end times.");
+      return;
+    }
+
+    const startTimeZone = eventDraft.startTimeZone || null;
+    const endTimeZone = startTimeZone ? eventDraft.endTimeZone || startTimeZone : null;
+    const instantRange = getEventInstantRange({ startDateTime: isoStart, endDateTime: isoEnd, startTimeZone, endTimeZone });
+
+    if (!instantRange || instantRange.start >= instantRange.end) {
+      setEventFormError(
+        startTimeZone !== endTimeZone
+          ? "End time should come after the start time once time zones are taken into account."
+          : "End time should come after the start time."
+      );
+      return;
+    }
+
+    if (draft.startDate && normalizedStartDate < draft.startDate) {
+      setEventFormError("Event should fall within the trip date range.");
+      return;
+    }
+
+    if (draft.endDate && normalizedEndDate > draft.endDate) {
+      setEventFormError("Event should fall within the trip date range.");
+      return;
+    }
+
+    const repeatInterval = Number(eventDraft.repeatInterval);
+    if (eventDraft.repeat && eventDraft.repeat !== "weekly" && (!Number.isInteger(repeatInterval) || repeatInterval < 1)) {
+      setEventFormError("Repeat every should be a whole number of at least 1.");
+      return;
+    }
+
+    if (eventDraft.repeat === "weekly" && !eventDraft.repeatWeekdays.length) {
+      setEventFormError("Pick at least one day of the week to repeat on.");
+      return;
+    }
+
+    const repeatUntil = normalizeDateInput(eventDraft.repeatUntil);
+    if (eventDraft.repeat && repeatUntil && repeatUntil < normalizedStartDate) {
+      setEventFormError("The repeat end date should not be before the event starts.");
+      return;
+    }
+
+    const locationPoint = parseCoordinates(eventDraft.locationCoordinates);
+    if (eventDraft.locationCoordinates.trim() && !locationPoint) {
+      setEventFormError("Coordinates should be a latitude and longitude, such as 48.8584, 2.2945, or a map link.");
+      return;
+    }
+
+    const locationName = eventDraft.locationName.trim();
+    const locationAddress = eventDraft.locationAddress.trim();
+    const location: EventLocation | null =
+      locationName || locationAddress || locationPoint
+        ? {
+            name: locationName,
+            address: locationAddress,
+            lat: locationPoint?.lat ?? null,
+            lng: locationPoint?.lng ?? null,
+          }
+        : null;
+    const recurrence: EventRecurrence | null = eventDraft.repeat
+      ? {
+          frequency: eventDraft.repeat,
+          interval: eventDraft.repeat === "weekly" ? 1 : repeatInterval,
+          weekdays: eventDraft.repeat === "weekly" ? [...eventDraft.repeatWeekdays].sort() : [],
+          until: repeatUntil ? `${repeatUntil}T23:59` : null,
+          exceptions: {},
+        }
+      : null;
+    const descriptionValue = eventDraft.description.trim();
+    const detailsValue = coerceEventDetails(eventDraft.category, eventDraft.details);
+
+    setEventSaving(true);
+    setEventFormError(null);
+    setEventStatusMessage(null);
+
+    try {
+      const [{ collection, doc, serverTimestamp, setDoc, updateDoc }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
+
+      const eventFields: EventFields = {
+        title: trimmedTitle,
+        description: descriptionValue ? descriptionValue : null,
+        category: eventDraft.category,
+        details: detailsValue,
+        startDateTime: isoStart,
+        endDateTime: isoEnd,
+        startTimeZone,
+        endTimeZone,
+        // Drop assignments to travellers who have since been removed from the trip.
+        travellerIds: eventDraft.travellerIds.filter((travellerId) =>
+          itinerary?.travellers.some((traveller) => traveller.id === travellerId)
+        ),
+        location,
+        recurrence,
+      };
+
+      const editedEvent = expandedEvents.find((entry) => entry.id === editingEventId);
+      const series = editedEvent?.occurrence
+        ? events.find((entry) => entry.id === editedEvent.occurrence?.seriesId)
+        : undefined;
+      if (editedEvent && series) {
+        const changes = planOccurrenceEdit(
+          series,
+          editedEvent,
+          eventEditScope,
+          eventFields,
+          doc(collection(firestore, "itineraries", itineraryId, "events")).id
+        );
+        await writeHistoryChanges(changes, "redo");
+        recordHistory({ label: `Edit “${trimmedTitle}”`, changes });
+
+        setEventStatusMessage("Event updated");
+        cancelEventCreation(true);
+        return;
+      }
+
+      if (editingEventId) {
+        const eventRef = doc(firestore, "itineraries", itineraryId, "events", editingEventId);
+        queueWrite(updateDoc(eventRef, eventFields), setEventStatusMessage);
+        if (editedEvent) {
+          recordHistory({
+            label: `Edit “${trimmedTitle}”`,
+            changes: [{ kind: "event", eventId: editingEventId, before: toEventFields(editedEvent), after: eventFields }],
+          });
+        }
+
+        setEventStatusMessage("Event updated");
+        cancelEventCreation(true);
+        return;
+      }
+
+      // The id is picked up front so that undoing the creation can delete this exact event.
+      const eventRef = doc(collection(firestore, "itineraries", itineraryId, "events"));
+      queueWrite(
+        setDoc(eventRef, {
+          ...eventFields,
+          createdAt: serverTimestamp(),
+          ownerUid: currentUser.uid,
+        }),
+        setEventStatusMessage
+      );
+      recordHistory({
+        label: `Add “${trimmedTitle}”`,
+        changes: [{ kind: "event", eventId: eventRef.id, before: null, after: eventFields }],
+      });
+
+      setEventStatusMessage("Event created");
+      cancelEventCreation(true);
+    } catch (submissionError) {
+      setEventFormError(deriveReadableError(submissionError));
+    } finally {
+      setEventSaving(false);
+    }
+  };
+
+  const handleEventDelete = async () => {
+    if (!itineraryId || !editingEventId) {
+      return;
+    }
+
+    setEventSaving(true);
+    setEventFormError(null);
+    setEventStatusMessage(null);
+
+    try {
+      const deletedEvent = expandedEvents.find((entry) => entry.id === editingEventId);
+      const series = deletedEvent?.occurrence
+        ? events.find((entry) => entry.id === deletedEvent.occurrence?.seriesId)
+        : undefined;
+      if (deletedEvent && series) {
+        // Deleting never splits off a new event, so no id is needed for one.
+        const changes = planOccurrenceEdit(series, deletedEvent, eventEditScope, null, "");
+        await writeHistoryChanges(changes, "redo");
+        recordHistory({ label: `Delete “${deletedEvent.title}”`, changes });
+
+        setEventStatusMessage("Event deleted");
+        cancelEventCreation(true);
+        return;
+      }
+
+      const [{ deleteDoc, doc }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
+
+      queueWrite(deleteDoc(doc(firestore, "itineraries", itineraryId, "events", editingEventId)), setEventStatusMessage);
+      if (deletedEvent) {
+        recordHistory({
+          label: `Delete “${deletedEvent.title}”`,
+          changes: [{ kind: "event", eventId: editingEventId, before: toEventFields(deletedEvent), after: null }],
+        });
+      }
+
+      setEventStatusMessage("Event deleted");
+      cancelEventCreation(true);
+    } catch (deleteError) {
+      setEventFormError(deriveReadableError(deleteError));
+    } finally {
+      setEventSaving(false);
+    }
+  };
+
+  const applyHistoryEntry = async (entry: HistoryEntry, direction: "undo" | "redo") => {
+    if (!itineraryId) {
+      return;
+    }
+
+    cancelEventCreation(true);
+    setIsEditingSidebar(false);
+
+    try {
+      await writeHistoryChanges(entry.changes, direction);
+
+      setEditHistory({
+        itineraryId,
+        past: direction === "undo" ? undoStack.slice(0, -1) : [...undoStack, entry],
+        future: direction === "undo" ? [entry, ...redoStack] : redoStack.slice(1),
+      });
+      setEventStatusMessage(`${direction === "undo" ? "Undone" : "Redone"}: ${entry.label}`);
+    } catch (historyError) {
+      setEventStatusMessage(deriveReadableError(historyError));
+    }
+  };
+
+  const handleUndo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (entry && canEditItinerary) {
+      void applyHistoryEntry(entry, "undo");
+    }
+  };
+
+  const handleRedo = () => {
+    const entry = redoStack[0];
+    if (entry && canEditItinerary) {
+      void applyHistoryEntry(entry, "redo");
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (nativeEvent: KeyboardEvent) => {
+      if (!(nativeEvent.ctrlKey || nativeEvent.metaKey) || isTextEntryTarget(nativeEvent.target)) {
+        return;
+      }
+
+      const key = nativeEvent.key.toLowerCase();
+      if (key === "z" && !nativeEvent.shiftKey) {
+        nativeEvent.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && nativeEvent.shiftKey) || key === "y") {
+        nativeEvent.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  });
+
+  const sharingMembers: [string, ItineraryMember][] = itinerary
+    ? [
+        ...(itinerary.members[itinerary.ownerUid]
+          ? []
+          : [
+              [
+                itinerary.ownerUid,
+                {
+                  role: "owner",
+                  email: itinerary.ownerUid === currentUser.uid ? currentUser.email : null,
+                },
+              ] as [string, ItineraryMember],
+            ]),
+        ...Object.entries(itinerary.members),
+      ].sort(
+        ([, first], [, second]) =>
+          Number(second.role === "owner") - Number(first.role === "owner")
+      )
+    : [];
+
+  const formattedDateRange = formatDateRange(draft.startDate || null, draft.endDate || null);
+  const summaryBreakdown = summarizeTravellerAgeBands(draft.travellers);
+  // Printed and PDF agendas always use each event's own local times, whatever the calendar shows.
+  const printableAgenda: PrintableAgendaData | null = itinerary
+    ? {
+        title: draft.title.trim() || itinerary.title,
+        dateRange: formattedDateRange,
+        travellers: draft.travellers,
+        travellerNames,
+        days: buildAgendaDays(draft.startDate || null, draft.endDate || null, expandedEvents),
+      }
+    : null;
+
+  const handleDownloadPdf = () => {
+    if (!printableAgenda) {
+      return;
+    }
+
+    const pdf = buildPdfDocument({ title: printableAgenda.title, blocks: buildAgendaPdfBlocks(printableAgenda) });
+    downloadFile(pdf, "application/pdf", buildPdfFileName(printableAgenda.title));
+    setStatusMessage("PDF downloaded");
+  };
+
+  const updateTravellerDraft = (travellerId: string, changes: Partial<Traveller>) => {
+    setDraft((prev) => ({
+      ...prev,
+      travellers: prev.travellers.map((traveller) =>
+        traveller.id === travellerId ? { ...traveller, ...changes } : traveller
+      ),
+    }));
+  };
+  const shouldShowCalendar = calendarDays.length > 0;
+  const shouldShowScrollHint = calendarDays.length > 7;
+  const calendarRangeLabel = shouldShowCalendar
+    ? `Trip calendar covering ${formattedDateRange}`
+    : undefined;
+
+  const eventFormDisabled = eventSaving || !canEditItinerary;
+
+  const floatingFormStyle: CSSProperties = eventFormPosition
+    ? {
+        top: `${eventFormPosition.top}px`,
+        left: `${eventFormPosition.left}px`,
+        opacity: 1,
+        pointerEvents: "auto",
+      }
+    : {
+        top: "0px",
+        left: "0px",
+        opacity: 0,
+        pointerEvents: "none",
+      };
+
+
+  const registerDayBodyRef = (date: string) => (element: HTMLDivElement | null) => {
+    if (element) {
+      dayBodyRefs.current.set(date, element);
+    } else {
+      dayBodyRefs.current.delete(date);
+    }
+  };
+
+  const updateEventFormPosition = useCallback(
+    (range: CalendarSelection, dimensions?: { width: number; height: number }) => {
+      const gridElement = calendarGridRef.current;
+      if (!gridElement) {
+        return;
+      }
+
+      const startDayElement = dayBodyRefs.current.get(range.startDate);
+      if (!startDayElement) {
+        setEventFormPosition(null);
+        return;
+      }
+
+      const formWidth = dimensions?.width ?? CALENDAR_FORM_WIDTH_PX;
+      const formHeight = dimensions?.height ?? CALENDAR_FORM_HEIGHT_PX;
+
+      const gridRect = gridElement.getBoundingClientRect();
+      const dayBodyRect = startDayElement.getBoundingClientRect();
+
+      const selectionStartOffset =
+        dayBodyRect.top - gridRect.top + (range.startMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
+      const selectionEndOffset =
+        dayBodyRect.top - gridRect.top + (range.endMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
+      const selectionCenter = (selectionStartOffset + selectionEndOffset) / 2;
+
+      const maxTop = Math.max(
+        gridElement.scrollHeight - formHeight - CALENDAR_FORM_GUTTER_PX,
+        CALENDAR_FORM_GUTTER_PX
+      );
+      let top = selectionCenter - formHeight / 2;
+      if (!Number.isFinite(top)) {
+        top = 0;
+      }
+      top = Math.max(CALENDAR_FORM_GUTTER_PX, Math.min(top, maxTop));
+
+      const offsetLeft = dayBodyRect.left - gridRect.left;
+      const preferredLeft = offsetLeft + startDayElement.clientWidth + CALENDAR_FORM_GUTTER_PX;
+      const maxLeft = Math.max(
+        gridElement.scrollWidth - formWidth - CALENDAR_FORM_GUTTER_PX,
+        CALENDAR_FORM_GUTTER_PX
+      );
+      let left = Math.max(CALENDAR_FORM_GUTTER_PX, Math.min(preferredLeft, maxLeft));
+      let placement: "left" | "right" = "right";
+
+      if (preferredLeft > maxLeft && offsetLeft > formWidth + CALENDAR_FORM_GUTTER_PX) {
+        left = Math.max(CALENDAR_FORM_GUTTER_PX, offsetLeft - formWidth - CALENDAR_FORM_GUTTER_PX);
+        placement = "left";
+      }
+
+      setEventFormPlacement(placement);
+      setEventFormPosition((previous) => {
+        if (previous && Math.abs(previous.top - top) < 0.5 && Math.abs(previous.left - left) < 0.5) {
+          return previous;
+        }
+
+        return { top, left };
+      });
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (!showEventForm || !selectionRange) {
+      return;
+    }
+
+    const update = () => {
+      const width = eventFormRef.current?.offsetWidth ?? CALENDAR_FORM_WIDTH_PX;
+      const height = eventFormRef.current?.offsetHeight ?? CALENDAR_FORM_HEIGHT_PX;
+      updateEventFormPosition(selectionRange, { width, height });
+    };
+
+    update();
+
+    window.addEventListener("resize", update);
+    return () => {
+      window.removeEventListener("resize", update);
+    };
+  }, [showEventForm, selectionRange, updateEventFormPosition, calendarDays]);
+
+  useEffect(() => {
+    if (!showEventForm) {
+      setEventFormPosition(null);
+      setEventFormPlacement("right");
+    }
+  }, [showEventForm]);
+
+  // The agenda can be much longer than the screen, so bring the inline form to the day it opened under.
+  useEffect(() => {
+    if (showEventForm && calendarView === "agenda") {
+      eventFormRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    }
+  }, [showEventForm, calendarView, selectionRange]);
+
+  const draggedEventStartIso = eventDragState
+    ? fromAbsoluteMinutes(eventDragState.previewStart, "start")
+    : null;
+  const draggedEventEndIso = eventDragState
+    ? fromAbsoluteMinutes(eventDragState.previewEnd, "end")
+    : null;
+  // While dragging, the dragged event is rendered at its preview position so it can span or change days.
+  const calendarEvents =
+    eventDragState && draggedEventStartIso && draggedEventEndIso
+      ? displayEvents.map((entry) =>
+          entry.id === eventDragState.eventId
+            ? { ...entry, startDateTime: draggedEventStartIso, endDateTime: draggedEventEndIso }
+            : entry
+        )
+      : displayEvents;
+
+  // The agenda and timeline have no lanes, so viewing as several travellers shows everything any of them are doing.
+  const viewAsEvents = viewAsIds.length
+    ? displayEvents.filter((entry) =>
+        viewAsIds.some((travellerId) => isEventForTraveller(entry, travellerId, travellerNames))
+      )
+    : displayEvents;
+  const timeline =
+    calendarView === "timeline" && calendarDays.length
+      ? layoutTimelineBars(viewAsEvents, calendarDays[0].iso, totalCalendarMinutes)
+      : null;
+
+  const getLaneEvents = (travellerId: string | null) =>
+    travellerId
+      ? calendarEvents.filter((entry) => isEventForTraveller(entry, travellerId, travellerNames))
+      : calendarEvents;
+  const hasLocatedEvents = expandedEvents.some((entry) => getLocationPoint(entry.location));
+  // Every snapshot brings a new speeds object, so the estimator is only rebuilt when a speed itself changes.
+  const { walking, transit, driving } = itinerary?.travelSpeeds ?? DEFAULT_TRAVEL_SPEEDS;
+  const travelSpeeds = useMemo(() => ({ walking, transit, driving }), [walking, transit, driving]);
+  const travelEstimator = useMemo(
+    () => createTravelEstimator(travelSpeeds),
+    [createTravelEstimator, travelSpeeds]
+  );
+  // Keyed by day, and by lane as well on the grid. Hidden while dragging, when the dragged event is mid-move.
+  const travelGaps = new Map<string, TravelGap[]>();
+  if (hasLocatedEvents && !eventDragState && calendarView !== "timeline") {
+    const eventsById = new Map(expandedEvents.map((entry) => [entry.id, entry]));
+    const travellerIds = viewAsIds.length ? viewAsIds : travellerNames.size ? [...travellerNames.keys()] : [null];
+    calendarDays.forEach((day) => {
+      if (calendarView === "agenda") {
+        const segments = buildDaySegments(viewAsEvents, day.iso, dayIndexMap);
+        travelGaps.set(day.iso, findTravelGaps(segments, travellerIds, travellerNames, eventsById));
+        return;
+      }
+
+      calendarLanes.forEach((lane) => {
+        const segments = buildDaySegments(getLaneEvents(lane.travellerId), day.iso, dayIndexMap);
+        travelGaps.set(
+          `${day.iso}:${lane.key}`,
+          findTravelGaps(segments, lane.travellerId ? [lane.travellerId] : travellerIds, travellerNames, eventsById)
+        );
+      });
+    });
+  }
+  const getTravelEstimate = (gap: TravelGap) => travelEstimates[getTravelLegKey(gap, travelMode, travelSpeeds)];
+  // The legs on screen, as a string so the effect below only runs when they change rather than on every render.
+  const travelLegs = JSON.stringify(
+    Object.fromEntries(
+      [...travelGaps.values()]
+        .flat()
+        .map((gap): [string, TravelLeg] => [
+          getTravelLegKey(gap, travelMode, travelSpeeds),
+          { from: gap.from, to: gap.to, mode: travelMode },
+        ])
+    )
+  );
+
+  // Asks for each leg once; answers arrive in any order and are kept for when the same leg shows up again.
+  useEffect(() => {
+    Object.entries(JSON.parse(travelLegs) as Record<string, TravelLeg>).forEach(([key, leg]) => {
+      if (requestedTravelLegsRef.current.has(key)) {
+        return;
+      }
+
+      requestedTravelLegsRef.current.add(key);
+      travelEstimator.estimate(leg).then(
+        (estimate) => setTravelEstimates((previous) => ({ ...previous, [key]: estimate })),
+        () => setTravelEstimates((previous) => ({ ...previous, [key]: null }))
+      );
+    });
+  }, [travelEstimator, travelLegs]);
+  // The form sits under the day its selection starts on, or the first day when that is outside the trip.
+  const agendaFormDate =
+    selectionRange && dayIndexMap.has(selectionRange.startDate) ? selectionRange.startDate : calendarDays[0]?.iso;
+
+  // Falls back to the morning of the first day, or of today when it is part of the trip.
+  const tabbableSlot =
+    focusedSlot && dayIndexMap.has(focusedSlot.date)
+      ? focusedSlot
+      : {
+          date: (calendarDays.find((day) => day.isToday) ?? calendarDays[0])?.iso ?? "",
+          hour: DEFAULT_EVENT_START_HOUR,
+        };
+
+  const deriveDayCoverage = (selection: CalendarSelection | null, date: string) => {
+    if (!selection) {
+      return null;
+    }
+
+    const selectionStartAbs = toAbsoluteMinutes(selection.startDate, selection.startMinutes);
+    const selectionEndAbs = toAbsoluteMinutes(selection.endDate, selection.endMinutes);
+    const dayStartAbs = toAbsoluteMinutes(date, 0);
+    const dayEndAbs = toAbsoluteMinutes(date, TOTAL_DAY_MINUTES);
+
+    if (
+      selectionStartAbs === null ||
+      selectionEndAbs === null ||
+      dayStartAbs === null ||
+      dayEndAbs === null ||
+      selectionEndAbs <= dayStartAbs ||
+      selectionStartAbs >= dayEndAbs
+    ) {
+      return null;
+    }
+
+    const start = Math.max(selectionStartAbs, dayStartAbs);
+    const end = Math.min(selectionEndAbs, dayEndAbs);
+
+    return {
+      startMinutes: start - dayStartAbs,
+      endMinutes: end - dayStartAbs,
+    };
+  };
+
+  // Rule of the series when the form is editing one occurrence of a repeating event.
+  const editedRecurrence =
+    expandedEvents.find((entry) => entry.id === editingEventId && entry.occurrence)?.recurrence ?? null;
+
+  const draftLocationPoint = parseCoordinates(eventDraft.locationCoordinates);
+
+  // Floats beside the selection in the grid and sits inline in the agenda.
+  const eventForm = showEventForm && itinerary ? (
+    <form
+      ref={eventFormRef}
+      className={`calendar-event-form ${
+        calendarView === "grid" ? "calendar-event-form--floating" : "calendar-event-form--inline"
+      }`}
+      data-placement={calendarView === "grid" ? eventFormPlacement : undefined}
+      style={calendarView === "grid" ? floatingFormStyle : undefined}
+      onSubmit={handleEventSubmit}
+      aria-label={editingEventId ? "Edit event" : "New event"}
+    >
+      <div className="calendar-event-grid">
+        <label className="field">
+          <span>Type</span>
+          <select
+            value={eventDraft.category}
+            onChange={(event) => {
+              const category = event.target.value as EventCategory;
+              setEventDraft((previous) => ({
+                ...previous,
+                category,
+                // Carry over fields that share a name, e.g. an address from lodging to a meal.
+                details: coerceEventDetails(category, previous.details),
+              }));
+            }}
+            disabled={eventFormDisabled}
+          >
+            {EVENT_CATEGORIES.map((category) => (
+              <option key={category} value={category}>
+                {EVENT_CATEGORY_CONFIG[category].icon} {EVENT_CATEGORY_CONFIG[category].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>Title</span>
+          <input
+            type="text"
+            value={eventDraft.title}
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                title: event.target.value,
+              }))
+            }
+            required
+            disabled={eventFormDisabled}
+          />
+        </label>
+        <label className="field">
+          <span>Start date</span>
+          <input
+            type="date"
+            value={eventDraft.startDate}
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                startDate: event.target.value,
+                endDate:
+                  previous.endDate && previous.endDate < event.target.value
+                    ? event.target.value
+                    : previous.endDate,
+              }))
+            }
+            required
+            disabled={eventFormDisabled}
+            min={draft.startDate || undefined}
+            max={draft.endDate || undefined}
+          />
+        </label>
+        <label className="field">
+          <span>Start time</span>
+          <input
+            type="time"
+            value={eventDraft.startTime}
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                startTime: event.target.value,
+              }))
+            }
+            required
+            disabled={eventFormDisabled}
+            step={900}
+          />
+        </label>
+        <label className="field">
+          <span>Start time zone</span>
+          <select
+            value={eventDraft.startTimeZone}
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                startTimeZone: event.target.value,
+                // Keep single-zone events in step; travel legs keep their own arrival zone.
+                endTimeZone:
+                  previous.endTimeZone === previous.startTimeZone
+                    ? event.target.value
+                    : previous.endTimeZone,
+              }))
+            }
+            disabled={eventFormDisabled}
+          >
+            <option value="">No time zone</option>
+            {listTimeZoneOptions().map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span>End date</span>
+          <input
+            type="date"
+            value={eventDraft.endDate}
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                endDate: event.target.value,
+              }))
+            }
+            required
+            disabled={eventFormDisabled}
+            min={eventDraft.startDate || draft.startDate || undefined}
+            max={draft.endDate || undefined}
+          />
+        </label>
+        <label className="field">
+          <span>End time</span>
+          <input
+            type="time"
+            value={eventDraft.endTime}
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                endTime: event.target.value,
+              }))
+            }
+            required
+            disabled={eventFormDisabled}
+            step={900}
+          />
+        </label>
+        <label className="field">
+          <span>End time zone</span>
+          <select
+            value={eventDraft.startTimeZone ? eventDraft.endTimeZone : ""}
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                endTimeZone: event.target.value,
+              }))
+            }
+            disabled={eventFormDisabled || !eventDraft.startTimeZone}
+          >
+            {eventDraft.startTimeZone ? null : <option value="">No time zone</option>}
+            {listTimeZoneOptions().map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset className="calendar-event-grid calendar-event-details calendar-event-location">
+        <legend>Location (optional)</legend>
+        <label className="field">
+          <span>Place</span>
+          <input
+            type="text"
+            value={eventDraft.locationName}
+            placeholder="Eiffel Tower"
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                locationName: event.target.value,
+              }))
+            }
+            disabled={eventFormDisabled}
+          />
+        </label>
+        <label className="field">
+          <span>Address</span>
+          <input
+            type="text"
+            value={eventDraft.locationAddress}
+            placeholder="Champ de Mars, Paris"
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                locationAddress: event.target.value,
+              }))
+            }
+            disabled={eventFormDisabled}
+          />
+        </label>
+        <label className="field">
+          <span>Coordinates or map link</span>
+          <input
+            type="text"
+            inputMode="url"
+            value={eventDraft.locationCoordinates}
+            placeholder="48.8584, 2.2945"
+            onChange={(event) =>
+              setEventDraft((previous) => ({
+                ...previous,
+                locationCoordinates: event.target.value,
+              }))
+            }
+            disabled={eventFormDisabled}
+          />
+        </label>
+        {draftLocationPoint ? (
+          <p className="form-note">Pinned at {formatCoordinates(draftLocationPoint)}.</p>
+        ) : eventDraft.locationCoordinates.trim() ? (
+          <p className="form-note">
+            Paste a latitude and longitude, or a link from Google Maps, Apple Maps or OpenStreetMap.
+          </p>
+        ) : null}
+      </fieldset>
+
+      {/* A single occurrence keeps its series' rule; changing the rule applies to following or all occurrences. */}
+      {!editedRecurrence || eventEditScope !== "this" ? (
+        <fieldset className="calendar-event-grid calendar-event-details calendar-event-repeat">
+          <legend>Repeat</legend>
+          <label className="field">
+            <span>Repeats</span>
+            <select
+              value={eventDraft.repeat}
+              onChange={(event) => {
+                const { value } = event.target;
+                setEventDraft((previous) => ({
+                  ...previous,
+                  repeat: isRecurrenceFrequency(value) ? value : "",
+                  // Weekly events start out on the weekday of the event itself.
+                  repeatWeekdays:
+                    previous.repeatWeekdays.length || !previous.startDate
+                      ? previous.repeatWeekdays
+                      : [getWeekday(previous.startDate)],
+                }));
+              }}
+              disabled={eventFormDisabled}
+            >
+              <option value="">Does not repeat</option>
+              {RECURRENCE_FREQUENCIES.map((frequency) => (
+                <option key={frequency} value={frequency}>
+                  {RECURRENCE_FREQUENCY_LABELS[frequency]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {eventDraft.repeat === "daily" || eventDraft.repeat === "hourly" ? (
+            <label className="field">
+              <span>{eventDraft.repeat === "daily" ? "Every how many days" : "Every how many hours"}</span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={eventDraft.repeatInterval}
+                onChange={(event) =>
+                  setEventDraft((previous) => ({
+                    ...previous,
+                    repeatInterval: event.target.value,
+                  }))
+                }
+                required
+                disabled={eventFormDisabled}
+              />
+            </label>
+          ) : null}
+          {eventDraft.repeat === "weekly" ? (
+            <div className="calendar-event-weekdays" role="group" aria-label="Repeat on">
+              {WEEKDAYS.map((weekday) => (
+                <label key={weekday} className="toggle-field">
+                  <input
+                    type="checkbox"
+                    checked={eventDraft.repeatWeekdays.includes(weekday)}
+                    onChange={(event) =>
+                      setEventDraft((previous) => ({
+                        ...previous,
+                        repeatWeekdays: event.target.checked
+                          ? [...previous.repeatWeekdays, weekday]
+                          : previous.repeatWeekdays.filter((entry) => entry !== weekday),
+                      }))
+                    }
+                    disabled={eventFormDisabled}
+                  />
+                  <span>{formatWeekdayLabel(weekday)}</span>
+                </label>
+              ))}
+            </div>
+          ) : null}
+          {eventDraft.repeat ? (
+            <label className="field">
+              <span>Until (optional)</span>
+              <input
+                type="date"
+                value={eventDraft.repeatUntil}
+                onChange={(event) =>
+                  setEventDraft((previous) => ({
+                    ...previous,
+                    repeatUntil: event.target.value,
+                  }))
+                }
+                disabled={eventFormDisabled}
+                min={eventDraft.startDate || undefined}
+                max={draft.endDate || undefined}
+              />
+            </label>
+          ) : null}
+          {eventDraft.repeat && !eventDraft.repeatUntil ? (
+            <p className="form-note">Repeats until the end of the trip.</p>
+          ) : null}
+        </fieldset>
+      ) : null}
+
+      {EVENT_CATEGORY_CONFIG[eventDraft.category].fields.length ? (
+        <fieldset className="calendar-event-grid calendar-event-details">
+          <legend>{EVENT_CATEGORY_CONFIG[eventDraft.category].label} details</legend>
+          {EVENT_CATEGORY_CONFIG[eventDraft.category].fields.map((field) => (
+            <label key={field.key} className="field">
+              <span>{field.label}</span>
+              <input
+                type="text"
+                value={eventDraft.details[field.key] ?? ""}
+                placeholder={field.placeholder}
+                onChange={(event) =>
+                  setEventDraft((previous) => ({
+                    ...previous,
+                    details: { ...previous.details, [field.key]: event.target.value },
+                  }))
+                }
+                disabled={eventFormDisabled}
+              />
+            </label>
+          ))}
+        </fieldset>
+      ) : null}
+
+      {itinerary.travellers.length > 1 ? (
+        <fieldset className="calendar-event-travellers-field">
+          <legend>Who's going</legend>
+          {itinerary.travellers.map((traveller) => (
+            <label key={traveller.id} className="toggle-field">
+              <input
+                type="checkbox"
+                checked={eventDraft.travellerIds.includes(traveller.id)}
+                onChange={(event) =>
+                  setEventDraft((previous) => ({
+                    ...previous,
+                    travellerIds: event.target.checked
+                      ? [...previous.travellerIds, traveller.id]
+                      : previous.travellerIds.filter((entry) => entry !== traveller.id),
+                  }))
+                }
+                disabled={eventFormDisabled}
+              />
+              <span>{traveller.name}</span>
+            </label>
+          ))}
+          <p className="form-note">Leave everyone unticked if the whole group is going.</p>
+        </fieldset>
+      ) : null}
+
+      <label className="field">
+        <span>Notes (optional)</span>
+        <textarea
+          value={eventDraft.description}
+          onChange={(event) =>
+            setEventDraft((previous) => ({
+              ...previous,
+              description: event.target.value,
+            }))
+          }
+          disabled={eventFormDisabled}
+        />
+      </label>
+
+      {editedRecurrence ? (
+        <fieldset className="calendar-event-travellers-field calendar-event-scope">
+          <legend>{canEditItinerary ? "Apply changes to" : "Repeats"}</legend>
+          {canEditItinerary
+            ? (Object.keys(RECURRENCE_EDIT_SCOPE_LABELS) as RecurrenceEditScope[]).map((scope) => (
+                <label key={scope} className="toggle-field">
+                  <input
+                    type="radio"
+                    name="event-edit-scope"
+                    value={scope}
+                    checked={eventEditScope === scope}
+                    onChange={() => setEventEditScope(scope)}
+                    disabled={eventSaving}
+                  />
+                  <span>{RECURRENCE_EDIT_SCOPE_LABELS[scope]}</span>
+                </label>
+              ))
+            : null}
+          <p className="form-note">{describeRecurrence(editedRecurrence)}.</p>
+        </fieldset>
+      ) : null}
+
+      {eventFormError ? (
+        <p className="error" role="alert">
+          {eventFormError}
+        </p>
+      ) : null}
+
+      <div className="calendar-event-actions">
+        {canEditItinerary ? (
+          <button className="primary" type="submit" disabled={eventSaving}>
+            {eventSaving ? "Saving..." : editingEventId ? "Save changes" : "Save event"}
+          </button>
+        ) : null}
+        <button
+          className="secondary"
+          type="button"
+          onClick={() => cancelEventCreation()}
+          disabled={eventSaving}
+        >
+          {canEditItinerary ? "Cancel" : "Close"}
+        </button>
+        {editingEventId && canEditItinerary ? (
+          <button
+            className="secondary secondary--danger"
+            type="button"
+            onClick={handleEventDelete}
+            disabled={eventSaving}
+          >
+            Delete event
+          </button>
+        ) : null}
+      </div>
+    </form>
+  ) : null;
+
+  return (
+    <section className="card itinerary-builder" aria-live="polite">
+      {loading ? (
+        <p className="muted">Loading itinerary...</p>
+      ) : loadError ? (
+        <div className="builder-state">
+          <p className="error" role="alert">
+            {loadError}
+          </p>
+          <button className="secondary" type="button" onClick={() => navigate("/")}>
+            Back to itineraries
+          </button>
+        </div>
+      ) : itinerary ? (
+        <>
+          <header className="builder-header">
+            <div>
+              <h2>{draft.title.trim() || itinerary.title}</h2>
+              <p className="muted">
+                {formattedDateRange} · {formatTravellerCount(draft.travellers.length)}
+              </p>
+            </div>
+            <div className="builder-header-actions">
+              <button className="secondary" type="button" onClick={() => navigate("/")}>
+                Back to itineraries
+              </button>
+              {canEditItinerary ? (
+                <div className="history-actions" role="group" aria-label="Edit history">
+                  <button
+                    className="secondary"
+                    type="button"
+                    onClick={handleUndo}
+                    disabled={!undoStack.length}
+                    title={
+                      undoStack.length ? `Undo: ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : "Nothing to undo"
+                    }
+                  >
+                    Undo
+                  </button>
+                  <button
+                    className="secondary"
+                    type="button"
+                    onClick={handleRedo}
+                    disabled={!redoStack.length}
+                    title={redoStack.length ? `Redo: ${redoStack[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                  >
+                    Redo
+                  </button>
+                </div>
+              ) : null}
+              <button
+                className="secondary"
+                type="button"
+                onClick={handleExportCalendar}
+                disabled={eventsLoading}
+                title="Download an .ics file for Google, Apple or Outlook calendars"
+              >
+                Export to calendar
+              </button>
+              <button
+                className="secondary"
+                type="button"
+                onClick={() => window.print()}
+                disabled={eventsLoading}
+                title="Print a day-by-day agenda"
+              >
+                Print
+              </button>
+              <button className="secondary" type="button" onClick={handleDownloadPdf} disabled={eventsLoading}>
+                Download PDF
+              </button>
+              {canEditItinerary ? (
+                <button
+                  className="secondary"
+                  type="button"
+                  onClick={openImportDialog}
+                  disabled={!draft.startDate || !draft.endDate}
+                >
+                  Import .ics
+                </button>
+              ) : null}
+              {canEditItinerary ? (
+                <button
+                  className="secondary"
+                  type="button"
+                  onClick={isEditingSidebar ? cancelSidebarEdit : startSidebarEdit}
+                >
+                  {isEditingSidebar ? "Cancel" : "Edit trip"}
+                </button>
+              ) : null}
+              {isItineraryOwner ? (
+                <button
+                  className="secondary secondary--danger"
+                  type="button"
+                  onClick={() => void onDeleteItinerary(itinerary)}
+                  disabled={saving}
+                >
+                  Delete trip
+                </button>
+              ) : null}
+            </div>
+          </header>
+
+          <div className="builder-layout">
+            <aside className="builder-sidebar">
+              <h3>Trip details</h3>
+
+              {isEditingSidebar ? (
+                <form className="builder-form sidebar-form" onSubmit={handleDetailSubmit}>
+                  <label className="field">
+                    <span>Itinerary name</span>
+                    <input
+                      type="text"
+                      value={draft.title}
+                      onChange={(event) =>
+                        setDraft((prev) => ({
+                          ...prev,
+                          title: event.target.value,
+                        }))
+                      }
+                      required
+                      disabled={saving}
+                    />
+                  </label>
+
+                  <div className="date-grid">
+                    <label className="field compact-field">
+                      <span>Start date</span>
+                      <input
+                        type="date"
+                        value={draft.startDate}
+                        onChange={(event) =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            startDate: event.target.value,
+                          }))
+                        }
+                        required
+                        disabled={saving}
+                      />
+                    </label>
+                    <label className="field compact-field">
+                      <span>End date</span>
+                      <input
+                        type="date"
+                        value={draft.endDate}
+                        onChange={(event) =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            endDate: event.target.value,
+                          }))
+                        }
+                        required
+                        disabled={saving}
+                      />
+                    </label>
+                  </div>
+
+                  <fieldset className="traveller-editor">
+                    <legend>Travellers</legend>
+                    {draft.travellers.map((traveller, index) => (
+                      <div key={traveller.id} className="traveller-card">
+                        <label className="field compact-field">
+                          <span>Name</span>
+                          <input
+                            type="text"
+                            value={traveller.name}
+                            onChange={(event) => updateTravellerDraft(traveller.id, { name: event.target.value })}
+                            required
+                            disabled={saving}
+                            aria-label={`Traveller ${index + 1} name`}
+                          />
+                        </label>
+                        <label className="field compact-field">
+                          <span>Age</span>
+                          <select
+                            value={traveller.ageBand}
+                            onChange={(event) =>
+                              updateTravellerDraft(traveller.id, { ageBand: event.target.value as TravellerAgeBand })
+                            }
+                            disabled={saving}
+                          >
+                            {TRAVELLER_AGE_BANDS.map((ageBand) => (
+                              <option key={ageBand} value={ageBand}>
+                                {TRAVELLER_AGE_BAND_LABELS[ageBand].singular}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="field compact-field">
+                          <span>Travelio account</span>
+                          <select
+                            value={traveller.linkedUid ?? ""}
+                            onChange={(event) =>
+                              updateTravellerDraft(traveller.id, { linkedUid: event.target.value || null })
+                            }
+                            disabled={saving}
+                          >
+                            <option value="">Not linked</option>
+                            {sharingMembers.map(([uid, member]) => (
+                              <option key={uid} value={uid}>
+                                {formatMemberName(uid, member, currentUser.uid)}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="field compact-field">
+                          <span>Dietary notes</span>
+                          <input
+                            type="text"
+                            value={traveller.dietaryNotes}
+                            onChange={(event) =>
+                              updateTravellerDraft(traveller.id, { dietaryNotes: event.target.value })
+                            }
+                            placeholder="Vegetarian, nut allergy"
+                            disabled={saving}
+                          />
+                        </label>
+                        <label className="field compact-field">
+                          <span>Accessibility notes</span>
+                          <input
+                            type="text"
+                            value={traveller.accessibilityNotes}
+                            onChange={(event) =>
+                              updateTravellerDraft(traveller.id, { accessibilityNotes: event.target.value })
+                            }
+                            placeholder="Step-free access"
+                            disabled={saving}
+                          />
+                        </label>
+                        <button
+                          type="button"
+                          className="link-button link-button--danger"
+                          onClick={() =>
+                            setDraft((prev) => ({
+                              ...prev,
+                              travellers: prev.travellers.filter((entry) => entry.id !== traveller.id),
+                            }))
+                          }
+                          disabled={saving}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() =>
+                        setDraft((prev) => ({ ...prev, travellers: [...prev.travellers, createTraveller()] }))
+                      }
+                      disabled={saving}
+                    >
+                      Add traveller
+                    </button>
+                  </fieldset>
+
+                  {formError ? (
+                    <p className="error" role="alert">
+                      {formError}
+                    </p>
+                  ) : null}
+
+                  <button className="primary" type="submit" disabled={saving}>
+                    {saving ? "Saving..." : "Save changes"}
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <dl className="summary-list">
+                    <div className="summary-item">
+                      <dt>Name</dt>
+                      <dd>{draft.title.trim() || itinerary.title}</dd>
+                    </div>
+                    <div className="summary-item">
+                      <dt>Date range</dt>
+                      <dd>{formattedDateRange}</dd>
+                    </div>
+                    <div className="summary-item">
+                      <dt>Total travellers</dt>
+                      <dd>{formatTravellerCount(draft.travellers.length)}</dd>
+                    </div>
+                    {summaryBreakdown.length ? (
+                      <div className="summary-item">
+                        <dt>Breakdown</dt>
+                        <dd>
+                          <ul className="summary-breakdown">
+                            {summaryBreakdown.map((entry) => (
+                              <li key={entry.label}>
+                                <span>{entry.label}</span>
+                                <span>{entry.value}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </dd>
+                      </div>
+                    ) : null}
+                    {draft.travellers.length ? (
+                      <div className="summary-item">
+                        <dt>Who's going</dt>
+                        <dd>
+                          <ul className="traveller-list">
+                            {draft.travellers.map((traveller) => (
+                              <li key={traveller.id}>
+                                <span className="traveller-name">
+                                  {traveller.name}
+                                  <span className="traveller-age">
+                                    {" "}
+                                    · {TRAVELLER_AGE_BAND_LABELS[traveller.ageBand].singular}
+                                    {traveller.linkedUid === currentUser.uid ? " · you" : ""}
+                                  </span>
+                                </span>
+                                {traveller.dietaryNotes ? (
+                                  <span className="traveller-note">Diet: {traveller.dietaryNotes}</span>
+                                ) : null}
+                                {traveller.accessibilityNotes ? (
+                                  <span className="traveller-note">Access: {traveller.accessibilityNotes}</span>
+                                ) : null}
+                              </li>
+                            ))}
+                          </ul>
+                        </dd>
+                      </div>
+                    ) : null}
+                  </dl>
+                  {itinerary.hasLegacyTravellers && canEditItinerary ? (
+                    <p className="form-note">
+                      This trip only recorded head counts, so its travellers are numbered placeholders. Use Edit trip
+                      to name them.
+                    </p>
+                  ) : null}
+                  {statusMessage ? (
+                    <p className="profile-status sidebar-status" role="status">
+                      {statusMessage}
+                    </p>
+                  ) : null}
+                </>
+              )}
+
+              <BudgetPanel
+                itinerary={itinerary}
+                events={events}
+                members={sharingMembers}
+                currentUser={currentUser}
+                canEdit={canEditItinerary}
+              />
+
+              <section className="sharing-panel" aria-labelledby="trip-sharing-heading">
+                <h3 id="trip-sharing-heading">People</h3>
+                <ul className="member-list">
+                  {sharingMembers.map(([uid, member]) => (
+                    <li key={uid} className="member-item">
+                      <span className="member-name">
+                        {formatMemberName(uid, member, currentUser.uid)}
+                      </span>
+                      {isItineraryOwner && member.role !== "owner" ? (
+                        <span className="member-controls">
+                          <select
+                            value={member.role}
+                            onChange={(event) =>
+                              handleChangeMemberRole(uid, event.target.value as ItineraryInviteRole)
+                            }
+                            disabled={sharingSaving}
+                            aria-label={`Role for ${member.email ?? "member"}`}
+                          >
+                            <option value="editor">Editor</option>
+                            <option value="viewer">Viewer</option>
+                          </select>
+                          <button
+                            type="button"
+                            className="link-button link-button--danger"
+                            onClick={() => handleRemoveMember(uid)}
+                            disabled={sharingSaving}
+                          >
+                            Remove
+                          </button>
+                        </span>
+                      ) : (
+                        <span className="member-role">{ITINERARY_ROLE_LABELS[member.role]}</span>
+                      )}
+                    </li>
+                  ))}
+                  {Object.entries(itinerary.invites).map(([email, role]) => (
+                    <li key={email} className="member-item member-item--pending">
+                      <span className="member-name">{email}</span>
+                      <span className="member-controls">
+                        <span className="member-role">{ITINERARY_ROLE_LABELS[role]} · invited</span>
+                        {isItineraryOwner ? (
+                          <button
+                            type="button"
+                            className="link-button link-button--danger"
+                            onClick={() => handleRevokeInvite(email)}
+                            disabled={sharingSaving}
+                          >
+                            Revoke
+                          </button>
+                        ) : null}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {isItineraryOwner ? (
+                  <form className="invite-form" onSubmit={handleInviteSubmit}>
+                    <label className="field">
+                      <span>Invite by email</span>
+                      <input
+                        type="email"
+                        value={inviteDraft.email}
+                        onChange={(event) =>
+                          setInviteDraft((previous) => ({ ...previous, email: event.target.value }))
+                        }
+                        placeholder="friend@example.com"
+                        required
+                        disabled={sharingSaving}
+                      />
+                    </label>
+                    <label className="field">
+                      <span>Role</span>
+                      <select
+                        value={inviteDraft.role}
+                        onChange={(event) =>
+                          setInviteDraft((previous) => ({
+                            ...previous,
+                            role: event.target.value as ItineraryInviteRole,
+                          }))
+                        }
+                        disabled={sharingSaving}
+                      >
+                        <option value="editor">Editor – can change the plan</option>
+                        <option value="viewer">Viewer – read only</option>
+                      </select>
+                    </label>
+                    <button className="secondary" type="submit" disabled={sharingSaving}>
+                      {sharingSaving ? "Saving..." : "Send invite"}
+                    </button>
+                    <p className="form-note">
+                      The trip appears on their dashboard once they sign in with this email.
+                    </p>
+                  </form>
+                ) : null}
+
+                <div className="public-link">
+                  {isItineraryOwner ? (
+                    <label className="toggle-field">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(itinerary.shareToken)}
+                        onChange={handleTogglePublicLink}
+                        disabled={sharingSaving}
+                      />
+                      <span>Publish read-only link</span>
+                    </label>
+                  ) : null}
+                  {itinerary.shareToken ? (
+                    <div className="public-link-row">
+                      <input
+                        type="text"
+                        readOnly
+                        value={buildShareUrl(itinerary.shareToken)}
+                        onFocus={(event) => event.target.select()}
+                        aria-label="Public link"
+                      />
+                      <button
+                        type="button"
+                        className="link-button"
+                        onClick={handleCopyShareLink}
+                      >
+                        Copy
+                      </button>
+                    </div>
+                  ) : null}
+                  {isItineraryOwner && itinerary.shareToken ? (
+                    <p className="form-note">
+                      Anyone with this link can view the calendar without signing in. Turn it off to revoke access.
+                    </p>
+                  ) : null}
+                </div>
+
+                {sharingError ? (
+                  <p className="error" role="alert">
+                    {sharingError}
+                  </p>
+                ) : null}
+              </section>
+            </aside>
+            <div className={`builder-main${shouldShowCalendar ? "" : " builder-main--empty"}`}>
+              <section className="calendar-panel" aria-labelledby="trip-calendar-heading">
+                <header className="calendar-header">
+                  <div>
+                    <h3 id="trip-calendar-heading">Trip calendar</h3>
+                    <p className="muted">Visualise the day-by-day flow of this trip.</p>
+                  </div>
+                  <div className="segmented-control" role="group" aria-label="Show times in">
+                    {(Object.keys(CALENDAR_TIME_MODE_LABELS) as CalendarTimeMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        className={`segmented-option${calendarTimeMode === mode ? " segmented-option--active" : ""}`}
+                        aria-pressed={calendarTimeMode === mode}
+                        onClick={() => setCalendarTimeMode(mode)}
+                        title={mode === "device" ? `Convert times to ${deviceTimeZone}` : "Show local times at each place"}
+                      >
+                        {CALENDAR_TIME_MODE_LABELS[mode]}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="segmented-control" role="group" aria-label="Calendar layout">
+                    {(Object.keys(CALENDAR_VIEW_LABELS) as CalendarView[]).map((view) => (
+                      <button
+                        key={view}
+                        type="button"
+                        className={`segmented-option${calendarView === view ? " segmented-option--active" : ""}`}
+                        aria-pressed={calendarView === view}
+                        onClick={() => setCalendarView(view)}
+                      >
+                        {CALENDAR_VIEW_LABELS[view]}
+                      </button>
+                    ))}
+                  </div>
+                  {itinerary.travellers.length > 1 ? (
+                    <div className="view-as-control" role="group" aria-label="View as">
+                      <span className="view-as-label">View as</span>
+                      <button
+                        type="button"
+                        className={`view-as-option${viewAsIds.length ? "" : " view-as-option--active"}`}
+                        aria-pressed={!viewAsIds.length}
+                        onClick={() => setViewAsTravellerIds([])}
+                      >
+                        Everyone
+                      </button>
+                      {itinerary.travellers.map((traveller) => (
+                        <button
+                          key={traveller.id}
+                          type="button"
+                          className={`view-as-option${
+                            viewAsIds.includes(traveller.id) ? " view-as-option--active" : ""
+                          }`}
+                          aria-pressed={viewAsIds.includes(traveller.id)}
+                          onClick={() => toggleViewAsTraveller(traveller.id)}
+                          title="Pick several people to compare their days side by side"
+                        >
+                          {traveller.name}
+                          {traveller.linkedUid === currentUser.uid ? " (you)" : ""}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+                  {hasLocatedEvents && calendarView !== "timeline" ? (
+                    <div className="travel-mode-control">
+                      <div className="segmented-control" role="group" aria-label="Travel between stops by">
+                        {TRAVEL_MODES.map((mode) => (
+                          <button
+                            key={mode}
+                            type="button"
+                            className={`segmented-option${travelMode === mode ? " segmented-option--active" : ""}`}
+                            aria-pressed={travelMode === mode}
+                            onClick={() => setTravelMode(mode)}
+                            title={`Estimates assume ${travelSpeeds[mode]} km/h`}
+                          >
+                            <span aria-hidden="true">{TRAVEL_MODE_ICONS[mode]}</span> {TRAVEL_MODE_LABELS[mode]}
+                          </button>
+                        ))}
+                      </div>
+                      {canEditItinerary && !travelSpeedsDraft ? (
+                        <button type="button" className="link-button" onClick={startTravelSpeedsEdit}>
+                          Speeds
+                        </button>
+                      ) : null}
+                    </div>
+                  ) : null}
+                  {travelSpeedsDraft ? (
+                    <form className="travel-speeds-form" onSubmit={handleTravelSpeedsSubmit}>
+                      <fieldset className="rate-fields">
+                        <legend>Travel speeds for this trip</legend>
+                        {TRAVEL_MODES.map((mode) => (
+                          <label key={mode} className="rate-field">
+                            <span>{TRAVEL_MODE_LABELS[mode]}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={MAX_TRAVEL_SPEED}
+                              step="any"
+                              inputMode="decimal"
+                              value={travelSpeedsDraft[mode]}
+                              onChange={(event) =>
+                                setTravelSpeedsDraft((previous) =>
+                                  previous ? { ...previous, [mode]: event.target.value } : previous
+                                )
+                              }
+                              placeholder={String(DEFAULT_TRAVEL_SPEEDS[mode])}
+                            />
+                            <span>km/h</span>
+                          </label>
+                        ))}
+                      </fieldset>
+                      <p className="form-note">
+                        Door-to-door averages. Routes are taken as a third longer than the straight line, and transit
+                        adds ten minutes of waiting.
+                      </p>
+                      {travelSpeedsError ? (
+                        <p className="error" role="alert">
+                          {travelSpeedsError}
+                        </p>
+                      ) : null}
+                      <div className="edit-actions">
+                        <button className="primary" type="submit">
+                          Save speeds
+                        </button>
+                        <button className="link-button" type="button" onClick={() => setTravelSpeedsDraft(null)}>
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  ) : null}
+                  {shouldShowScrollHint && calendarView === "grid" ? (
+                    <p className="calendar-hint" role="note">
+                      Scroll horizontally to view every day in the range.
+                    </p>
+                  ) : null}
+                </header>
+
+                {shouldShowCalendar ? (
+                  <>
+                    {eventsError ? (
+                      <p className="error" role="alert">
+                        {eventsError}
+                      </p>
+                    ) : null}
+                    {itineraryWarnings.length ? (
+                      <section className="itinerary-warnings" aria-labelledby="itinerary-warnings-heading">
+                        <h4 id="itinerary-warnings-heading">
+                          {itineraryWarnings.length} {itineraryWarnings.length === 1 ? "thing" : "things"} to check
+                        </h4>
+                        <ul>
+                          {itineraryWarnings.map((warning) => {
+                            const firstEvent = expandedEvents.find((entry) => entry.id === warning.eventIds[0]);
+
+                            return (
+                              <li key={warning.key}>
+                                <span className="itinerary-warning-kind">{ITINERARY_WARNING_LABELS[warning.kind]}</span>
+                                {firstEvent ? (
+                                  <button
+                                    type="button"
+                                    className="link-button"
+                                    onClick={() => openEventEditor(firstEvent)}
+                                  >
+                                    {warning.message}
+                                  </button>
+                                ) : (
+                                  <span>{warning.message}</span>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </section>
+                    ) : null}
+                    {calendarView === "agenda" ? (
+                      <ol className="trip-agenda" aria-label={calendarRangeLabel}>
+                        {calendarDays.map((day, dayIndex) => {
+                          const agendaItems = buildAgendaItems(buildDaySegments(viewAsEvents, day.iso, dayIndexMap));
+                          const travelGapsTo = new Map(
+                            (travelGaps.get(day.iso) ?? []).map((gap) => [gap.toEvent.id, gap])
+                          );
+
+                          return (
+                            <li
+                              key={day.iso}
+                              className={`trip-agenda-day${day.isToday ? " trip-agenda-day--today" : ""}`}
+                            >
+                              <header className="trip-agenda-day-header">
+                                <h4>
+                                  {day.weekdayLabel} {day.dateLabel}
+                                </h4>
+                                <span className="muted">Day {dayIndex + 1}</span>
+                                {canEditItinerary ? (
+                                  <button
+                                    type="button"
+                                    className="link-button"
+                                    onClick={() =>
+                                      openEventComposer(
+                                        normalizeSelection(
+                                          day.iso,
+                                          DEFAULT_EVENT_START_HOUR * 60,
+                                          day.iso,
+                                          (DEFAULT_EVENT_START_HOUR + 1) * 60
+                                        )
+                                      )
+                                    }
+                                  >
+                                    Add event
+                                  </button>
+                                ) : null}
+                              </header>
+                              {agendaItems.length ? (
+                                <ul className="trip-agenda-items">
+                                  {agendaItems.map((item) => {
+                                    if (item.kind === "gap") {
+                                      return (
+                                        <li key={`gap-${item.startMinutes}`} className="trip-agenda-gap">
+                                          Free · {formatGapDuration(item.minutes)}
+                                        </li>
+                                      );
+                                    }
 
-  const startEventDrag = (
-    calendarEvent: ItineraryEvent,
-    date: string,
-    mode: "move" | "resize-start" | "resize-end",
-    segmentStartMinutes: number,
-    segmentEndMinutes: number,
-    reactEvent: ReactPointerEvent<HTMLElement>
-  ) => {
-    reactEvent.preventDefault();
-    reactEvent.stopPropagation();
+                                    const { segment } = item;
+                                    const { event: agendaEvent } = segment;
+                                    const detailSummary = formatEventDetailSummary(agendaEvent);
+                                    const eventTravellers = formatEventTravellers(agendaEvent, travellerNames);
+                                    const isMultiDay = !segment.isStartSegment || !segment.isEndSegment;
+                                    const travelGap = travelGapsTo.get(agendaEvent.id);
 
-    if (reactEvent.button !== undefined && reactEvent.button !== 0) {
-      return;
-    }
+                                    return (
+                                      <Fragment key={agendaEvent.id}>
+                                        {travelGap ? (
+                                          <li className="trip-agenda-travel">
+                                            <TravelGapMarker
+                                              gap={travelGap}
+                                              mode={travelMode}
+                                              estimate={getTravelEstimate(travelGap)}
+                                            />
+                                          </li>
+                                        ) : null}
+                                        <li>
+                                          <button
+                                            type="button"
+                                            className={`trip-agenda-event calendar-event--${agendaEvent.category}${
+                                              editingEventId === agendaEvent.id ? " calendar-event--editing" : ""
+                                            }`}
+                                            onClick={() => openEventEditor(agendaEvent)}
+                                            aria-label={`${canEditItinerary ? "Edit" : "View"} ${
+                                              EVENT_CATEGORY_CONFIG[agendaEvent.category].label
+                                            } ${agendaEvent.title}, ${formatAgendaSegmentTime(
+                                              segment
+                                            )}${describeEventWarnings(agendaEvent.id)}`}
+                                          >
+                                            <span className="trip-agenda-time">{formatAgendaSegmentTime(segment)}</span>
+                                            <span className="trip-agenda-details">
+                                              <strong>
+                                                <span className="calendar-event-icon" aria-hidden="true">
+                                                  {EVENT_CATEGORY_CONFIG[agendaEvent.category].icon}
+                                                </span>
+                                                {agendaEvent.title}
+                                                <EventWarningBadge warnings={warningsByEvent.get(agendaEvent.id)} />
+                                              </strong>
+                                              {isMultiDay ? (
+                                                <span>
+                                                  {formatEventTimeRange(agendaEvent.startDateTime, agendaEvent.endDateTime)}
+                                                </span>
+                                              ) : null}
+                                              {detailSummary ? <span>{detailSummary}</span> : null}
+                                              {eventTravellers ? (
+                                                <span className="calendar-event-travellers">{eventTravellers}</span>
+                                              ) : null}
+                                            </span>
+                                          </button>
+                                        </li>
+                                      </Fragment>
+                                    );
+                                  })}
+                                </ul>
+                              ) : (
+                                <p className="trip-agenda-empty muted">Nothing planned</p>
+                              )}
+                              {day.iso === agendaFormDate ? eventForm : null}
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    ) : timeline ? (
+                      <>
+                        <div className="trip-timeline-scroll">
+                          <div
+                            className="trip-timeline"
+                            role="group"
+                            aria-label={calendarRangeLabel}
+                            style={
+                              {
+                                minWidth: `${calendarDays.length * TIMELINE_DAY_MIN_WIDTH_PX}px`,
+                                "--timeline-day-count": calendarDays.length,
+                              } as CSSProperties
+                            }
+                          >
+                            <div className="trip-timeline-days" aria-hidden="true">
+                              {calendarDays.map((day) => (
+                                <div
+                                  key={day.iso}
+                                  className={`trip-timeline-day${day.isToday ? " trip-timeline-day--today" : ""}`}
+                                >
+                                  <span className="calendar-weekday">{day.weekdayLabel}</span>
+                                  <span className="calendar-date">{day.dateLabel}</span>
+                                </div>
+                              ))}
+                            </div>
+                            <div
+                              className="trip-timeline-bars"
+                              style={{ height: `${Math.max(timeline.rowCount, 1) * TIMELINE_ROW_HEIGHT_PX}px` }}
+                            >
+                              {timeline.bars.map(({ event: timelineEvent, startMinutes, endMinutes, row }) => {
+                                const timeRange = formatEventTimeRange(
+                                  timelineEvent.startDateTime,
+                                  timelineEvent.endDateTime
+                                );
 
-    const container = dayBodyRefs.current.get(date);
-    if (!container) {
-      return;
-    }
+                                return (
+                                  <button
+                                    key={timelineEvent.id}
+                                    type="button"
+                                    className={`trip-timeline-bar calendar-event--${timelineEvent.category}${
+                                      editingEventId === timelineEvent.id ? " calendar-event--editing" : ""
+                                    }`}
+                                    style={{
+                                      top: `${row * TIMELINE_ROW_HEIGHT_PX}px`,
+                                      left: `${(startMinutes / totalCalendarMinutes) * 100}%`,
+                                      width: `${((endMinutes - startMinutes) / totalCalendarMinutes) * 100}%`,
+                                    }}
+                                    onClick={() => openEventEditor(timelineEvent)}
+                                    title={`${timelineEvent.title} · ${timeRange}`}
+                                    aria-label={`${canEditItinerary ? "Edit" : "View"} ${
+                                      EVENT_CATEGORY_CONFIG[timelineEvent.category].label
+                                    } ${timelineEvent.title}, ${timeRange}${describeEventWarnings(timelineEvent.id)}`}
+                                  >
+                                    <EventWarningBadge warnings={warningsByEvent.get(timelineEvent.id)} />
+                                    <span className="calendar-event-icon" aria-hidden="true">
+                                      {EVENT_CATEGORY_CONFIG[timelineEvent.category].icon}
+                                    </span>
+                                    {timelineEvent.title}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        </div>
+                        {timeline.bars.length ? null : (
+                          <p className="muted">No events planned yet.</p>
+                        )}
+                        {eventForm}
+                      </>
+                    ) : (
+                      <div className="calendar-scroll" role="group" aria-label={calendarRangeLabel}>
+                        <div className="calendar-grid" ref={calendarGridRef}>
+                          <div className="calendar-time-column" aria-hidden="true">
+                            <div className="calendar-time-spacer" />
+                            {HOUR_MARKERS.map((hour) => (
+                              <div key={hour} className="calendar-hour-cell">
+                                {formatHourLabel(hour)}
+                              </div>
+                            ))}
+                          </div>
+                          {calendarDays.map((day) => {
+                            const laneSegments = calendarLanes.flatMap((lane, laneIndex) =>
+                              layoutSegmentsWithColumns(
+                                buildDaySegments(getLaneEvents(lane.travellerId), day.iso, dayIndexMap)
+                              ).map((segment) => ({ segment, lane, laneIndex }))
+                            );
+
+                            return (
+                              <div
+                                key={day.iso}
+                                className={`calendar-day-column${day.isToday ? " calendar-day-column--today" : ""}`}
+                                style={{ "--calendar-lane-count": calendarLanes.length } as CSSProperties}
+                              >
+                                <div className="calendar-day-header">
+                                  <span className="calendar-weekday">{day.weekdayLabel}</span>
+                                  <span className="calendar-date">{day.dateLabel}</span>
+                                  {calendarLanes.length > 1 ? (
+                                    <span className="calendar-lane-labels">
+                                      {calendarLanes.map((lane) => (
+                                        <span key={lane.key}>{lane.label}</span>
+                                      ))}
+                                    </span>
+                                  ) : null}
+                                </div>
+                                <div className="calendar-day-body" ref={registerDayBodyRef(day.iso)}>
+                                  <div className="calendar-selection-overlay" aria-hidden="true">
+                                    {(() => {
+                                      const coverage = deriveDayCoverage(dragSelection || selectionRange, day.iso);
+                                      if (!coverage) {
+                                        return null;
+                                      }
 
-    const clientY = getPointerClientY(reactEvent.nativeEvent);
+                                      const startOffset = (coverage.startMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
+                                      const height = ((coverage.endMinutes - coverage.startMinutes) / 60) *
+                                        CALENDAR_SLOT_HEIGHT_PX;
+
+                                      return (
+                                        <div
+                                          className="calendar-selection-block"
+                                          style={{
+                                            top: `${startOffset}px`,
+                                            height: `${Math.max(height, 4)}px`,
+                                          }}
+                                        />
+                                      );
+                                    })()}
+                                  </div>
+
+                                  {HOUR_MARKERS.map((hour) => (
+                                    <button
+                                      key={`${day.iso}-${hour}`}
+                                      type="button"
+                                      className="calendar-slot"
+                                      data-slot={`${day.iso}T${hour}`}
+                                      tabIndex={day.iso === tabbableSlot.date && hour === tabbableSlot.hour ? 0 : -1}
+                                      onFocus={() => setFocusedSlot({ date: day.iso, hour })}
+                                      onPointerDown={(event) => {
+                                        event.preventDefault();
+                                        beginSlotSelection(day.iso, hour);
+                                      }}
+                                      onPointerEnter={() => extendSlotSelection(day.iso, hour)}
+                                      onPointerUp={() => finalizeSlotSelection(true)}
+                                      onKeyDown={(event) => handleSlotKeyDown(day.iso, hour, event)}
+                                      aria-label={`Create event on ${day.weekdayLabel} ${day.dateLabel} at ${formatHourLabel(hour)}`}
+                                      aria-describedby="calendar-keyboard-help"
+                                    />
+                                  ))}
+
+                                  <div className="calendar-day-events" aria-hidden={laneSegments.length === 0}
+                                  >
+                                    {laneSegments.map(({ segment, lane, laneIndex }) => {
+                                      const { event: calendarEvent } = segment;
+
+                                      const isDraggedSegment = eventDragState?.eventId === calendarEvent.id;
+
+                                      const canResizeStart = canEditItinerary && segment.isStartSegment;
+                                      const canResizeEnd = canEditItinerary && segment.isEndSegment;
+                                      // On trip-local clocks, flag events that are not on the viewer's own clock.
+                                      const zoneHint =
+                                        calendarTimeMode === "trip" &&
+                                        calendarEvent.startTimeZone &&
+                                        (calendarEvent.startTimeZone !== deviceTimeZone ||
+                                          calendarEvent.endTimeZone !== calendarEvent.startTimeZone)
+                                          ? formatEventZoneHint(calendarEvent)
+                                          : null;
+                                      const detailSummary = formatEventDetailSummary(calendarEvent);
+                                      const eventTravellers = formatEventTravellers(calendarEvent, travellerNames);
+
+                                      return (
+                                        <div
+                                          key={`${calendarEvent.id}-${day.iso}-${lane.key}`}
+                                          className={`calendar-event calendar-event--${calendarEvent.category}${
+                                            isDraggedSegment ? " calendar-event--dragging" : ""
+                                          }${editingEventId === calendarEvent.id ? " calendar-event--editing" : ""}`}
+                                          role="button"
+                                          tabIndex={0}
+                                          aria-label={`${canEditItinerary ? "Edit" : "View"} ${
+                                            EVENT_CATEGORY_CONFIG[calendarEvent.category].label
+                                          } ${calendarEvent.title}, ${formatEventTimeRange(
+                                            calendarEvent.startDateTime,
+                                            calendarEvent.endDateTime
+                                          )}${describeEventWarnings(calendarEvent.id)}`}
+                                          data-event-id={calendarEvent.id}
+                                          aria-describedby="calendar-keyboard-help"
+                                          onKeyDown={(event) => handleEventKeyDown(calendarEvent, event)}
+                                          style={getSegmentBlockStyle(segment, {
+                                            index: laneIndex,
+                                            count: calendarLanes.length,
+                                          })}
+                                          onPointerDown={(event) => startEventDrag(calendarEvent, "move", event)}
+                                        >
+                                          {canResizeStart ? (
+                                            <button
+                                              type="button"
+                                              className="calendar-event-handle calendar-event-handle--start"
+                                              onPointerDown={(event) =>
+                                                startEventDrag(calendarEvent, "resize-start", event)
+                                              }
+                                              aria-label="Adjust start time"
+                                            />
+                                          ) : null}
+                                          <div className="calendar-event-content">
+                                            <strong>
+                                              <span className="calendar-event-icon" aria-hidden="true">
+                                                {EVENT_CATEGORY_CONFIG[calendarEvent.category].icon}
+                                              </span>
+                                              {calendarEvent.title}
+                                              <EventWarningBadge warnings={warningsByEvent.get(calendarEvent.id)} />
+                                            </strong>
+                                            <span>
+                                              {formatEventTimeRange(
+                                                calendarEvent.startDateTime,
+                                                calendarEvent.endDateTime
+                                              )}
+                                            </span>
+                                            {detailSummary ? <span>{detailSummary}</span> : null}
+                                            {eventTravellers ? (
+                                              <span className="calendar-event-travellers">{eventTravellers}</span>
+                                            ) : null}
+                                            {zoneHint ? <span className="calendar-event-zone">{zoneHint}</span> : null}
+                                          </div>
+                                          {canResizeEnd ? (
+                                            <button
+                                              type="button"
+                                              className="calendar-event-handle calendar-event-handle--end"
+                                              onPointerDown={(event) =>
+                                                startEventDrag(calendarEvent, "resize-end", event)
+                                              }
+                                              aria-label="Adjust end time"
+                                            />
+                                          ) : null}
+                                        </div>
+                                      );
+                                    })}
+                                    {calendarLanes.flatMap((lane, laneIndex) =>
+                                      (travelGaps.get(`${day.iso}:${lane.key}`) ?? []).map((gap) => (
+                                        <TravelGapMarker
+                                          key={`${gap.key}-${lane.key}`}
+                                          className="calendar-travel-gap"
+                                          gap={gap}
+                                          mode={travelMode}
+                                          estimate={getTravelEstimate(gap)}
+                                          style={getTravelGapStyle(gap, {
+                                            index: laneIndex,
+                                            count: calendarLanes.length,
+                                          })}
+                                        />
+                                      ))
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                            );
+                          })}
+                          {eventForm}
+                        </div>
+                      </div>
+                    )}
+                    {eventsLoading ? (
+                      <p className="muted" role="status">
+                        Loading events...
+                      </p>
+                    ) : null}
+                  </>
+                ) : (
+                  <div className="calendar-empty" role="status">
+                    <p className="muted">Select both a start and end date to generate the calendar.</p>
+                  </div>
+                )}
 
-    const previewStart = clampMinutes(segmentStartMinutes);
-    const previewEnd = clampMinutes(Math.max(segmentEndMinutes, previewStart + MIN_EVENT_DURATION));
+                {!showEventForm && shouldShowCalendar ? (
+                  <p className="calendar-instructions muted">
+                    {canEditItinerary
+                      ? calendarView === "grid"
+                        ? "Click or drag across the calendar to add an event, or click an event to edit it."
+                        : calendarView === "agenda"
+                          ? "Use Add event under a day to plan something, or tap an event to edit it."
+                          : "Tap a bar to open its event. Switch to Grid or Agenda to add new ones."
+                      : "You have view-only access to this trip. Click an event to see its details."}
+                  </p>
+                ) : null}
 
-    let anchorOffset: number | undefined;
-    if (mode === "move" && clientY !== null) {
-      const rect = container.getBoundingClientRect();
-      const offsetY = clientY - rect.top;
-      const pointerMinutes = clampMinutes(
-        roundToSelectionStep((offsetY / CALENDAR_SLOT_HEIGHT_PX) * 60)
-      );
-      anchorOffset = pointerMinutes - previewStart;
-    }
+                {eventStatusMessage ? (
+                  <p className="profile-status calendar-status" role="status">
+                    {eventStatusMessage}
+                  </p>
+                ) : null}
 
-    setEventDragState({
-      eventId: calendarEvent.id,
-      date,
-      mode,
-      originalStart: previewStart,
-      originalEnd: previewEnd,
-      previewStart,
-      previewEnd,
-      anchorOffset,
-    });
+                <p id="calendar-keyboard-help" className="visually-hidden">
+                  {canEditItinerary
+                    ? "Arrow keys move between hours and days. Shift with Up or Down changes how long a new event " +
+                      "or an existing one runs. On an event, arrow keys move it by 30 minutes or a day. Press Enter " +
+                      "to open the event form."
+                    : "Arrow keys move between hours and days. Press Enter on an event to see its details."}
+                </p>
+                <p className="visually-hidden" role="status" aria-live="assertive">
+                  {calendarAnnouncement}
+                </p>
+              </section>
+              {shouldShowCalendar ? (
+                <TripMap days={calendarDays} events={viewAsEvents} onSelectEvent={openEventEditor} />
+              ) : null}
+            </div>
+          </div>
 
-    dragSelectionRef.current = null;
-    setDragSelection(null);
-    setIsDraggingSelection(false);
-  };
+          {isImportOpen ? (
+            <div className="dialog-backdrop" role="presentation" onClick={closeImportDialog}>
+              <section
+                className="card dialog"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="import-dialog-heading"
+                onClick={(event) => event.stopPropagation()}
+                onKeyDown={(event) => {
+                  if (event.key === "Escape") {
+                    closeImportDialog();
+                  }
+                }}
+              >
+                <header>
+                  <h3 id="import-dialog-heading">Import events</h3>
+                  <p className="muted">
+                    Choose an .ics file exported from your calendar. Events between {formattedDateRange} are listed
+                    below.
+                  </p>
+                </header>
 
-  const updateEventDragPreview = (clientY: number) => {
-    setEventDragState((previous) => {
-      if (!previous) {
-        return previous;
-      }
+                <label className="field">
+                  <span>Calendar file</span>
+                  <input
+                    type="file"
+                    accept=".ics,text/calendar"
+                    onChange={handleImportFileChange}
+                    disabled={importSaving}
+                    autoFocus
+                  />
+                </label>
 
-      const container = dayBodyRefs.current.get(previous.date);
-      if (!container) {
-        return previous;
-      }
+                {importFileName && !importError && !importCandidates.length ? (
+                  <p className="muted">No events in {importFileName} fall within this trip.</p>
+                ) : null}
 
-      const rect = container.getBoundingClientRect();
-      const offsetY = clientY - rect.top;
-      const pointerMinutes = clampMinutes(
-        roundToSelectionStep((offsetY / CALENDAR_SLOT_HEIGHT_PX) * 60)
-      );
+                {importCandidates.length ? (
+                  <>
+                    <div className="import-list-header">
+                      <span className="muted">
+                        {importSelection.size} of {importCandidates.length} selected
+                      </span>
+                      <button
+                        type="button"
+                        className="link-button"
+                        onClick={() =>
+                          setImportSelection(
+                            importSelection.size === importCandidates.length
+                              ? new Set()
+                              : new Set(importCandidates.map((candidate) => candidate.key))
+                          )
+                        }
+                      >
+                        {importSelection.size === importCandidates.length ? "Select none" : "Select all"}
+                      </button>
+                    </div>
+                    <ul className="import-list">
+                      {importCandidates.map((candidate) => {
+                        const overlapping = findOverlappingEvents(candidate, expandedEvents);
+                        const isDuplicate = isDuplicateImport(candidate);
+
+                        return (
+                          <li
+                            key={candidate.key}
+                            className={`import-item${overlapping.length ? " import-item--overlap" : ""}`}
+                          >
+                            <label>
+                              <input
+                                type="checkbox"
+                                checked={importSelection.has(candidate.key)}
+                                onChange={() => toggleImportCandidate(candidate.key)}
+                                disabled={importSaving}
+                              />
+                              <span className="import-item-details">
+                                <strong>{candidate.title}</strong>
+                                <span className="muted">
+                                  {formatImportedEventRange(candidate)}
+                                  {candidate.recurring ? " · Repeats" : ""}
+                                </span>
+                                {isDuplicate ? (
+                                  <span className="import-warning">Already in this trip</span>
+                                ) : overlapping.length ? (
+                                  <span className="import-warning">
+                                    Overlaps {overlapping.map((entry) => entry.title).join(", ")}
+                                  </span>
+                                ) : null}
+                              </span>
+                            </label>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </>
+                ) : null}
 
-      if (previous.mode === "move") {
-        const duration = previous.originalEnd - previous.originalStart;
-        const anchor = previous.anchorOffset ?? 0;
-        let start = clampMinutes(pointerMinutes - anchor);
-        let end = clampMinutes(start + duration);
+                {importError ? (
+                  <p className="error" role="alert">
+                    {importError}
+                  </p>
+                ) : null}
 
-        if (end > TOTAL_DAY_MINUTES) {
-          end = TOTAL_DAY_MINUTES;
-          start = clampMinutes(end - duration);
-        }
+                <div className="edit-actions">
+                  <button className="secondary" type="button" onClick={closeImportDialog} disabled={importSaving}>
+                    Cancel
+                  </button>
+                  <button
+                    className="primary"
+                    type="button"
+                    onClick={handleImportSubmit}
+                    disabled={importSaving || importSelection.size === 0}
+                  >
+                    {importSaving
+                      ? "Importing..."
+                      : `Import ${importSelection.size} ${importSelection.size === 1 ? "event" : "events"}`}
+                  </button>
+                </div>
+              </section>
+            </div>
+          ) : null}
 
-        if (start < 0) {
-          start = 0;
-          end = clampMinutes(start + duration);
-        }
+          {printableAgenda ? createPortal(<PrintableAgenda agenda={printableAgenda} />, document.body) : null}
+        </>
+      ) : null}
+    </section>
+  );
+}
 
-        if (end - start < MIN_EVENT_DURATION) {
-          end = clampMinutes(start + MIN_EVENT_DURATION);
-        }
+const formatMemberName = (uid: string, member: ItineraryMember | undefined, currentUid: string): string => {
+  if (uid === currentUid) {
+    return "You";
+  }
 
-        return {
-          ...previous,
-          previewStart: start,
-          previewEnd: end,
-        };
-      }
+  return member ? member.email ?? "Travelio member" : "Former member";
+};
 
-      if (previous.mode === "resize-start") {
-        const capped = Math.min(pointerMinutes, previous.previewEnd - MIN_EVENT_DURATION);
-        return {
-          ...previous,
-          previewStart: clampMinutes(Math.min(capped, previous.previewEnd - MIN_EVENT_DURATION)),
-        };
-      }
+const toExpenseDraft = (expense: ItineraryExpense, homeCurrency: string): ItineraryExpenseDraft => ({
+  title: expense.title,
+  amount: String(expense.amount),
+  currency: expense.currency,
+  category: expense.category,
+  paidBy: expense.paidBy,
+  splitBetween: expense.splitBetween,
+  eventId: expense.eventId ?? "",
+  exchangeRate:
+    expense.exchangeRate && expense.exchangeRate.currency === homeCurrency ? String(expense.exchangeRate.rate) : "",
+});
 
-      const capped = Math.max(pointerMinutes, previous.previewStart + MIN_EVENT_DURATION);
-      return {
-        ...previous,
-        previewEnd: clampMinutes(Math.min(capped, TOTAL_DAY_MINUTES)),
-      };
-    });
-  };
+const sumAmounts = (amounts: number[], currency: string): number =>
+  fromMinorUnits(
+    amounts.reduce((total, amount) => total + toMinorUnits(amount, currency), 0),
+    currency
+  );
 
-  const finalizeEventDrag = (commit: boolean) => {
-    const current = eventDragState;
-    setEventDragState(null);
+const EXCHANGE_RATE_SOURCE_LABELS = {
+  trip: "trip rate",
+  bundled: `approximate rate from ${BUNDLED_RATES_AS_OF}`,
+};
 
-    if (!commit || !current || !itineraryId) {
-      return;
-    }
+function BudgetPanel({
+  itinerary,
+  events,
+  members,
+  currentUser,
+  canEdit,
+}: {
+  itinerary: Itinerary;
+  events: ItineraryEvent[];
+  members: [string, ItineraryMember][];
+  currentUser: User;
+  canEdit: boolean;
+}) {
+  const itineraryId = itinerary.id;
+  const [expenses, setExpenses] = useState<ItineraryExpense[]>([]);
+  const [expensesError, setExpensesError] = useState<string | null>(null);
+  const [budgetDraft, setBudgetDraft] = useState<{ amount: string; currency: string } | null>(null);
+  const [ratesDraft, setRatesDraft] = useState<Record<string, string> | null>(null);
+  const [expenseDraft, setExpenseDraft] = useState<ItineraryExpenseDraft | null>(null);
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
 
-    if (
-      current.previewStart === current.originalStart &&
-      current.previewEnd === current.originalEnd
-    ) {
+  useEffect(() => {
+    if (!statusMessage) {
       return;
     }
 
-    const nextStartIso = formatMinutesToIsoLocal(current.date, current.previewStart);
-    const nextEndIso = formatMinutesToIsoLocal(
-      current.date,
-      Math.min(current.previewEnd, TOTAL_DAY_MINUTES - 1)
-    );
-
-    Promise.all([loadFirestoreModule(), getFirestoreInstance()])
-      .then(([module, firestore]) => {
-        const { doc, updateDoc } = module;
-        const eventRef = doc(firestore, "itineraries", itineraryId, "events", current.eventId);
+    const timeout = window.setTimeout(() => {
+      setStatusMessage(null);
+    }, 3000);
 
-        return updateDoc(eventRef, {
-          startDateTime: nextStartIso,
-          endDateTime: nextEndIso,
-        });
-      })
-      .then(() => {
-        setEventStatusMessage("Event updated");
-      })
-      .catch((error) => {
-        setEventStatusMessage(deriveReadableError(error));
-      });
-  };
+    return () => window.clearTimeout(timeout);
+  }, [statusMessage]);
 
   useEffect(() => {
-    if (!eventDragState) {
-      return;
-    }
+    let isActive = true;
+    let unsubscribe: Unsubscribe | undefined;
 
-    const handlePointerMove = (nativeEvent: PointerEvent) => {
-      const y = getPointerClientY(nativeEvent);
-      if (y !== null) {
-        updateEventDragPreview(y);
-      }
-    };
+    Promise.all([loadFirestoreModule(), getFirestoreInstance()])
+      .then(([{ collection, onSnapshot }, firestore]) => {
+        if (!isActive) {
+          return;
+        }
 
-    const handleMouseMove = (nativeEvent: MouseEvent) => {
-      const y = getPointerClientY(nativeEvent);
-      if (y !== null) {
-        updateEventDragPreview(y);
-      }
-    };
+        unsubscribe = onSnapshot(
+          collection(firestore, "itineraries", itineraryId, "expenses"),
+          (snapshot) => {
+            if (!isActive) {
+              return;
+            }
 
-    const handleTouchMove = (nativeEvent: TouchEvent) => {
-      const y = getPointerClientY(nativeEvent);
-      if (y !== null) {
-        nativeEvent.preventDefault();
-        updateEventDragPreview(y);
-      }
-    };
+            const next: ItineraryExpense[] = [];
+            snapshot.forEach((docSnapshot) => {
+              // Estimated timestamps keep expenses added offline in the order they were entered.
+              const normalizedExpense = normalizeItineraryExpense(
+                docSnapshot.id,
+                docSnapshot.data({ serverTimestamps: "estimate" })
+              );
+              if (normalizedExpense) {
+                next.push(normalizedExpense);
+              }
+            });
 
-    const commit = () => finalizeEventDrag(true);
-    const cancel = () => finalizeEventDrag(false);
+            next.sort((a, b) => (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0));
+            setExpenses(next);
+            setExpensesError(null);
+          },
+          (snapshotError) => {
+            if (!isActive) {
+              return;
+            }
 
-    window.addEventListener("pointermove", handlePointerMove);
-    window.addEventListener("pointerup", commit);
-    window.addEventListener("pointercancel", cancel);
-    window.addEventListener("mousemove", handleMouseMove);
-    window.addEventListener("mouseup", commit);
-    window.addEventListener("touchmove", handleTouchMove, { passive: false });
-    window.addEventListener("touchend", commit);
-    window.addEventListener("touchcancel", cancel);
+            setExpenses([]);
+            setExpensesError(deriveReadableError(snapshotError));
+          }
+        );
+      })
+      .catch((loadError) => {
+        if (isActive) {
+          setExpensesError(deriveReadableError(loadError));
+        }
+      });
 
     return () => {
-      window.removeEventListener("pointermove", handlePointerMove);
-      window.removeEventListener("pointerup", commit);
-      window.removeEventListener("pointercancel", cancel);
-      window.removeEventListener("mousemove", handleMouseMove);
-      window.removeEventListener("mouseup", commit);
-      window.removeEventListener("touchmove", handleTouchMove);
-      window.removeEventListener("touchend", commit);
-      window.removeEventListener("touchcancel", cancel);
+      isActive = false;
+      if (unsubscribe) {
+        unsubscribe();
+      }
     };
-  }, [eventDragState]);
-
-  const handleEventSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-
-    if (!itineraryId) {
-      setEventFormError("Itinerary reference missing.");
-      return;
-    }
+  }, [itineraryId]);
 
-    const trimmedTitle = eventDraft.title.trim();
-    if (!trimmedTitle) {
-      setEventFormError("Event title is required.");
-      return;
-    }
+  const homeCurrency = itinerary.homeCurrency ?? getDefaultCurrency();
+  const tripRates = itinerary.exchangeRates;
+  const memberNames = new Map(
+    members.map(([uid, member]) => [uid, formatMemberName(uid, member, currentUser.uid)])
+  );
+  const nameOf = (uid: string): string =>
+    memberNames.get(uid) ?? formatMemberName(uid, undefined, currentUser.uid);
+  const eventTitles = new Map(events.map((entry) => [entry.id, entry.title]));
 
-    const normalizedStartDate = normalizeDateInput(eventDraft.startDate);
-    const normalizedEndDate = normalizeDateInput(eventDraft.endDate);
+  const convertedExpenses = expenses.map((expense) => {
+    const rate = resolveExchangeRate(expense.currency, homeCurrency, { tripRates, override: expense.exchangeRate });
+    return { expense, homeAmount: convertAmount(expense.amount, rate, homeCurrency) };
+  });
+  // Expenses in a currency with no known rate are totalled and settled in that currency instead.
+  const unconverted = convertedExpenses.filter((entry) => entry.homeAmount === null).map((entry) => entry.expense);
+  const unconvertedCurrencies = Array.from(new Set(unconverted.map((expense) => expense.currency)));
+  const spent = sumAmounts(
+    convertedExpenses.map((entry) => entry.homeAmount ?? 0),
+    homeCurrency
+  );
+  const otherTotals = unconvertedCurrencies.map((currency) => ({
+    currency,
+    amount: sumAmounts(
+      unconverted.filter((expense) => expense.currency === currency).map((expense) => expense.amount),
+      currency
+    ),
+  }));
+  const shares = convertedExpenses.map(({ expense, homeAmount }) =>
+    homeAmount === null ? expense : { ...expense, amount: homeAmount, currency: homeCurrency }
+  );
+  const settlements = [homeCurrency, ...unconvertedCurrencies].flatMap((currency) =>
+    settleBalances(computeBalances(shares, currency), currency)
+  );
+  const planned = itinerary.budget
+    ? convertAmount(
+        itinerary.budget.amount,
+        resolveExchangeRate(itinerary.budget.currency, homeCurrency, { tripRates }),
+        homeCurrency
+      )
+    : null;
+  const remaining = planned === null ? null : planned - spent;
+  const foreignCurrencies = Array.from(
+    new Set([
+      ...expenses.map((expense) => expense.currency),
+      ...(tripRates?.currency === homeCurrency ? Object.keys(tripRates.rates) : []),
+    ])
+  )
+    .filter((currency) => currency !== homeCurrency)
+    .sort();
+
+  // Former members stay selectable on expenses that already involve them.
+  const expensePeople = expenseDraft
+    ? Array.from(new Set([...memberNames.keys(), expenseDraft.paidBy, ...expenseDraft.splitBetween]))
+    : [];
+
+  const startBudgetEdit = () => {
+    setFormError(null);
+    setExpenseDraft(null);
+    setRatesDraft(null);
+    setBudgetDraft({
+      amount: planned === null ? "" : String(planned),
+      currency: homeCurrency,
+    });
+  };
 
-    if (!normalizedStartDate || !normalizedEndDate) {
-      setEventFormError("Please provide both start and end dates.");
-      return;
-    }
+  const startRatesEdit = () => {
+    setFormError(null);
+    setExpenseDraft(null);
+    setBudgetDraft(null);
+    setRatesDraft(
+      Object.fromEntries(
+        foreignCurrencies.map((currency) => {
+          const tripRate = tripRates?.currency === homeCurrency ? tripRates.rates[currency] : undefined;
+          return [currency, tripRate ? String(tripRate) : ""];
+        })
+      )
+    );
+  };
 
-    const isoStart = combineDateWithTime(normalizedStartDate, eventDraft.startTime);
-    const isoEnd = combineDateWithTime(normalizedEndDate, eventDraft.endTime);
+  const openExpenseForm = (expense: ItineraryExpense | null) => {
+    setFormError(null);
+    setBudgetDraft(null);
+    setRatesDraft(null);
+    setEditingExpenseId(expense?.id ?? null);
+    setExpenseDraft(
+      expense
+        ? toExpenseDraft(expense, homeCurrency)
+        : {
+            title: "",
+            amount: "",
+            currency: homeCurrency,
+            category: "other",
+            paidBy: currentUser.uid,
+            splitBetween: Array.from(memberNames.keys()),
+            eventId: "",
+            exchangeRate: "",
+          }
+    );
+  };
 
-    if (!isoStart || !isoEnd) {
-      setEventFormError("Provide valid start and end times.");
-      return;
-    }
+  const closeExpenseForm = () => {
+    setExpenseDraft(null);
+    setEditingExpenseId(null);
+    setFormError(null);
+  };
 
-    if (isoStart >= isoEnd) {
-      setEventFormError("End time should come after the start time.");
-      return;
-    }
+  const handleBudgetSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
 
-    if (draft.startDate && normalizedStartDate < draft.startDate) {
-      setEventFormError("Event should fall within the trip date range.");
+    if (!budgetDraft) {
       return;
     }
 
-    if (draft.endDate && normalizedEndDate > draft.endDate) {
-      setEventFormError("Event should fall within the trip date range.");
+    const trimmedAmount = budgetDraft.amount.trim();
+    const amount = Number(trimmedAmount);
+    if (trimmedAmount && (!Number.isFinite(amount) || amount < 0)) {
+      setFormError("Enter the planned budget as a positive number.");
       return;
     }
 
-    const descriptionValue = eventDraft.description.trim();
-
-    setEventSaving(true);
-    setEventFormError(null);
-    setEventStatusMessage(null);
+    setFormError(null);
 
     try {
-      const [{ addDoc, collection, serverTimestamp }, firestore] = await Promise.all([
-        loadFirestoreModule(),
-        getFirestoreInstance(),
-      ]);
-
-      const eventsCollection = collection(firestore, "itineraries", itineraryId, "events");
-      await addDoc(eventsCollection, {
-        title: trimmedTitle,
-        description: descriptionValue ? descriptionValue : null,
-        startDateTime: isoStart,
-        endDateTime: isoEnd,
-        createdAt: serverTimestamp(),
-        ownerUid: currentUser.uid,
-      });
+      const [{ doc, updateDoc }, firestore] = await Promise.all([loadFirestoreModule(), getFirestoreInstance()]);
+      queueWrite(
+        updateDoc(doc(firestore, "itineraries", itineraryId), {
+          homeCurrency: budgetDraft.currency,
+          // Clearing the field removes the budget.
+          budget: trimmedAmount ? { amount, currency: budgetDraft.currency } : null,
+        }),
+        setFormError
+      );
 
-      setEventStatusMessage("Event created");
-      cancelEventCreation(true);
+      setBudgetDraft(null);
+      setStatusMessage("Budget updated");
     } catch (submissionError) {
-      setEventFormError(deriveReadableError(submissionError));
-    } finally {
-      setEventSaving(false);
+      setFormError(deriveReadableError(submissionError));
     }
   };
 
-  const totalTravellers =
-    draft.travellers.males + draft.travellers.females + draft.travellers.kids;
-  const travellerLabel = totalTravellers === 1 ? "traveller" : "travellers";
-  const formattedDateRange = formatDateRange(draft.startDate || null, draft.endDate || null);
-  const summaryBreakdown = [
-    { label: "Males", value: draft.travellers.males },
-    { label: "Females", value: draft.travellers.females },
-    { label: "Kids", value: draft.travellers.kids },
-  ];
-  const calendarDays = buildCalendarDays(draft.startDate || null, draft.endDate || null);
-  const shouldShowCalendar = calendarDays.length > 0;
-  const shouldShowScrollHint = calendarDays.length > 7;
-  const calendarRangeLabel = shouldShowCalendar
-    ? `Trip calendar covering ${formattedDateRange}`
-    : undefined;
-  const totalCalendarMinutes = calendarDays.length * TOTAL_DAY_MINUTES;
-
-  const floatingFormStyle: CSSProperties = eventFormPosition
-    ? {
-        top: `${eventFormPosition.top}px`,
-        left: `${eventFormPosition.left}px`,
-        opacity: 1,
-        pointerEvents: "auto",
-      }
-    : {
-        top: "0px",
-        left: "0px",
-        opacity: 0,
-        pointerEvents: "none",
-      };
-
-  const dayIndexMap = useMemo(() => {
-    const map = new Map<string, number>();
-    calendarDays.forEach((day, index) => map.set(day.iso, index));
-    return map;
-  }, [calendarDays]);
+  const handleRatesSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
 
-  const registerDayBodyRef = (date: string) => (element: HTMLDivElement | null) => {
-    if (element) {
-      dayBodyRefs.current.set(date, element);
-    } else {
-      dayBodyRefs.current.delete(date);
+    if (!ratesDraft) {
+      return;
     }
-  };
 
-  const updateEventFormPosition = useCallback(
-    (range: CalendarSelection, dimensions?: { width: number; height: number }) => {
-      const gridElement = calendarGridRef.current;
-      if (!gridElement) {
-        return;
+    const rates: Record<string, number> = {};
+    for (const [currency, value] of Object.entries(ratesDraft)) {
+      if (!value.trim()) {
+        continue;
       }
 
-      const startDayElement = dayBodyRefs.current.get(range.startDate);
-      if (!startDayElement) {
-        setEventFormPosition(null);
+      const rate = Number(value);
+      if (!isValidExchangeRate(rate)) {
+        setFormError(`Enter the ${currency} rate as a number greater than zero.`);
         return;
       }
 
-      const formWidth = dimensions?.width ?? CALENDAR_FORM_WIDTH_PX;
-      const formHeight = dimensions?.height ?? CALENDAR_FORM_HEIGHT_PX;
-
-      const gridRect = gridElement.getBoundingClientRect();
-      const dayBodyRect = startDayElement.getBoundingClientRect();
-
-      const selectionStartOffset =
-        dayBodyRect.top - gridRect.top + (range.startMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
-      const selectionEndOffset =
-        dayBodyRect.top - gridRect.top + (range.endMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
-      const selectionCenter = (selectionStartOffset + selectionEndOffset) / 2;
+      rates[currency] = rate;
+    }
 
-      const maxTop = Math.max(
-        gridElement.scrollHeight - formHeight - CALENDAR_FORM_GUTTER_PX,
-        CALENDAR_FORM_GUTTER_PX
-      );
-      let top = selectionCenter - formHeight / 2;
-      if (!Number.isFinite(top)) {
-        top = 0;
-      }
-      top = Math.max(CALENDAR_FORM_GUTTER_PX, Math.min(top, maxTop));
+    setFormError(null);
 
-      const offsetLeft = dayBodyRect.left - gridRect.left;
-      const preferredLeft = offsetLeft + startDayElement.clientWidth + CALENDAR_FORM_GUTTER_PX;
-      const maxLeft = Math.max(
-        gridElement.scrollWidth - formWidth - CALENDAR_FORM_GUTTER_PX,
-        CALENDAR_FORM_GUTTER_PX
+    try {
+      const [{ doc, updateDoc }, firestore] = await Promise.all([loadFirestoreModule(), getFirestoreInstance()]);
+      queueWrite(
+        updateDoc(doc(firestore, "itineraries", itineraryId), {
+          exchangeRates: { currency: homeCurrency, rates },
+        }),
+        setFormError
       );
-      let left = Math.max(CALENDAR_FORM_GUTTER_PX, Math.min(preferredLeft, maxLeft));
-      let placement: "left" | "right" = "right";
-
-      if (preferredLeft > maxLeft && offsetLeft > formWidth + CALENDAR_FORM_GUTTER_PX) {
-        left = Math.max(CALENDAR_FORM_GUTTER_PX, offsetLeft - formWidth - CALENDAR_FORM_GUTTER_PX);
-        placement = "left";
-      }
 
-      setEventFormPlacement(placement);
-      setEventFormPosition((previous) => {
-        if (previous && Math.abs(previous.top - top) < 0.5 && Math.abs(previous.left - left) < 0.5) {
-          return previous;
-        }
+      setRatesDraft(null);
+      setStatusMessage("Exchange rates updated");
+    } catch (submissionError) {
+      setFormError(deriveReadableError(submissionError));
+    }
+  };
 
-        return { top, left };
-      });
-    },
-    []
-  );
+  const handleExpenseSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
 
-  useEffect(() => {
-    if (!showEventForm || !selectionRange) {
+    if (!expenseDraft) {
       return;
     }
 
-    const update = () => {
-      const width = eventFormRef.current?.offsetWidth ?? CALENDAR_FORM_WIDTH_PX;
-      const height = eventFormRef.current?.offsetHeight ?? CALENDAR_FORM_HEIGHT_PX;
-      updateEventFormPosition(selectionRange, { width, height });
-    };
-
-    update();
-
-    window.addEventListener("resize", update);
-    return () => {
-      window.removeEventListener("resize", update);
-    };
-  }, [showEventForm, selectionRange, updateEventFormPosition, calendarDays]);
-
-  useEffect(() => {
-    if (!showEventForm) {
-      setEventFormPosition(null);
-      setEventFormPlacement("right");
+    const trimmedTitle = expenseDraft.title.trim();
+    if (!trimmedTitle) {
+      setFormError("Describe what the expense was for.");
+      return;
     }
-  }, [showEventForm]);
 
-  const normalizeSelection = (
-    anchorDate: string,
-    anchorMinutes: number,
-    targetDate: string,
-    targetMinutes: number
-  ): CalendarSelection => {
-    if (!calendarDays.length) {
-      return {
-        startDate: anchorDate,
-        startMinutes: clampMinutes(anchorMinutes),
-        endDate: targetDate,
-        endMinutes: clampMinutes(targetMinutes),
-      };
+    const amount = Number(expenseDraft.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setFormError("Enter an amount greater than zero.");
+      return;
     }
 
-    const anchorIndex = dayIndexMap.get(anchorDate) ?? 0;
-    const targetIndex = dayIndexMap.get(targetDate) ?? anchorIndex;
-
-    let anchorAbs = anchorIndex * TOTAL_DAY_MINUTES + clampMinutes(anchorMinutes);
-    let targetAbs = targetIndex * TOTAL_DAY_MINUTES + clampMinutes(targetMinutes);
+    if (!expenseDraft.splitBetween.length) {
+      setFormError("Choose at least one person to split the expense between.");
+      return;
+    }
 
-    let startAbs = Math.min(anchorAbs, targetAbs);
-    let endAbs = Math.max(anchorAbs, targetAbs);
+    const trimmedRate = expenseDraft.currency === homeCurrency ? "" : expenseDraft.exchangeRate.trim();
+    const exchangeRate = Number(trimmedRate);
+    if (trimmedRate && !isValidExchangeRate(exchangeRate)) {
+      setFormError("Enter the exchange rate as a number greater than zero, or leave it blank to use the trip rate.");
+      return;
+    }
 
-    const maxAbs = Math.max(totalCalendarMinutes - MIN_EVENT_DURATION, MIN_EVENT_DURATION);
-    startAbs = Math.max(0, Math.min(startAbs, maxAbs));
-    endAbs = Math.max(startAbs + MIN_EVENT_DURATION, Math.min(endAbs, totalCalendarMinutes));
+    setFormError(null);
 
-    const startDayIndex = Math.min(
-      Math.floor(startAbs / TOTAL_DAY_MINUTES),
-      Math.max(calendarDays.length - 1, 0)
-    );
-    const endDayIndex = Math.min(
-      Math.floor((endAbs - 1) / TOTAL_DAY_MINUTES),
-      Math.max(calendarDays.length - 1, 0)
-    );
+    try {
+      const [{ addDoc, collection, doc, serverTimestamp, updateDoc }, firestore] = await Promise.all([
+        loadFirestoreModule(),
+        getFirestoreInstance(),
+      ]);
 
-    const normalizedStartMinutes = clampMinutes(startAbs - startDayIndex * TOTAL_DAY_MINUTES);
-    let normalizedEndMinutes = endAbs - endDayIndex * TOTAL_DAY_MINUTES;
-    if (normalizedEndMinutes === 0) {
-      normalizedEndMinutes = TOTAL_DAY_MINUTES;
-    }
+      const expenseFields = {
+        title: trimmedTitle,
+        amount,
+        currency: expenseDraft.currency,
+        category: expenseDraft.category,
+        paidBy: expenseDraft.paidBy,
+        splitBetween: expenseDraft.splitBetween,
+        eventId: expenseDraft.eventId || null,
+        exchangeRate: trimmedRate ? { currency: homeCurrency, rate: exchangeRate } : null,
+      };
 
-    return {
-      startDate: calendarDays[startDayIndex]?.iso ?? anchorDate,
-      startMinutes: normalizedStartMinutes,
-      endDate: calendarDays[endDayIndex]?.iso ?? targetDate,
-      endMinutes: clampMinutes(normalizedEndMinutes),
-    };
-  };
+      if (editingExpenseId) {
+        queueWrite(
+          updateDoc(doc(firestore, "itineraries", itineraryId, "expenses", editingExpenseId), expenseFields),
+          setStatusMessage
+        );
+        setStatusMessage("Expense updated");
+      } else {
+        queueWrite(
+          addDoc(collection(firestore, "itineraries", itineraryId, "expenses"), {
+            ...expenseFields,
+            createdAt: serverTimestamp(),
+            ownerUid: currentUser.uid,
+          }),
+          setStatusMessage
+        );
+        setStatusMessage("Expense added");
+      }
 
-  const toAbsoluteMinutes = (date: string, minutes: number): number | null => {
-    const index = dayIndexMap.get(date);
-    if (index === undefined) {
-      return null;
+      closeExpenseForm();
+    } catch (submissionError) {
+      setFormError(deriveReadableError(submissionError));
     }
-
-    return index * TOTAL_DAY_MINUTES + clampMinutes(minutes);
   };
 
-  const deriveDayCoverage = (selection: CalendarSelection | null, date: string) => {
-    if (!selection) {
-      return null;
+  const handleExpenseDelete = async () => {
+    if (!editingExpenseId) {
+      return;
     }
 
-    const selectionStartAbs = toAbsoluteMinutes(selection.startDate, selection.startMinutes);
-    const selectionEndAbs = toAbsoluteMinutes(selection.endDate, selection.endMinutes);
-    const dayStartAbs = toAbsoluteMinutes(date, 0);
-    const dayEndAbs = toAbsoluteMinutes(date, TOTAL_DAY_MINUTES);
+    try {
+      const [{ deleteDoc, doc }, firestore] = await Promise.all([loadFirestoreModule(), getFirestoreInstance()]);
+      queueWrite(deleteDoc(doc(firestore, "itineraries", itineraryId, "expenses", editingExpenseId)), setStatusMessage);
 
-    if (
-      selectionStartAbs === null ||
-      selectionEndAbs === null ||
-      dayStartAbs === null ||
-      dayEndAbs === null ||
-      selectionEndAbs <= dayStartAbs ||
-      selectionStartAbs >= dayEndAbs
-    ) {
-      return null;
+      setStatusMessage("Expense deleted");
+      closeExpenseForm();
+    } catch (deleteError) {
+      setFormError(deriveReadableError(deleteError));
     }
+  };
 
-    const start = Math.max(selectionStartAbs, dayStartAbs);
-    const end = Math.min(selectionEndAbs, dayEndAbs);
-
-    return {
-      startMinutes: start - dayStartAbs,
-      endMinutes: end - dayStartAbs,
-    };
+  const toggleSplitPerson = (uid: string, included: boolean) => {
+    setExpenseDraft((previous) =>
+      previous
+        ? {
+            ...previous,
+            splitBetween: included
+              ? Array.from(new Set([...previous.splitBetween, uid]))
+              : previous.splitBetween.filter((entry) => entry !== uid),
+          }
+        : previous
+    );
   };
 
+  const currencyOptions = listCurrencyCodes();
+  // The rate an expense falls back to when its own override is left blank.
+  const draftTripRate = expenseDraft ? resolveExchangeRate(expenseDraft.currency, homeCurrency, { tripRates }) : null;
+
   return (
-    <section className="card itinerary-builder" aria-live="polite">
-      {loading ? (
-        <p className="muted">Loading itinerary...</p>
-      ) : loadError ? (
-        <div className="builder-state">
-          <p className="error" role="alert">
-            {loadError}
-          </p>
-          <button className="secondary" type="button" onClick={() => navigate("/")}>
-            Back to itineraries
-          </button>
-        </div>
-      ) : itinerary ? (
-        <>
-          <header className="builder-header">
-            <div>
-              <h2>{draft.title.trim() || itinerary.title}</h2>
-              <p className="muted">
-                {formattedDateRange} · {totalTravellers} {travellerLabel}
-              </p>
-            </div>
-            <div className="builder-header-actions">
-              <button className="secondary" type="button" onClick={() => navigate("/")}>
-                Back to itineraries
-              </button>
-              <button
-                className="secondary"
-                type="button"
-                onClick={isEditingSidebar ? cancelSidebarEdit : startSidebarEdit}
+    <section className="budget-panel" aria-labelledby="trip-budget-heading">
+      <h3 id="trip-budget-heading">Budget</h3>
+
+      {budgetDraft ? (
+        <form className="builder-form sidebar-form" onSubmit={handleBudgetSubmit}>
+          <div className="money-fields">
+            <label className="field compact-field">
+              <span>Planned budget</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                inputMode="decimal"
+                value={budgetDraft.amount}
+                onChange={(event) =>
+                  setBudgetDraft((previous) => (previous ? { ...previous, amount: event.target.value } : previous))
+                }
+                placeholder="Not set"
+              />
+            </label>
+            <label className="field compact-field">
+              <span>Home currency</span>
+              <select
+                value={budgetDraft.currency}
+                onChange={(event) =>
+                  setBudgetDraft((previous) => (previous ? { ...previous, currency: event.target.value } : previous))
+                }
               >
-                {isEditingSidebar ? "Cancel" : "Edit trip"}
-              </button>
+                {currencyOptions.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="form-note">Totals and the settlement are reported in the home currency.</p>
+          <div className="edit-actions">
+            <button className="primary" type="submit">
+              Save budget
+            </button>
+            <button className="link-button" type="button" onClick={() => setBudgetDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <dl className="summary-list">
+          <div className="summary-item">
+            <dt>Planned</dt>
+            <dd>
+              {planned === null ? "Not set" : formatMoney(planned, homeCurrency)}
+              {canEdit ? (
+                <>
+                  {" "}
+                  <button className="link-button" type="button" onClick={startBudgetEdit}>
+                    {planned === null ? "Set budget" : "Change"}
+                  </button>
+                </>
+              ) : null}
+            </dd>
+          </div>
+          <div className="summary-item">
+            <dt>Spent</dt>
+            <dd>{formatMoney(spent, homeCurrency)}</dd>
+          </div>
+          {remaining !== null ? (
+            <div className="summary-item">
+              <dt>{remaining < 0 ? "Over budget" : "Remaining"}</dt>
+              <dd className={remaining < 0 ? "budget-over" : undefined}>
+                {formatMoney(Math.abs(remaining), homeCurrency)}
+              </dd>
             </div>
-          </header>
+          ) : null}
+        </dl>
+      )}
 
-          <div className="builder-layout">
-            <aside className="builder-sidebar">
-              <h3>Trip details</h3>
+      {planned !== null && planned > 0 ? (
+        <meter
+          className="budget-meter"
+          min={0}
+          max={planned}
+          high={planned * 0.9}
+          optimum={0}
+          value={Math.min(spent, planned)}
+          aria-label="Budget used"
+        />
+      ) : null}
 
-              {isEditingSidebar ? (
-                <form className="builder-form sidebar-form" onSubmit={handleDetailSubmit}>
-                  <label className="field">
-                    <span>Itinerary name</span>
-                    <input
-                      type="text"
-                      value={draft.title}
-                      onChange={(event) =>
-                        setDraft((prev) => ({
-                          ...prev,
-                          title: event.target.value,
-                        }))
-                      }
-                      required
-                      disabled={saving}
-                    />
-                  </label>
+      {otherTotals.length ? (
+        <p className="form-note">
+          Also spent {otherTotals.map((entry) => formatMoney(entry.amount, entry.currency)).join(", ")}, not counted
+          in the {homeCurrency} total until a rate is set.
+        </p>
+      ) : null}
 
-                  <div className="date-grid">
-                    <label className="field compact-field">
-                      <span>Start date</span>
-                      <input
-                        type="date"
-                        value={draft.startDate}
-                        onChange={(event) =>
-                          setDraft((prev) => ({
-                            ...prev,
-                            startDate: event.target.value,
-                          }))
-                        }
-                        required
-                        disabled={saving}
-                      />
-                    </label>
-                    <label className="field compact-field">
-                      <span>End date</span>
-                      <input
-                        type="date"
-                        value={draft.endDate}
-                        onChange={(event) =>
-                          setDraft((prev) => ({
-                            ...prev,
-                            endDate: event.target.value,
-                          }))
-                        }
-                        required
-                        disabled={saving}
-                      />
-                    </label>
-                  </div>
+      {ratesDraft ? (
+        <form className="builder-form sidebar-form" onSubmit={handleRatesSubmit}>
+          <fieldset className="rate-fields">
+            <legend>Exchange rates into {homeCurrency}</legend>
+            {Object.entries(ratesDraft).map(([currency, value]) => {
+              const fallback = resolveExchangeRate(currency, homeCurrency);
+              return (
+                <label key={currency} className="rate-field">
+                  <span>1 {currency} =</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    inputMode="decimal"
+                    value={value}
+                    onChange={(event) =>
+                      setRatesDraft((previous) =>
+                        previous ? { ...previous, [currency]: event.target.value } : previous
+                      )
+                    }
+                    placeholder={fallback ? String(roundExchangeRate(fallback.rate)) : "Unknown"}
+                  />
+                  <span>{homeCurrency}</span>
+                </label>
+              );
+            })}
+          </fieldset>
+          <p className="form-note">Blank rates use the approximate table bundled with Travelio ({BUNDLED_RATES_AS_OF}).</p>
+          <div className="edit-actions">
+            <button className="primary" type="submit">
+              Save rates
+            </button>
+            <button className="link-button" type="button" onClick={() => setRatesDraft(null)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : foreignCurrencies.length ? (
+        <div className="exchange-rates">
+          <h4>Exchange rates</h4>
+          <ul className="settlement-list">
+            {foreignCurrencies.map((currency) => {
+              const rate = resolveExchangeRate(currency, homeCurrency, { tripRates });
+              return (
+                <li key={currency}>
+                  <span>
+                    1 {currency}
+                    {rate && rate.source !== "same" && rate.source !== "expense" ? (
+                      <span className="expense-meta"> · {EXCHANGE_RATE_SOURCE_LABELS[rate.source]}</span>
+                    ) : null}
+                  </span>
+                  <span>{rate ? `${roundExchangeRate(rate.rate)} ${homeCurrency}` : "No rate"}</span>
+                </li>
+              );
+            })}
+          </ul>
+          {canEdit ? (
+            <button className="link-button" type="button" onClick={startRatesEdit}>
+              Edit rates
+            </button>
+          ) : null}
+        </div>
+      ) : null}
 
-                  <div className="traveller-grid">
-                    <label className="field compact-field">
-                      <span>Males</span>
-                      <input
-                        type="number"
-                        min={0}
-                        value={draft.travellers.males}
-                        onChange={(event) =>
-                          setDraft((prev) => ({
-                            ...prev,
-                            travellers: {
-                              ...prev.travellers,
-                              males: coerceTravellerCount(event.target.value),
-                            },
-                          }))
-                        }
-                        disabled={saving}
-                        inputMode="numeric"
-                        pattern="\\d*"
-                      />
-                    </label>
-                    <label className="field compact-field">
-                      <span>Females</span>
-                      <input
-                        type="number"
-                        min={0}
-                        value={draft.travellers.females}
-                        onChange={(event) =>
-                          setDraft((prev) => ({
-                            ...prev,
-                            travellers: {
-                              ...prev.travellers,
-                              females: coerceTravellerCount(event.target.value),
-                            },
-                          }))
-                        }
-                        disabled={saving}
-                        inputMode="numeric"
-                        pattern="\\d*"
-                      />
-                    </label>
-                    <label className="field compact-field">
-                      <span>Kids</span>
-                      <input
-                        type="number"
-                        min={0}
-                        value={draft.travellers.kids}
-                        onChange={(event) =>
-                          setDraft((prev) => ({
-                            ...prev,
-                            travellers: {
-                              ...prev.travellers,
-                              kids: coerceTravellerCount(event.target.value),
-                            },
-                          }))
-                        }
-                        disabled={saving}
-                        inputMode="numeric"
-                        pattern="\\d*"
-                      />
-                    </label>
-                  </div>
+      {expenses.length ? (
+        <ul className="expense-list">
+          {convertedExpenses.map(({ expense, homeAmount }) => {
+            const linkedEventTitle = expense.eventId ? eventTitles.get(expense.eventId) : undefined;
+            const content = (
+              <>
+                <span className="expense-heading">
+                  <span className="expense-title">{expense.title}</span>
+                  <span className="expense-amount">{formatMoney(expense.amount, expense.currency)}</span>
+                </span>
+                <span className="expense-meta">
+                  {EXPENSE_CATEGORY_LABELS[expense.category]} · paid by {nameOf(expense.paidBy)}
+                  {expense.splitBetween.length > 1 ? ` · split ${expense.splitBetween.length} ways` : ""}
+                  {linkedEventTitle ? ` · ${linkedEventTitle}` : ""}
+                  {expense.currency !== homeCurrency && homeAmount !== null
+                    ? ` · ≈ ${formatMoney(homeAmount, homeCurrency)}`
+                    : ""}
+                </span>
+              </>
+            );
+
+            return (
+              <li key={expense.id} className="expense-item">
+                {canEdit ? (
+                  <button
+                    type="button"
+                    className="expense-button"
+                    onClick={() => openExpenseForm(expense)}
+                    aria-label={`Edit expense ${expense.title}`}
+                  >
+                    {content}
+                  </button>
+                ) : (
+                  content
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="form-note">No expenses recorded yet.</p>
+      )}
+
+      {expenseDraft ? (
+        <form className="builder-form sidebar-form expense-form" onSubmit={handleExpenseSubmit}>
+          <label className="field">
+            <span>What for</span>
+            <input
+              type="text"
+              value={expenseDraft.title}
+              onChange={(event) =>
+                setExpenseDraft((previous) => (previous ? { ...previous, title: event.target.value } : previous))
+              }
+              placeholder="Dinner at the harbour"
+              required
+            />
+          </label>
+          <div className="money-fields">
+            <label className="field compact-field">
+              <span>Amount</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                inputMode="decimal"
+                value={expenseDraft.amount}
+                onChange={(event) =>
+                  setExpenseDraft((previous) => (previous ? { ...previous, amount: event.target.value } : previous))
+                }
+                required
+              />
+            </label>
+            <label className="field compact-field">
+              <span>Currency</span>
+              <select
+                value={expenseDraft.currency}
+                onChange={(event) =>
+                  setExpenseDraft((previous) => (previous ? { ...previous, currency: event.target.value } : previous))
+                }
+              >
+                {currencyOptions.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {expenseDraft.currency !== homeCurrency ? (
+            <label className="rate-field">
+              <span>1 {expenseDraft.currency} =</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                inputMode="decimal"
+                value={expenseDraft.exchangeRate}
+                onChange={(event) =>
+                  setExpenseDraft((previous) =>
+                    previous ? { ...previous, exchangeRate: event.target.value } : previous
+                  )
+                }
+                placeholder={draftTripRate ? String(roundExchangeRate(draftTripRate.rate)) : "Unknown"}
+                aria-label={`Exchange rate from ${expenseDraft.currency} to ${homeCurrency} for this expense`}
+              />
+              <span>{homeCurrency}</span>
+            </label>
+          ) : null}
+          <label className="field">
+            <span>Category</span>
+            <select
+              value={expenseDraft.category}
+              onChange={(event) =>
+                setExpenseDraft((previous) =>
+                  previous ? { ...previous, category: event.target.value as ExpenseCategory } : previous
+                )
+              }
+            >
+              {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map((category) => (
+                <option key={category} value={category}>
+                  {EXPENSE_CATEGORY_LABELS[category]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>Paid by</span>
+            <select
+              value={expenseDraft.paidBy}
+              onChange={(event) =>
+                setExpenseDraft((previous) => (previous ? { ...previous, paidBy: event.target.value } : previous))
+              }
+            >
+              {expensePeople.map((uid) => (
+                <option key={uid} value={uid}>
+                  {nameOf(uid)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <fieldset className="split-options">
+            <legend>Split evenly between</legend>
+            {expensePeople.map((uid) => (
+              <label key={uid} className="toggle-field">
+                <input
+                  type="checkbox"
+                  checked={expenseDraft.splitBetween.includes(uid)}
+                  onChange={(event) => toggleSplitPerson(uid, event.target.checked)}
+                />
+                <span>{nameOf(uid)}</span>
+              </label>
+            ))}
+          </fieldset>
+          <label className="field">
+            <span>Linked event</span>
+            <select
+              value={expenseDraft.eventId}
+              onChange={(event) =>
+                setExpenseDraft((previous) => (previous ? { ...previous, eventId: event.target.value } : previous))
+              }
+            >
+              <option value="">None</option>
+              {events.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="edit-actions">
+            <button className="primary" type="submit">
+              {editingExpenseId ? "Save expense" : "Add expense"}
+            </button>
+            {editingExpenseId ? (
+              <button className="link-button link-button--danger" type="button" onClick={handleExpenseDelete}>
+                Delete
+              </button>
+            ) : null}
+            <button className="link-button" type="button" onClick={closeExpenseForm}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : canEdit ? (
+        <button className="secondary" type="button" onClick={() => openExpenseForm(null)}>
+          Add expense
+        </button>
+      ) : null}
+
+      {formError ? (
+        <p className="error" role="alert">
+          {formError}
+        </p>
+      ) : null}
+      {expensesError ? (
+        <p className="error" role="alert">
+          {expensesError}
+        </p>
+      ) : null}
+      {statusMessage ? (
+        <p className="profile-status sidebar-status" role="status">
+          {statusMessage}
+        </p>
+      ) : null}
 
-                  {formError ? (
-                    <p className="error" role="alert">
-                      {formError}
-                    </p>
-                  ) : null}
+      {expenses.length ? (
+        <div className="settlement">
+          <h4>Settle up</h4>
+          {settlements.length ? (
+            <ul className="settlement-list">
+              {settlements.map((settlement) => (
+                <li key={`${settlement.currency}:${settlement.from}:${settlement.to}`}>
+                  <span>
+                    {nameOf(settlement.from)} → {nameOf(settlement.to)}
+                  </span>
+                  <span>{formatMoney(settlement.amount, settlement.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="form-note">Everyone is square.</p>
+          )}
+        </div>
+      ) : null}
+    </section>
+  );
+}
 
-                  <button className="primary" type="submit" disabled={saving}>
-                    {saving ? "Saving..." : "Save changes"}
-                  </button>
-                </form>
-              ) : (
-                <>
-                  <dl className="summary-list">
-                    <div className="summary-item">
-                      <dt>Name</dt>
-                      <dd>{draft.title.trim() || itinerary.title}</dd>
-                    </div>
-                    <div className="summary-item">
-                      <dt>Date range</dt>
-                      <dd>{formattedDateRange}</dd>
-                    </div>
-                    <div className="summary-item">
-                      <dt>Total travellers</dt>
-                      <dd>
-                        {totalTravellers} {travellerLabel}
-                      </dd>
-                    </div>
-                    <div className="summary-item">
-                      <dt>Breakdown</dt>
-                      <dd>
-                        <ul className="summary-breakdown">
-                          {summaryBreakdown.map((entry) => (
-                            <li key={entry.label}>
-                              <span>{entry.label}</span>
-                              <span>{entry.value}</span>
-                            </li>
-                          ))}
-                        </ul>
-                      </dd>
-                    </div>
-                  </dl>
-                  {statusMessage ? (
-                    <p className="profile-status sidebar-status" role="status">
-                      {statusMessage}
-                    </p>
-                  ) : null}
-                </>
-              )}
-            </aside>
-            <div className={`builder-main${shouldShowCalendar ? "" : " builder-main--empty"}`}>
-              <section className="calendar-panel" aria-labelledby="trip-calendar-heading">
-                <header className="calendar-header">
-                  <div>
-                    <h3 id="trip-calendar-heading">Trip calendar</h3>
-                    <p className="muted">Visualise the day-by-day flow of this trip.</p>
-                  </div>
-                  {shouldShowScrollHint ? (
-                    <p className="calendar-hint" role="note">
-                      Scroll horizontally to view every day in the range.
-                    </p>
-                  ) : null}
-                </header>
+// Size of the trip map's drawing area; the SVG scales to the panel's width.
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 360;
 
-                {shouldShowCalendar ? (
-                  <>
-                    {eventsError ? (
-                      <p className="error" role="alert">
-                        {eventsError}
-                      </p>
-                    ) : null}
-                    <div className="calendar-scroll" role="group" aria-label={calendarRangeLabel}>
-                      <div className="calendar-grid" ref={calendarGridRef}>
-                        <div className="calendar-time-column" aria-hidden="true">
-                          <div className="calendar-time-spacer" />
-                          {HOUR_MARKERS.map((hour) => (
-                            <div key={hour} className="calendar-hour-cell">
-                              {formatHourLabel(hour)}
-                            </div>
-                          ))}
-                        </div>
-                        {calendarDays.map((day) => {
-                          const daySegments: CalendarSegment[] = events
-                            .map((entry) => {
-                              const parsedStart = parseIsoLocalDateTime(entry.startDateTime);
-                              const parsedEnd = parseIsoLocalDateTime(entry.endDateTime);
-
-                              if (!parsedStart || !parsedEnd) {
-                                return null;
-                              }
+// Slippy map tile URL with {z}, {x} and {y} placeholders. Set it to a local tile server to test without the
+// network, or to an empty string to draw the route on a plain background.
+const MAP_TILE_URL: string = import.meta.env.VITE_MAP_TILE_URL ?? "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const MAP_TILE_ATTRIBUTION: string = import.meta.env.VITE_MAP_TILE_ATTRIBUTION ?? "© OpenStreetMap contributors";
 
-                              const eventStartAbs = toAbsoluteMinutes(
-                                parsedStart.date,
-                                parsedStart.hours * 60 + parsedStart.minutes
-                              );
-                              const eventEndAbs = toAbsoluteMinutes(
-                                parsedEnd.date,
-                                parsedEnd.hours * 60 + parsedEnd.minutes
-                              );
-                              const dayStartAbs = toAbsoluteMinutes(day.iso, 0);
-                              const dayEndAbs = toAbsoluteMinutes(day.iso, TOTAL_DAY_MINUTES);
-
-                              if (
-                                eventStartAbs === null ||
-                                eventEndAbs === null ||
-                                dayStartAbs === null ||
-                                dayEndAbs === null ||
-                                eventEndAbs <= dayStartAbs ||
-                                eventStartAbs >= dayEndAbs
-                              ) {
-                                return null;
-                              }
+type TripMapStop = {
+  event: ItineraryEvent;
+  point: GeoPoint;
+};
 
-                              const segmentStartMinutes = Math.max(eventStartAbs, dayStartAbs) - dayStartAbs;
-                              const segmentEndMinutes = Math.min(eventEndAbs, dayEndAbs) - dayStartAbs;
+// One day's stops in order, joined by a straight-line route. Tiles are decoration: the stops and route are drawn
+// from the stored coordinates, so the map still works offline or with tiles turned off.
+function TripMap({
+  days,
+  events,
+  onSelectEvent,
+}: {
+  days: CalendarDay[];
+  events: ItineraryEvent[];
+  onSelectEvent: (event: ItineraryEvent) => void;
+}) {
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const eventsByDay = new Map<string, ItineraryEvent[]>();
+  events.forEach((entry) => {
+    const date = entry.startDateTime.slice(0, 10);
+    eventsByDay.set(date, [...(eventsByDay.get(date) ?? []), entry]);
+  });
+  const hasStops = (iso: string) => (eventsByDay.get(iso) ?? []).some((entry) => getLocationPoint(entry.location));
+  const activeDay =
+    days.find((day) => day.iso === selectedDay) ?? days.find((day) => hasStops(day.iso)) ?? days[0] ?? null;
 
-                              return {
-                                event: entry,
-                                segmentStartMinutes: clampMinutes(segmentStartMinutes),
-                                segmentEndMinutes: clampMinutes(segmentEndMinutes),
-                                isStartSegment: eventStartAbs >= dayStartAbs,
-                                isEndSegment: eventEndAbs <= dayEndAbs,
-                              };
-                            })
-                            .filter((segment): segment is CalendarSegment =>
-                              Boolean(segment && segment.segmentEndMinutes > segment.segmentStartMinutes)
-                            )
-                            .sort((a, b) => a.segmentStartMinutes - b.segmentStartMinutes);
+  const dayEvents = [...(eventsByDay.get(activeDay?.iso ?? "") ?? [])].sort(
+    (first, second) => (getEventInstantRange(first)?.start ?? 0) - (getEventInstantRange(second)?.start ?? 0)
+  );
+  const stops = dayEvents.flatMap((entry): TripMapStop[] => {
+    const point = getLocationPoint(entry.location);
+    return point ? [{ event: entry, point }] : [];
+  });
+  const unplaced = dayEvents.filter((entry) => !getLocationPoint(entry.location));
+  const view = fitMapView(stops.map((stop) => stop.point), MAP_WIDTH, MAP_HEIGHT);
+  const placed = stops.map((stop) => ({ ...stop, ...placeInView(stop.point, view, MAP_WIDTH, MAP_HEIGHT) }));
+  const tiles = MAP_TILE_URL && stops.length ? listMapTiles(MAP_TILE_URL, view, MAP_WIDTH, MAP_HEIGHT) : [];
 
-                          const layoutSegments = layoutSegmentsWithColumns(daySegments);
+  return (
+    <section className="calendar-panel trip-map-panel" aria-labelledby="trip-map-heading">
+      <header className="calendar-header">
+        <div>
+          <h3 id="trip-map-heading">Day map</h3>
+          <p className="muted">Where each day's events are, in the order they happen.</p>
+        </div>
+        <label className="field trip-map-day">
+          <span>Day</span>
+          <select value={activeDay?.iso ?? ""} onChange={(event) => setSelectedDay(event.target.value)}>
+            {days.map((day, dayIndex) => (
+              <option key={day.iso} value={day.iso}>
+                Day {dayIndex + 1} · {day.weekdayLabel} {day.dateLabel}
+                {hasStops(day.iso) ? "" : " (no locations)"}
+              </option>
+            ))}
+          </select>
+        </label>
+      </header>
 
-                          return (
-                            <div
-                              key={day.iso}
-                              className={`calendar-day-column${day.isToday ? " calendar-day-column--today" : ""}`}
-                            >
-                              <div className="calendar-day-header">
-                                <span className="calendar-weekday">{day.weekdayLabel}</span>
-                                <span className="calendar-date">{day.dateLabel}</span>
-                              </div>
-                              <div className="calendar-day-body" ref={registerDayBodyRef(day.iso)}>
-                                <div className="calendar-selection-overlay" aria-hidden="true">
-                                  {(() => {
-                                    const coverage = deriveDayCoverage(dragSelection || selectionRange, day.iso);
-                                    if (!coverage) {
-                                      return null;
-                                    }
+      {stops.length ? (
+        <figure className="trip-map">
+          <svg
+            className="trip-map-canvas"
+            viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+            role="img"
+            aria-label={`Route: ${stops.map((stop) => stop.event.title).join(", then ")}`}
+          >
+            <rect className="trip-map-background" width={MAP_WIDTH} height={MAP_HEIGHT} />
+            {tiles.map((tile) => (
+              <image
+                key={tile.key}
+                href={tile.url}
+                x={tile.left}
+                y={tile.top}
+                width={TILE_SIZE}
+                height={TILE_SIZE}
+              />
+            ))}
+            {placed.length > 1 ? (
+              <polyline
+                className="trip-map-route"
+                points={placed.map((stop) => `${stop.x},${stop.y}`).join(" ")}
+              />
+            ) : null}
+            {placed.map((stop, index) => (
+              <g key={stop.event.id} className="trip-map-stop" transform={`translate(${stop.x} ${stop.y})`}>
+                <circle r={11} />
+                <text textAnchor="middle" dy={4}>
+                  {index + 1}
+                </text>
+              </g>
+            ))}
+          </svg>
+          {tiles.length && MAP_TILE_ATTRIBUTION ? (
+            <figcaption className="trip-map-attribution">{MAP_TILE_ATTRIBUTION}</figcaption>
+          ) : null}
+        </figure>
+      ) : (
+        <p className="muted">
+          No events with coordinates on this day. Add a location with coordinates or a map link to put an event on
+          the map.
+        </p>
+      )}
 
-                                    const startOffset = (coverage.startMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
-                                    const height = ((coverage.endMinutes - coverage.startMinutes) / 60) *
-                                      CALENDAR_SLOT_HEIGHT_PX;
+      {stops.length ? (
+        <ol className="trip-map-stops">
+          {stops.map((stop) => (
+            <li key={stop.event.id}>
+              <button type="button" className="link-button" onClick={() => onSelectEvent(stop.event)}>
+                {formatTimeLabelFromIso(stop.event.startDateTime)} · {stop.event.title}
+              </button>
+              <span className="muted">{formatEventLocation(stop.event)}</span>
+            </li>
+          ))}
+        </ol>
+      ) : null}
+      {stops.length && unplaced.length ? (
+        <p className="form-note">Not on the map: {unplaced.map((entry) => entry.title).join(", ")}.</p>
+      ) : null}
+    </section>
+  );
+}
 
-                                    return (
-                                      <div
-                                        className="calendar-selection-block"
-                                        style={{
-                                          top: `${startOffset}px`,
-                                          height: `${Math.max(height, 4)}px`,
-                                        }}
-                                      />
-                                    );
-                                  })()}
-                                </div>
+// Marks a calendar block that has planning warnings; the messages show on hover and in the warnings panel.
+function EventWarningBadge({ warnings }: { warnings: ItineraryWarning[] | undefined }) {
+  if (!warnings?.length) {
+    return null;
+  }
 
-                                {HOUR_MARKERS.map((hour) => (
-                                  <button
-                                    key={`${day.iso}-${hour}`}
-                                    type="button"
-                                    className="calendar-slot"
-                                    onPointerDown={(event) => {
-                                      event.preventDefault();
-                                      beginSlotSelection(day.iso, hour);
-                                    }}
-                                    onPointerEnter={() => extendSlotSelection(day.iso, hour)}
-                                    onPointerUp={() => finalizeSlotSelection(true)}
-                                    onKeyDown={(event) => {
-                                      if (event.key === "Enter" || event.key === " ") {
-                                        event.preventDefault();
-                                        openEventComposer(
-                                          normalizeSelection(
-                                            day.iso,
-                                            clampMinutes(hour * 60),
-                                            day.iso,
-                                            clampMinutes((hour + 1) * 60)
-                                          )
-                                        );
-                                      }
-                                    }}
-                                    aria-label={`Create event on ${day.weekdayLabel} ${day.dateLabel} at ${formatHourLabel(hour)}`}
-                                  />
-                                ))}
+  return (
+    <span
+      className="calendar-event-warning"
+      title={warnings.map((warning) => warning.message).join("\n")}
+      aria-hidden="true"
+    >
+      ⚠{warnings.length > 1 ? ` ${warnings.length}` : ""}
+    </span>
+  );
+}
 
-                                <div className="calendar-day-events" aria-hidden={layoutSegments.length === 0}
-                                >
-                                  {layoutSegments.map((segment) => {
-                                    const { event: calendarEvent, segmentStartMinutes, segmentEndMinutes } = segment;
-
-                                    const isDraggedSegment =
-                                      eventDragState &&
-                                      eventDragState.eventId === calendarEvent.id &&
-                                      eventDragState.date === day.iso;
-
-                                    const previewStart = isDraggedSegment
-                                      ? eventDragState.previewStart
-                                      : segmentStartMinutes;
-                                    const previewEnd = isDraggedSegment
-                                      ? eventDragState.previewEnd
-                                      : segmentEndMinutes;
-
-                                    const durationMinutes = Math.max(
-                                      previewEnd - previewStart,
-                                      MIN_EVENT_DURATION
-                                    );
-                                    const blockHeight = (durationMinutes / 60) * CALENDAR_SLOT_HEIGHT_PX;
-                                    const topOffset = (previewStart / 60) * CALENDAR_SLOT_HEIGHT_PX;
+function TravelGapMarker({
+  gap,
+  mode,
+  estimate,
+  className,
+  style,
+}: {
+  gap: TravelGap;
+  mode: TravelMode;
+  estimate: TravelEstimate | null | undefined;
+  className?: string;
+  style?: CSSProperties;
+}) {
+  const { text, label, isTight } = summarizeTravelGap(gap, estimate);
 
-                                    const isSingleDaySegment = segment.isStartSegment && segment.isEndSegment;
-                                    const canResizeStart = isSingleDaySegment;
-                                    const canResizeEnd = isSingleDaySegment;
-                                    const canMoveEvent = isSingleDaySegment;
+  return (
+    <div
+      className={`travel-gap${isTight ? " travel-gap--tight" : ""}${className ? ` ${className}` : ""}`}
+      style={style}
+      role="note"
+      aria-label={label}
+    >
+      <span className="travel-gap-label" aria-hidden="true">
+        {TRAVEL_MODE_ICONS[mode]} {text}
+      </span>
+    </div>
+  );
+}
 
-                                    const widthFraction = 100 / segment.columnCount;
-                                    const leftFraction = widthFraction * segment.columnIndex;
-                                    const widthExpression = `calc(${widthFraction}% - ${CALENDAR_EVENT_GUTTER_PX * 2}px)`;
-                                    const leftExpression = `calc(${leftFraction}% + ${CALENDAR_EVENT_GUTTER_PX}px)`;
+// Rendered straight into <body> so the print stylesheet can swap it in for the whole app.
+function PrintableAgenda({ agenda }: { agenda: PrintableAgendaData }) {
+  const { title, dateRange, travellers, travellerNames, days } = agenda;
+  const breakdown = summarizeTravellerAgeBands(travellers);
 
-                                    return (
-                                      <div
-                                        key={`${calendarEvent.id}-${day.iso}`}
-                                        className={`calendar-event${isDraggedSegment ? " calendar-event--dragging" : ""}`}
-                                        style={{
-                                          top: `${topOffset}px`,
-                                          height: `${Math.max(blockHeight, 24)}px`,
-                                          left: leftExpression,
-                                          width: widthExpression,
-                                        }}
-                                        onPointerDown={
-                                          canMoveEvent
-                                            ? (event) =>
-                                                startEventDrag(
-                                                  calendarEvent,
-                                                  day.iso,
-                                                  "move",
-                                                  segmentStartMinutes,
-                                                  segmentEndMinutes,
-                                                  event
-                                                )
-                                            : undefined
-                                        }
-                                      >
-                                        {canResizeStart ? (
-                                          <button
-                                            type="button"
-                                            className="calendar-event-handle calendar-event-handle--start"
-                                            onPointerDown={(event) =>
-                                              startEventDrag(
-                                                calendarEvent,
-                                                day.iso,
-                                                "resize-start",
-                                                segmentStartMinutes,
-                                                segmentEndMinutes,
-                                                event
-                                              )
-                                            }
-                                            aria-label="Adjust start time"
-                                          />
-                                        ) : null}
-                                        <div className="calendar-event-content">
-                                          <strong>{calendarEvent.title}</strong>
-                                          <span>
-                                            {formatEventTimeRange(
-                                              calendarEvent.startDateTime,
-                                              calendarEvent.endDateTime
-                                            )}
-                                          </span>
-                                        </div>
-                                        {canResizeEnd ? (
-                                          <button
-                                            type="button"
-                                            className="calendar-event-handle calendar-event-handle--end"
-                                            onPointerDown={(event) =>
-                                              startEventDrag(
-                                                calendarEvent,
-                                                day.iso,
-                                                "resize-end",
-                                                segmentStartMinutes,
-                                                segmentEndMinutes,
-                                                event
-                                              )
-                                            }
-                                            aria-label="Adjust end time"
-                                          />
-                                        ) : null}
-                                      </div>
-                                    );
-                                  })}
-                                </div>
-                              </div>
-                            </div>
-                          );
-                        })}
-                        {showEventForm ? (
-                          <form
-                            ref={eventFormRef}
-                            className="calendar-event-form calendar-event-form--floating"
-                            data-placement={eventFormPlacement}
-                            style={floatingFormStyle}
-                            onSubmit={handleEventSubmit}
-                          >
-                            <div className="calendar-event-grid">
-                              <label className="field">
-                                <span>Title</span>
-                                <input
-                                  type="text"
-                                  value={eventDraft.title}
-                                  onChange={(event) =>
-                                    setEventDraft((previous) => ({
-                                      ...previous,
-                                      title: event.target.value,
-                                    }))
-                                  }
-                                  required
-                                  disabled={eventSaving}
-                                />
-                              </label>
-                              <label className="field">
-                                <span>Start date</span>
-                                <input
-                                  type="date"
-                                  value={eventDraft.startDate}
-                                  onChange={(event) =>
-                                    setEventDraft((previous) => ({
-                                      ...previous,
-                                      startDate: event.target.value,
-                                      endDate:
-                                        previous.endDate && previous.endDate < event.target.value
-                                          ? event.target.value
-                                          : previous.endDate,
-                                    }))
-                                  }
-                                  required
-                                  disabled={eventSaving}
-                                  min={draft.startDate || undefined}
-                                  max={draft.endDate || undefined}
-                                />
-                              </label>
-                              <label className="field">
-                                <span>Start time</span>
-                                <input
-                                  type="time"
-                                  value={eventDraft.startTime}
-                                  onChange={(event) =>
-                                    setEventDraft((previous) => ({
-                                      ...previous,
-                                      startTime: event.target.value,
-                                    }))
-                                  }
-                                  required
-                                  disabled={eventSaving}
-                                  step={900}
-                                />
-                              </label>
-                              <label className="field">
-                                <span>End date</span>
-                                <input
-                                  type="date"
-                                  value={eventDraft.endDate}
-                                  onChange={(event) =>
-                                    setEventDraft((previous) => ({
-                                      ...previous,
-                                      endDate: event.target.value,
-                                    }))
-                                  }
-                                  required
-                                  disabled={eventSaving}
-                                  min={eventDraft.startDate || draft.startDate || undefined}
-                                  max={draft.endDate || undefined}
-                                />
-                              </label>
-                              <label className="field">
-                                <span>End time</span>
-                                <input
-                                  type="time"
-                                  value={eventDraft.endTime}
-                                  onChange={(event) =>
-                                    setEventDraft((previous) => ({
-                                      ...previous,
-                                      endTime: event.target.value,
-                                    }))
-                                  }
-                                  required
-                                  disabled={eventSaving}
-                                  step={900}
-                                />
-                              </label>
-                            </div>
+  return (
+    <article className="print-agenda">
+      <header>
+        <h1>{title}</h1>
+        <p>{dateRange}</p>
+      </header>
 
-                            <label className="field">
-                              <span>Notes (optional)</span>
-                              <textarea
-                                value={eventDraft.description}
-                                onChange={(event) =>
-                                  setEventDraft((previous) => ({
-                                    ...previous,
-                                    description: event.target.value,
-                                  }))
-                                }
-                                disabled={eventSaving}
-                              />
-                            </label>
+      <section className="print-agenda-travellers">
+        <h2>Travellers</h2>
+        <p>
+          {formatTravellerCount(travellers.length)}
+          {breakdown.map((entry) => ` · ${entry.value} ${entry.label.toLowerCase()}`).join("")}
+        </p>
+        {travellers.length ? (
+          <ul>
+            {travellers.map((traveller) => (
+              <li key={traveller.id}>
+                <strong>{traveller.name}</strong> · {formatAgendaTravellerNotes(traveller)}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </section>
+
+      {days.map((day) => (
+        <section key={day.iso} className="print-agenda-day">
+          <h2>{formatAgendaDayHeading(day)}</h2>
+          {day.events.length ? (
+            <ol>
+              {day.events.map((event) => (
+                <li key={event.id}>
+                  <span className="print-agenda-time">
+                    {formatEventTimeRange(event.startDateTime, event.endDateTime)}
+                  </span>
+                  <div>
+                    <strong>{event.title}</strong>
+                    {describeAgendaEvent(event, travellerNames).map((line) => (
+                      <span key={line} className="print-agenda-note">
+                        {line}
+                      </span>
+                    ))}
+                    {event.description ? <p>{event.description}</p> : null}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="print-agenda-empty">Nothing planned</p>
+          )}
+        </section>
+      ))}
+    </article>
+  );
+}
 
-                            {eventFormError ? (
-                              <p className="error" role="alert">
-                                {eventFormError}
-                              </p>
-                            ) : null}
-
-                            <div className="calendar-event-actions">
-                              <button className="primary" type="submit" disabled={eventSaving}>
-                                {eventSaving ? "Saving..." : "Save event"}
-                              </button>
-                              <button
-                                className="secondary"
-                                type="button"
-                                onClick={() => cancelEventCreation()}
-                                disabled={eventSaving}
-                              >
-                                Cancel
-                              </button>
-                            </div>
-                          </form>
+function ReadOnlyTripCalendar({
+  days,
+  events,
+  label,
+}: {
+  days: CalendarDay[];
+  events: ItineraryEvent[];
+  label?: string;
+}) {
+  const dayIndexMap = buildDayIndexMap(days);
+
+  return (
+    <div className="calendar-scroll" role="group" aria-label={label}>
+      <div className="calendar-grid">
+        <div className="calendar-time-column" aria-hidden="true">
+          <div className="calendar-time-spacer" />
+          {HOUR_MARKERS.map((hour) => (
+            <div key={hour} className="calendar-hour-cell">
+              {formatHourLabel(hour)}
+            </div>
+          ))}
+        </div>
+        {days.map((day) => {
+          const layoutSegments = layoutSegmentsWithColumns(buildDaySegments(events, day.iso, dayIndexMap));
+
+          return (
+            <div
+              key={day.iso}
+              className={`calendar-day-column${day.isToday ? " calendar-day-column--today" : ""}`}
+            >
+              <div className="calendar-day-header">
+                <span className="calendar-weekday">{day.weekdayLabel}</span>
+                <span className="calendar-date">{day.dateLabel}</span>
+              </div>
+              <div className="calendar-day-body">
+                {HOUR_MARKERS.map((hour) => (
+                  <div key={`${day.iso}-${hour}`} className="calendar-slot calendar-slot--static" />
+                ))}
+                <div className="calendar-day-events">
+                  {layoutSegments.map((segment) => (
+                    <div
+                      key={`${segment.event.id}-${day.iso}`}
+                      className={`calendar-event calendar-event--static calendar-event--${segment.event.category}`}
+                      style={getSegmentBlockStyle(segment)}
+                      title={segment.event.description ?? undefined}
+                    >
+                      <div className="calendar-event-content">
+                        <strong>
+                          <span className="calendar-event-icon" aria-hidden="true">
+                            {EVENT_CATEGORY_CONFIG[segment.event.category].icon}
+                          </span>
+                          {segment.event.title}
+                        </strong>
+                        <span>
+                          {formatEventTimeRange(segment.event.startDateTime, segment.event.endDateTime)}
+                        </span>
+                        {formatEventDetailSummary(segment.event) ? (
+                          <span>{formatEventDetailSummary(segment.event)}</span>
                         ) : null}
                       </div>
                     </div>
-                    {eventsLoading ? (
-                      <p className="muted" role="status">
-                        Loading events...
-                      </p>
-                    ) : null}
-                  </>
-                ) : (
-                  <div className="calendar-empty" role="status">
-                    <p className="muted">Select both a start and end date to generate the calendar.</p>
-                  </div>
-                )}
+                  ))}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
 
-                {!showEventForm && shouldShowCalendar ? (
-                  <p className="calendar-instructions muted">
-                    Click or drag across the calendar to add an event.
-                  </p>
-                ) : null}
+function SharedItineraryView() {
+  const { token } = useParams<{ token: string }>();
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [sharedItinerary, setSharedItinerary] = useState<Itinerary | null>(null);
+  const [sharedEvents, setSharedEvents] = useState<ItineraryEvent[]>([]);
 
-                {eventStatusMessage ? (
-                  <p className="profile-status calendar-status" role="status">
-                    {eventStatusMessage}
-                  </p>
-                ) : null}
-              </section>
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    let unsubscribe: Unsubscribe | undefined;
+    let isActive = true;
+
+    loadFirestoreModule()
+      .then(async ({ doc, onSnapshot }) => {
+        if (!isActive) {
+          return;
+        }
+
+        const firestore = await getFirestoreInstance();
+
+        unsubscribe = onSnapshot(
+          doc(firestore, "publicShares", token),
+          (snapshot) => {
+            if (!snapshot.exists()) {
+              setLoadError("This link is no longer available. Ask the trip owner for a new one.");
+              setSharedItinerary(null);
+              setSharedEvents([]);
+              setLoading(false);
+              return;
+            }
+
+            const data = snapshot.data();
+            const rawEvents: unknown[] = Array.isArray(data.events) ? data.events : [];
+            const nextEvents = rawEvents
+              .map((entry) => {
+                if (!entry || typeof entry !== "object") {
+                  return null;
+                }
+
+                const record = entry as Record<string, unknown>;
+                return normalizeItineraryEvent(typeof record.id === "string" ? record.id : "", record);
+              })
+              .filter((entry): entry is ItineraryEvent => Boolean(entry))
+              .sort((a, b) => a.startDateTime.localeCompare(b.startDateTime));
+
+            setSharedItinerary(
+              normalizeItinerary(typeof data.itineraryId === "string" ? data.itineraryId : snapshot.id, data)
+            );
+            setSharedEvents(nextEvents);
+            setLoadError(null);
+            setLoading(false);
+          },
+          (snapshotError) => {
+            setLoadError(deriveReadableError(snapshotError));
+            setSharedItinerary(null);
+            setLoading(false);
+          }
+        );
+      })
+      .catch((firestoreError) => {
+        if (!isActive) {
+          return;
+        }
+
+        setLoadError(deriveReadableError(firestoreError));
+        setLoading(false);
+      });
+
+    return () => {
+      isActive = false;
+      if (unsubscribe) {
+        unsubscribe();
+      }
+    };
+  }, [token]);
+
+  if (loading) {
+    return (
+      <section className="card itinerary-builder" aria-live="polite">
+        <p className="muted">Loading shared itinerary...</p>
+      </section>
+    );
+  }
+
+  if (loadError || !sharedItinerary) {
+    return (
+      <section className="card itinerary-builder" aria-live="polite">
+        <p className="error" role="alert">
+          {loadError ?? "This link is no longer available."}
+        </p>
+      </section>
+    );
+  }
+
+  const travellerBreakdown = summarizeTravellerAgeBands(sharedItinerary.travellers);
+  const formattedDateRange = formatDateRange(sharedItinerary.startDate, sharedItinerary.endDate);
+  const calendarDays = buildCalendarDays(sharedItinerary.startDate, sharedItinerary.endDate);
+
+  return (
+    <section className="card itinerary-builder" aria-live="polite">
+      <header className="builder-header">
+        <div>
+          <h2>{sharedItinerary.title}</h2>
+          <p className="muted">
+            {formattedDateRange} · {formatTravellerCount(sharedItinerary.travellers.length)}
+          </p>
+        </div>
+        <span className="pill">Read only</span>
+      </header>
+
+      <div className="builder-layout">
+        <aside className="builder-sidebar">
+          <h3>Trip details</h3>
+          <dl className="summary-list">
+            <div className="summary-item">
+              <dt>Date range</dt>
+              <dd>{formattedDateRange}</dd>
             </div>
-          </div>
-        </>
-      ) : null}
+            {travellerBreakdown.length ? (
+              <div className="summary-item">
+                <dt>Breakdown</dt>
+                <dd>
+                  <ul className="summary-breakdown">
+                    {travellerBreakdown.map((entry) => (
+                      <li key={entry.label}>
+                        <span>{entry.label}</span>
+                        <span>{entry.value}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </dd>
+              </div>
+            ) : null}
+          </dl>
+        </aside>
+        <div className="builder-main">
+          <section className="calendar-panel" aria-labelledby="shared-calendar-heading">
+            <header className="calendar-header">
+              <div>
+                <h3 id="shared-calendar-heading">Trip calendar</h3>
+                <p className="muted">Shared read-only view of this trip.</p>
+              </div>
+            </header>
+            {calendarDays.length ? (
+              <ReadOnlyTripCalendar
+                days={calendarDays}
+                events={sharedEvents.map((entry) => toDisplayEvent(entry, "trip", getDeviceTimeZone()))}
+                label={`Trip calendar covering ${formattedDateRange}`}
+              />
+            ) : (
+              <div className="calendar-empty" role="status">
+                <p className="muted">This trip does not have dates yet.</p>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
     </section>
   );
 }
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  coerceExchangeRateTable,
+  convertAmount,
+  getBundledExchangeRate,
+  resolveExchangeRate,
+} from "./exchangeRates";
+
+describe("resolveExchangeRate", () => {
+  const tripRates = { currency: "INR", rates: { EUR: 95, USD: 84 } };
+
+  it("uses 1 for the home currency itself, ahead of any entered rate", () => {
+    expect(resolveExchangeRate("INR", "INR", { tripRates, override: { currency: "INR", rate: 3 } })).toEqual({
+      rate: 1,
+      source: "same",
+    });
+  });
+
+  it("prefers the expense's own rate over the trip table", () => {
+    expect(resolveExchangeRate("EUR", "INR", { tripRates, override: { currency: "INR", rate: 97.5 } })).toEqual({
+      rate: 97.5,
+      source: "expense",
+    });
+  });
+
+  it("falls back to the trip table, then the bundled table", () => {
+    expect(resolveExchangeRate("EUR", "INR", { tripRates })).toEqual({ rate: 95, source: "trip" });
+    expect(resolveExchangeRate("GBP", "INR", { tripRates })).toEqual({
+      rate: getBundledExchangeRate("GBP", "INR"),
+      source: "bundled",
+    });
+  });
+
+  it("ignores rates entered against another home currency", () => {
+    const override = { currency: "USD", rate: 1.2 };
+    expect(resolveExchangeRate("EUR", "GBP", { tripRates, override })?.source).toBe("bundled");
+  });
+
+  it("returns null when no table knows the currency", () => {
+    expect(resolveExchangeRate("XYZ", "INR", { tripRates })).toBeNull();
+  });
+});
+
+describe("convertAmount", () => {
+  it("rounds to the home currency's minor units", () => {
+    expect(convertAmount(10, { rate: 1.23456, source: "trip" }, "EUR")).toBe(12.35);
+    expect(convertAmount(1.005, { rate: 1, source: "same" }, "USD")).toBe(1);
+    expect(convertAmount(12.5, { rate: 147.3, source: "bundled" }, "JPY")).toBe(1841);
+  });
+
+  it("returns null without a rate", () => {
+    expect(convertAmount(10, null, "EUR")).toBeNull();
+  });
+});
+
+describe("coerceExchangeRateTable", () => {
+  it("rejects values that are not a table for a currency", () => {
+    expect(coerceExchangeRateTable(null)).toBeNull();
+    expect(coerceExchangeRateTable("INR")).toBeNull();
+    expect(coerceExchangeRateTable({ currency: "rupees", rates: { EUR: 95 } })).toBeNull();
+    expect(coerceExchangeRateTable({ currency: "INR" })).toBeNull();
+  });
+
+  it("drops invalid codes and rates", () => {
+    expect(
+      coerceExchangeRateTable({
+        currency: "INR",
+        rates: { EUR: 95, usd: 84, GBP: -1, JPY: 0, CHF: "105", AUD: Number.NaN, CAD: 61 },
+      })
+    ).toEqual({ currency: "INR", rates: { EUR: 95, CAD: 61 } });
+  });
+});
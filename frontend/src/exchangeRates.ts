@@ -0,0 +1,152 @@
+// Offline currency conversion for trip budgets. Rates come from, in order of precedence, a per-expense override,
+// the itinerary's own editable table, and the approximate table bundled below.
+
+import { fromMinorUnits, isCurrencyCode, toMinorUnits } from "./expenses";
+
+// Units of each currency per US dollar. Approximate mid-market rates, good enough for splitting a dinner bill;
+// trips that need precise figures should set their own rates.
+export const BUNDLED_RATES_AS_OF = "2025-08-01";
+const BUNDLED_RATES_PER_USD: Record<string, number> = {
+  AED: 3.6725,
+  ARS: 1300,
+  AUD: 1.53,
+  BRL: 5.55,
+  CAD: 1.38,
+  CHF: 0.8,
+  CLP: 965,
+  CNY: 7.18,
+  COP: 4100,
+  CZK: 21.3,
+  DKK: 6.45,
+  EGP: 48.6,
+  EUR: 0.865,
+  GBP: 0.75,
+  HKD: 7.85,
+  HUF: 345,
+  IDR: 16350,
+  ILS: 3.38,
+  INR: 87.5,
+  ISK: 122,
+  JPY: 147,
+  KES: 129,
+  KRW: 1385,
+  LKR: 301,
+  MAD: 9.0,
+  MXN: 18.8,
+  MYR: 4.24,
+  NOK: 10.2,
+  NPR: 140,
+  NZD: 1.68,
+  PEN: 3.58,
+  PHP: 57.5,
+  PKR: 283,
+  PLN: 3.69,
+  QAR: 3.64,
+  RON: 4.38,
+  SAR: 3.75,
+  SEK: 9.65,
+  SGD: 1.29,
+  THB: 32.4,
+  TRY: 40.7,
+  TWD: 29.9,
+  USD: 1,
+  VND: 26200,
+  ZAR: 17.9,
+};
+
+// A trip's own rates: units of `currency` (the home currency they were entered against) per unit of each key.
+export type ExchangeRateTable = {
+  currency: string;
+  rates: Record<string, number>;
+};
+
+// One unit of an expense's currency is worth `rate` units of `currency`.
+export type ExchangeRateOverride = {
+  currency: string;
+  rate: number;
+};
+
+export type ExchangeRateSource = "same" | "expense" | "trip" | "bundled";
+
+export type ResolvedExchangeRate = {
+  rate: number;
+  source: ExchangeRateSource;
+};
+
+export const isValidExchangeRate = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+export const getBundledExchangeRate = (fromCurrency: string, toCurrency: string): number | null => {
+  const fromPerUsd = BUNDLED_RATES_PER_USD[fromCurrency];
+  const toPerUsd = BUNDLED_RATES_PER_USD[toCurrency];
+  return fromPerUsd && toPerUsd ? toPerUsd / fromPerUsd : null;
+};
+
+// Rates entered against a different home currency are ignored rather than chained, so changing the home
+// currency never silently applies stale figures.
+export const resolveExchangeRate = (
+  fromCurrency: string,
+  homeCurrency: string,
+  {
+    tripRates = null,
+    override = null,
+  }: { tripRates?: ExchangeRateTable | null; override?: ExchangeRateOverride | null } = {}
+): ResolvedExchangeRate | null => {
+  if (fromCurrency === homeCurrency) {
+    return { rate: 1, source: "same" };
+  }
+
+  if (override && override.currency === homeCurrency && isValidExchangeRate(override.rate)) {
+    return { rate: override.rate, source: "expense" };
+  }
+
+  const tripRate = tripRates && tripRates.currency === homeCurrency ? tripRates.rates[fromCurrency] : undefined;
+  if (isValidExchangeRate(tripRate)) {
+    return { rate: tripRate, source: "trip" };
+  }
+
+  const bundledRate = getBundledExchangeRate(fromCurrency, homeCurrency);
+  return bundledRate ? { rate: bundledRate, source: "bundled" } : null;
+};
+
+// Rounded to the home currency's minor units; null when no rate is known.
+export const convertAmount = (
+  amount: number,
+  rate: ResolvedExchangeRate | null,
+  homeCurrency: string
+): number | null =>
+  rate ? fromMinorUnits(toMinorUnits(amount * rate.rate, homeCurrency), homeCurrency) : null;
+
+export const coerceExchangeRateTable = (value: unknown): ExchangeRateTable | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { currency, rates } = value as { currency?: unknown; rates?: unknown };
+  if (!isCurrencyCode(currency) || !rates || typeof rates !== "object") {
+    return null;
+  }
+
+  return {
+    currency,
+    rates: Object.fromEntries(
+      Object.entries(rates as Record<string, unknown>).filter(
+        (entry): entry is [string, number] => isCurrencyCode(entry[0]) && isValidExchangeRate(entry[1])
+      )
+    ),
+  };
+};
+
+export const coerceExchangeRateOverride = (value: unknown): ExchangeRateOverride | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { currency, rate } = value as { currency?: unknown; rate?: unknown };
+  return isCurrencyCode(currency) && isValidExchangeRate(rate)
+    ? { currency, rate }
+    : null;
+};
+
+// Trims the noise of cross rates for display and prefilled inputs, e.g. 0.011428571 becomes 0.01143.
+export const roundExchangeRate = (rate: number): number => Number(rate.toPrecision(4));
@@ -0,0 +1,153 @@
+// Money helpers for itinerary expenses: formatting, per-person balances and the "who owes whom" settlement.
+
+export type ExpenseShare = {
+  amount: number;
+  currency: string;
+  // Person who paid, and the people the cost is split evenly between.
+  paidBy: string;
+  splitBetween: string[];
+};
+
+export type Settlement = {
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+};
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+const COMMON_CURRENCY_CODES = ["AUD", "CAD", "CHF", "CNY", "EUR", "GBP", "INR", "JPY", "NZD", "SGD", "USD"];
+
+export const isCurrencyCode = (value: unknown): value is string =>
+  typeof value === "string" && CURRENCY_CODE_PATTERN.test(value);
+
+const CURRENCY_BY_REGION: Record<string, string> = {
+  AU: "AUD",
+  CA: "CAD",
+  CH: "CHF",
+  CN: "CNY",
+  GB: "GBP",
+  IN: "INR",
+  JP: "JPY",
+  NZ: "NZD",
+  SG: "SGD",
+  US: "USD",
+};
+
+const EURO_REGIONS = new Set([
+  "AT", "BE", "CY", "DE", "EE", "ES", "FI", "FR", "GR", "HR", "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PT", "SI", "SK",
+]);
+
+// Best guess from the browser locale's region; Intl has no region-to-currency lookup of its own.
+export const getDefaultCurrency = (): string => {
+  try {
+    const region = new Intl.Locale(navigator.language).maximize().region ?? "";
+    return CURRENCY_BY_REGION[region] ?? (EURO_REGIONS.has(region) ? "EUR" : "USD");
+  } catch {
+    return "USD";
+  }
+};
+
+let cachedCurrencyCodes: string[] | null = null;
+
+export const listCurrencyCodes = (): string[] => {
+  if (!cachedCurrencyCodes) {
+    const supported = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("currency") : [];
+    cachedCurrencyCodes = Array.from(new Set([...supported, ...COMMON_CURRENCY_CODES])).sort();
+  }
+
+  return cachedCurrencyCodes;
+};
+
+// Number of minor units the currency is normally written with, e.g. 2 for EUR and 0 for JPY.
+export const getCurrencyFractionDigits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+export const toMinorUnits = (amount: number, currency: string): number =>
+  Math.round(amount * 10 ** getCurrencyFractionDigits(currency));
+
+export const fromMinorUnits = (minorUnits: number, currency: string): number =>
+  minorUnits / 10 ** getCurrencyFractionDigits(currency);
+
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+// Net position per person in minor units: positive when the group owes them money, negative when they owe.
+// Shares that do not divide evenly hand the leftover minor units to the first people in the split.
+export const computeBalances = (expenses: ExpenseShare[], currency: string): Map<string, number> => {
+  const balances = new Map<string, number>();
+  const adjust = (person: string, delta: number) => {
+    balances.set(person, (balances.get(person) ?? 0) + delta);
+  };
+
+  expenses.forEach((expense) => {
+    if (expense.currency !== currency) {
+      return;
+    }
+
+    const total = toMinorUnits(expense.amount, currency);
+    const people = expense.splitBetween.length ? expense.splitBetween : [expense.paidBy];
+    const baseShare = Math.floor(total / people.length);
+    let remainder = total - baseShare * people.length;
+
+    adjust(expense.paidBy, total);
+    people.forEach((person) => {
+      const share = baseShare + (remainder > 0 ? 1 : 0);
+      remainder = Math.max(0, remainder - 1);
+      adjust(person, -share);
+    });
+  });
+
+  return balances;
+};
+
+// Greedy settlement: the biggest debtor repays the biggest creditor until everyone is square, which keeps
+// the number of transfers to at most one fewer than the number of people involved.
+export const settleBalances = (balances: Map<string, number>, currency: string): Settlement[] => {
+  const byLargest = (first: [string, number], second: [string, number]) =>
+    second[1] - first[1] || first[0].localeCompare(second[0]);
+  const creditors = [...balances].filter(([, value]) => value > 0).sort(byLargest);
+  const debtors = [...balances]
+    .filter(([, value]) => value < 0)
+    .map(([person, value]): [string, number] => [person, -value])
+    .sort(byLargest);
+
+  const settlements: Settlement[] = [];
+  let creditorIndex = 0;
+  let debtorIndex = 0;
+
+  while (creditorIndex < creditors.length && debtorIndex < debtors.length) {
+    const creditor = creditors[creditorIndex];
+    const debtor = debtors[debtorIndex];
+    const transfer = Math.min(creditor[1], debtor[1]);
+
+    settlements.push({
+      from: debtor[0],
+      to: creditor[0],
+      amount: fromMinorUnits(transfer, currency),
+      currency,
+    });
+
+    creditor[1] -= transfer;
+    debtor[1] -= transfer;
+    if (creditor[1] === 0) {
+      creditorIndex += 1;
+    }
+    if (debtor[1] === 0) {
+      debtorIndex += 1;
+    }
+  }
+
+  return settlements;
+};
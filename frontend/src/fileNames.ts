@@ -0,0 +1,13 @@
+// Download file names for exports, derived from the itinerary title.
+
+// Lower-case ASCII words joined by hyphens, e.g. "Café in Zürich!" becomes "cafe-in-zurich".
+export const slugifyTitle = (title: string): string => {
+  const slug = title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  return slug || "itinerary";
+};
@@ -1,6 +1,6 @@
 import { initializeApp } from "firebase/app";
 import type { FirebaseOptions } from "firebase/app";
-import { getAuth } from "firebase/auth";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
 
 type Firestore = import("firebase/firestore").Firestore;
 type FirestoreModule = typeof import("firebase/firestore");
@@ -24,6 +24,14 @@ const app = initializeApp(firebaseConfig);
 
 export const auth = getAuth(app);
 
+// Optional local emulators, e.g. VITE_FIRESTORE_EMULATOR_HOST="127.0.0.1:8080", for exercising offline behaviour.
+const authEmulatorUrl = import.meta.env.VITE_AUTH_EMULATOR_URL;
+const firestoreEmulatorHost = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST;
+
+if (authEmulatorUrl) {
+  connectAuthEmulator(auth, authEmulatorUrl, { disableWarnings: true });
+}
+
 let firestoreModulePromise: Promise<FirestoreModule> | null = null;
 const loadFirestoreModule = () => {
   if (!firestoreModulePromise) {
@@ -37,8 +45,21 @@ let firestoreInstancePromise: Promise<Firestore> | null = null;
 
 export const getFirestoreInstance = async (): Promise<Firestore> => {
   if (!firestoreInstancePromise) {
-    firestoreInstancePromise = loadFirestoreModule().then(({ getFirestore }) =>
-      getFirestore(app)
+    // Persist the cache in IndexedDB, shared across tabs, so itineraries open and accept edits offline.
+    // Queued writes are replayed once the connection returns.
+    firestoreInstancePromise = loadFirestoreModule().then(
+      ({ connectFirestoreEmulator, initializeFirestore, persistentLocalCache, persistentMultipleTabManager }) => {
+        const firestore = initializeFirestore(app, {
+          localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+        });
+
+        if (firestoreEmulatorHost) {
+          const [host, port] = firestoreEmulatorHost.split(":");
+          connectFirestoreEmulator(firestore, host, Number(port));
+        }
+
+        return firestore;
+      }
     );
   }
 
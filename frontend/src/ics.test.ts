@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { parseIcsEvents } from "./ics";
+
+const importCalendar = (...lines: string[]) =>
+  parseIcsEvents(["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n"), {
+    timeZone: "Europe/Paris",
+    rangeStartDate: "2025-06-01",
+    rangeEndDate: "2025-06-10",
+  });
+
+const listStarts = (events: ReturnType<typeof importCalendar>) =>
+  events.map(({ title, startDateTime }) => `${title} ${startDateTime}`);
+
+describe("parseIcsEvents", () => {
+  it("matches EXDATE and RECURRENCE-ID values written in other zones or as dates", () => {
+    const events = importCalendar(
+      "BEGIN:VEVENT",
+      "UID:breakfast",
+      "SUMMARY:Breakfast",
+      "DTSTART;TZID=Europe/Paris:20250602T090000",
+      "DTEND;TZID=Europe/Paris:20250602T100000",
+      "RRULE:FREQ=DAILY;COUNT=5",
+      // 09:00 in Paris on the 3rd and the 5th.
+      "EXDATE:20250603T070000Z",
+      "EXDATE;TZID=America/New_York:20250605T030000",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:breakfast",
+      "SUMMARY:Late breakfast",
+      "RECURRENCE-ID;VALUE=DATE:20250604",
+      "DTSTART;TZID=Europe/Paris:20250604T110000",
+      "DTEND;TZID=Europe/Paris:20250604T120000",
+      "END:VEVENT"
+    );
+
+    expect(listStarts(events)).toEqual([
+      "Breakfast 2025-06-02T09:00",
+      "Late breakfast 2025-06-04T11:00",
+      "Breakfast 2025-06-06T09:00",
+    ]);
+  });
+
+  it("matches a UTC RECURRENCE-ID against a zoned series", () => {
+    const events = importCalendar(
+      "BEGIN:VEVENT",
+      "UID:tour",
+      "SUMMARY:Tour",
+      "DTSTART;TZID=Europe/Paris:20250602T140000",
+      "DURATION:PT2H",
+      "RRULE:FREQ=DAILY;COUNT=2",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:tour",
+      "SUMMARY:Tour moved",
+      "RECURRENCE-ID:20250603T120000Z",
+      "DTSTART;TZID=Europe/Paris:20250603T160000",
+      "DURATION:PT2H",
+      "END:VEVENT"
+    );
+
+    expect(listStarts(events)).toEqual(["Tour 2025-06-02T14:00", "Tour moved 2025-06-03T16:00"]);
+  });
+});
@@ -0,0 +1,777 @@
+// RFC 5545 (iCalendar) serialisation for itinerary events.
+
+import { slugifyTitle } from "./fileNames";
+import type { EventLocation } from "./locations";
+import { getTimeZoneOffsetMinutes, isSupportedTimeZone, zonedWallClockToUtc } from "./timeZones";
+
+export type IcsEvent = {
+  id: string;
+  title: string;
+  description: string | null;
+  // ISO-local wall clock values (`YYYY-MM-DDTHH:mm`) in the event's own zones.
+  startDateTime: string;
+  endDateTime: string;
+  // Zone-less events are written in the calendar's time zone.
+  startTimeZone?: string | null;
+  endTimeZone?: string | null;
+  // Written as LOCATION, plus GEO when it has coordinates.
+  location?: EventLocation | null;
+};
+
+export type IcsCalendarOptions = {
+  calendarName: string;
+  // Fallback zone for events without their own.
+  timeZone: string;
+  events: IcsEvent[];
+  now?: Date;
+};
+
+const PRODUCT_ID = "-//Travelio//Itinerary Export//EN";
+const UID_DOMAIN = "travelio";
+const MAX_LINE_OCTETS = 75;
+const ISO_LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/;
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const pad = (value: number, length = 2): string => String(Math.abs(value)).padStart(length, "0");
+
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+
+// Lines longer than 75 octets are folded with CRLF followed by a single space, without splitting UTF-8 sequences.
+export const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const character of line) {
+    const octets = encoder.encode(character).length;
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+
+    current += character;
+    currentOctets += octets;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const parseIsoLocal = (value: string): number | null => {
+  const match = ISO_LOCAL_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes);
+};
+
+// Treats the timestamp as a wall clock reading, i.e. formats its UTC fields without a `Z` suffix.
+const formatWallClock = (wallClockMs: number): string => {
+  const date = new Date(wallClockMs);
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+  );
+};
+
+const formatUtcStamp = (date: Date): string => `${formatWallClock(date.getTime())}Z`;
+
+const formatOffset = (offsetMinutes: number): string => {
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  return `${sign}${pad(Math.trunc(offsetMinutes / 60))}${pad(offsetMinutes % 60)}`;
+};
+
+type OffsetTransition = {
+  utcMs: number;
+  offsetFrom: number;
+  offsetTo: number;
+};
+
+const findOffsetTransitions = (timeZone: string, fromUtcMs: number, toUtcMs: number): OffsetTransition[] => {
+  const transitions: OffsetTransition[] = [];
+  let previousMs = fromUtcMs;
+  let previousOffset = getTimeZoneOffsetMinutes(timeZone, fromUtcMs);
+
+  for (let cursor = fromUtcMs + HOUR_MS; cursor <= toUtcMs; cursor += HOUR_MS) {
+    const offset = getTimeZoneOffsetMinutes(timeZone, cursor);
+    if (offset === previousOffset) {
+      previousMs = cursor;
+      continue;
+    }
+
+    // Narrow the change down to the minute it happens.
+    let low = previousMs;
+    let high = cursor;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / (2 * MINUTE_MS)) * MINUTE_MS;
+      if (getTimeZoneOffsetMinutes(timeZone, middle) === previousOffset) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    transitions.push({ utcMs: high, offsetFrom: previousOffset, offsetTo: offset });
+    previousMs = cursor;
+    previousOffset = offset;
+  }
+
+  return transitions;
+};
+
+// Describes the zone's UTC offsets across the exported range so that clients without the IANA database
+// still resolve TZID references correctly.
+const buildTimeZoneLines = (timeZone: string, rangeStartWallClock: number, rangeEndWallClock: number): string[] => {
+  const fromUtcMs = rangeStartWallClock - 2 * DAY_MS;
+  const toUtcMs = rangeEndWallClock + 2 * DAY_MS;
+  const initialOffset = getTimeZoneOffsetMinutes(timeZone, fromUtcMs);
+  const transitions = findOffsetTransitions(timeZone, fromUtcMs, toUtcMs);
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const pushObservance = (kind: "STANDARD" | "DAYLIGHT", wallClockMs: number, from: number, to: number) => {
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatWallClock(wallClockMs)}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`
+    );
+  };
+
+  const initialIsDaylight = transitions.length > 0 && transitions[0].offsetTo < initialOffset;
+  pushObservance(
+    initialIsDaylight ? "DAYLIGHT" : "STANDARD",
+    fromUtcMs + initialOffset * MINUTE_MS,
+    initialOffset,
+    initialOffset
+  );
+
+  transitions.forEach(({ utcMs, offsetFrom, offsetTo }) => {
+    pushObservance(
+      offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD",
+      utcMs + offsetFrom * MINUTE_MS,
+      offsetFrom,
+      offsetTo
+    );
+  });
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+};
+
+type DatedIcsEvent = {
+  event: IcsEvent;
+  start: number;
+  end: number;
+  startTimeZone: string;
+  endTimeZone: string;
+};
+
+export const buildIcsCalendar = ({ calendarName, timeZone, events, now = new Date() }: IcsCalendarOptions): string => {
+  const stamp = formatUtcStamp(now);
+  const datedEvents = events
+    .map((event) => {
+      const startTimeZone = event.startTimeZone ?? timeZone;
+      return {
+        event,
+        start: parseIsoLocal(event.startDateTime),
+        end: parseIsoLocal(event.endDateTime),
+        startTimeZone,
+        endTimeZone: event.endTimeZone ?? startTimeZone,
+      };
+    })
+    .filter(
+      (entry): entry is DatedIcsEvent =>
+        entry.start !== null &&
+        entry.end !== null &&
+        zonedWallClockToUtc(entry.endTimeZone, entry.end) > zonedWallClockToUtc(entry.startTimeZone, entry.start)
+    );
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ];
+
+  if (datedEvents.length) {
+    const rangeStart = Math.min(...datedEvents.map((entry) => entry.start));
+    const rangeEnd = Math.max(...datedEvents.map((entry) => entry.end));
+    const zones = new Set(datedEvents.flatMap((entry) => [entry.startTimeZone, entry.endTimeZone]));
+    zones.forEach((zone) => lines.push(...buildTimeZoneLines(zone, rangeStart, rangeEnd)));
+  }
+
+  datedEvents.forEach(({ event, start, end, startTimeZone, endTimeZone }) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${startTimeZone}:${formatWallClock(start)}`,
+      `DTEND;TZID=${endTimeZone}:${formatWallClock(end)}`,
+      `SUMMARY:${escapeIcsText(event.title)}`
+    );
+
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    }
+
+    const place = event.location ? [event.location.name, event.location.address].filter(Boolean).join(", ") : "";
+    if (place) {
+      lines.push(`LOCATION:${escapeIcsText(place)}`);
+    }
+
+    if (event.location && event.location.lat !== null && event.location.lng !== null) {
+      lines.push(`GEO:${event.location.lat};${event.location.lng}`);
+    }
+
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+};
+
+export const buildIcsFileName = (title: string): string => `${slugifyTitle(title)}.ics`;
+
+export type IcsImportedEvent = {
+  // Unique within a single parse result, combining the source UID with the occurrence start.
+  key: string;
+  uid: string | null;
+  title: string;
+  description: string | null;
+  startDateTime: string;
+  endDateTime: string;
+  // Null for floating and all-day events, which keep their wall clock wherever they are viewed.
+  startTimeZone: string | null;
+  endTimeZone: string | null;
+  allDay: boolean;
+  recurring: boolean;
+};
+
+export type IcsImportOptions = {
+  // Zone that UTC times are converted into; zoned times keep their own TZID.
+  timeZone: string;
+  // Inclusive `YYYY-MM-DD` bounds; occurrences outside them are dropped.
+  rangeStartDate: string;
+  rangeEndDate: string;
+};
+
+type IcsProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type IcsDateValue = {
+  wallClockMs: number;
+  kind: "date" | "utc" | "zoned" | "floating";
+  timeZone: string | null;
+};
+
+type IcsRecurrenceRule = {
+  frequency: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  until: IcsDateValue | null;
+  byDay: { ordinal: number; weekday: number }[];
+  byMonthDay: number[];
+};
+
+type IcsSourceEvent = {
+  uid: string | null;
+  title: string;
+  description: string | null;
+  start: IcsDateValue;
+  end: IcsDateValue | null;
+  // Elapsed time for zoned and UTC events, wall clock difference for floating ones.
+  durationMs: number;
+  rule: IcsRecurrenceRule | null;
+  exclusions: IcsDateValue[];
+  recurrenceId: IcsDateValue | null;
+};
+
+const ICS_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/;
+const ICS_DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MAX_RECURRENCE_ITERATIONS = 5000;
+
+export const unescapeIcsText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_match, character: string) =>
+    character === "n" || character === "N" ? "\n" : character
+  );
+
+const unfoldIcsLines = (source: string): string[] =>
+  source
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+
+const parseIcsProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let separator = -1;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const character = line[index];
+    if (character === '"') {
+      inQuotes = !inQuotes;
+    } else if (character === ":" && !inQuotes) {
+      separator = index;
+      break;
+    }
+  }
+
+  if (separator < 0) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+const parseIcsDate = (value: string, params: Record<string, string>): IcsDateValue | null => {
+  const match = ICS_DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utcFlag] = match;
+  const isDateOnly = params.VALUE === "DATE" || hours === undefined;
+  const wallClockMs = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    isDateOnly ? 0 : Number(hours),
+    isDateOnly ? 0 : Number(minutes),
+    isDateOnly || !seconds ? 0 : Number(seconds)
+  );
+
+  if (isDateOnly) {
+    return { wallClockMs, kind: "date", timeZone: null };
+  }
+
+  if (utcFlag) {
+    return { wallClockMs, kind: "utc", timeZone: null };
+  }
+
+  // Zones outside the IANA database (e.g. Windows names) are read as floating times.
+  if (params.TZID && isSupportedTimeZone(params.TZID)) {
+    return { wallClockMs, kind: "zoned", timeZone: params.TZID };
+  }
+
+  return { wallClockMs, kind: "floating", timeZone: null };
+};
+
+const parseIcsDuration = (value: string): number | null => {
+  const match = ICS_DURATION_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * DAY_MS +
+    Number(days ?? 0) * DAY_MS +
+    Number(hours ?? 0) * HOUR_MS +
+    Number(minutes ?? 0) * MINUTE_MS +
+    Number(seconds ?? 0) * 1000;
+
+  return sign === "-" ? -total : total;
+};
+
+const parseIcsRecurrenceRule = (value: string): IcsRecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  value.split(";").forEach((part) => {
+    const [key, partValue] = part.split("=");
+    if (key && partValue) {
+      parts[key.toUpperCase()] = partValue.toUpperCase();
+    }
+  });
+
+  const frequency = parts.FREQ;
+  if (frequency !== "DAILY" && frequency !== "WEEKLY" && frequency !== "MONTHLY" && frequency !== "YEARLY") {
+    return null;
+  }
+
+  const byDay = (parts.BYDAY ?? "")
+    .split(",")
+    .map((entry) => /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(entry))
+    .filter((match): match is RegExpExecArray => Boolean(match) && WEEKDAY_CODES.includes(match![2]))
+    .map((match) => ({ ordinal: match[1] ? Number(match[1]) : 0, weekday: WEEKDAY_CODES.indexOf(match[2]) }));
+
+  const byMonthDay = (parts.BYMONTHDAY ?? "")
+    .split(",")
+    .map(Number)
+    .filter((day) => Number.isInteger(day) && day !== 0 && Math.abs(day) <= 31);
+
+  const interval = Number(parts.INTERVAL ?? 1);
+  const count = parts.COUNT ? Number(parts.COUNT) : null;
+
+  return {
+    frequency,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    count: count !== null && Number.isInteger(count) && count > 0 ? count : null,
+    until: parts.UNTIL ? parseIcsDate(parts.UNTIL, {}) : null,
+    byDay,
+    byMonthDay,
+  };
+};
+
+// Floating and all-day values have no fixed instant, so they are measured on their own wall clock.
+const toInstant = (wallClockMs: number, value: IcsDateValue): number =>
+  value.kind === "zoned" && value.timeZone ? zonedWallClockToUtc(value.timeZone, wallClockMs) : wallClockMs;
+
+const isFixedInstant = (value: IcsDateValue): boolean => value.kind === "zoned" || value.kind === "utc";
+
+// Zoned values keep their TZID, UTC values are presented in `fallbackTimeZone`.
+const resolveImportZone = (value: IcsDateValue, fallbackTimeZone: string): string | null => {
+  if (value.kind === "zoned") {
+    return value.timeZone;
+  }
+
+  return value.kind === "utc" ? fallbackTimeZone : null;
+};
+
+const toZoneWallClock = (utcMs: number, timeZone: string): number =>
+  utcMs + getTimeZoneOffsetMinutes(timeZone, utcMs) * MINUTE_MS;
+
+// Expresses another date value on the wall clock of `reference`, e.g. a UTC UNTIL for a zoned DTSTART. Fixed
+// instants move between UTC and zones; floating and all-day values are read as the reference's wall clock.
+const alignToReference = (value: IcsDateValue, reference: IcsDateValue): number => {
+  if (value.kind === reference.kind && value.timeZone === reference.timeZone) {
+    return value.wallClockMs;
+  }
+
+  if (isFixedInstant(value) && isFixedInstant(reference)) {
+    const instant = toInstant(value.wallClockMs, value);
+    return reference.kind === "zoned" && reference.timeZone ? toZoneWallClock(instant, reference.timeZone) : instant;
+  }
+
+  return value.wallClockMs;
+};
+
+// Whether an EXDATE or RECURRENCE-ID names the occurrence starting at `occurrenceStart` on the wall clock of
+// `reference`. A date names the whole day when the series is timed, and a time names its day in an all-day series.
+const matchesOccurrence = (value: IcsDateValue, occurrenceStart: number, reference: IcsDateValue): boolean => {
+  const aligned = alignToReference(value, reference);
+  if ((value.kind === "date") !== (reference.kind === "date")) {
+    return Math.floor(aligned / DAY_MS) === Math.floor(occurrenceStart / DAY_MS);
+  }
+
+  return aligned === occurrenceStart;
+};
+
+const getDaysInMonth = (year: number, monthIndex: number): number => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+const buildMonthlyCandidates = (
+  year: number,
+  monthIndex: number,
+  timeOfDayMs: number,
+  rule: IcsRecurrenceRule,
+  fallbackDay: number
+): number[] => {
+  const daysInMonth = getDaysInMonth(year, monthIndex);
+  const days: number[] = [];
+
+  if (rule.byMonthDay.length) {
+    rule.byMonthDay.forEach((day) => days.push(day > 0 ? day : daysInMonth + day + 1));
+  } else if (rule.byDay.length) {
+    rule.byDay.forEach(({ ordinal, weekday }) => {
+      const firstWeekday = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+      const matching: number[] = [];
+      for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= daysInMonth; day += 7) {
+        matching.push(day);
+      }
+
+      if (ordinal === 0) {
+        days.push(...matching);
+      } else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked) {
+          days.push(picked);
+        }
+      }
+    });
+  } else {
+    days.push(fallbackDay);
+  }
+
+  return days
+    .filter((day) => day >= 1 && day <= daysInMonth)
+    .sort((a, b) => a - b)
+    .map((day) => Date.UTC(year, monthIndex, day) + timeOfDayMs);
+};
+
+// Yields occurrence starts (on the source wall clock) in chronological order, beginning with DTSTART.
+const expandOccurrenceStarts = (event: IcsSourceEvent, stopAfterMs: number): number[] => {
+  const { rule, start } = event;
+  if (!rule) {
+    return [start.wallClockMs];
+  }
+
+  const startDate = new Date(start.wallClockMs);
+  const startYear = startDate.getUTCFullYear();
+  const startMonth = startDate.getUTCMonth();
+  const startDay = startDate.getUTCDate();
+  const timeOfDayMs = start.wallClockMs - Date.UTC(startYear, startMonth, startDay);
+  const untilMs = rule.until ? alignToReference(rule.until, start) : null;
+  const limitMs = untilMs === null ? stopAfterMs : Math.min(untilMs, stopAfterMs);
+  const occurrences: number[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_RECURRENCE_ITERATIONS; period += 1) {
+    let candidates: number[];
+    const step = period * rule.interval;
+
+    if (rule.frequency === "DAILY") {
+      candidates = [start.wallClockMs + step * DAY_MS];
+    } else if (rule.frequency === "WEEKLY") {
+      // Weeks start on Monday (the RFC 5545 default WKST).
+      const weekStart = Date.UTC(startYear, startMonth, startDay - ((startDate.getUTCDay() + 6) % 7)) + step * 7 * DAY_MS;
+      const weekdays = rule.byDay.length ? rule.byDay.map(({ weekday }) => weekday) : [startDate.getUTCDay()];
+      candidates = Array.from(new Set(weekdays))
+        .map((weekday) => weekStart + ((weekday + 6) % 7) * DAY_MS + timeOfDayMs)
+        .sort((a, b) => a - b);
+    } else if (rule.frequency === "MONTHLY") {
+      const monthIndex = startMonth + step;
+      candidates = buildMonthlyCandidates(
+        startYear + Math.floor(monthIndex / 12),
+        monthIndex % 12,
+        timeOfDayMs,
+        rule,
+        startDay
+      );
+    } else {
+      const year = startYear + step;
+      candidates = startDay <= getDaysInMonth(year, startMonth) ? [Date.UTC(year, startMonth, startDay) + timeOfDayMs] : [];
+    }
+
+    for (const candidate of candidates) {
+      if (candidate < start.wallClockMs) {
+        continue;
+      }
+
+      if (candidate > limitMs || (rule.count !== null && emitted >= rule.count)) {
+        return occurrences;
+      }
+
+      emitted += 1;
+      occurrences.push(candidate);
+    }
+  }
+
+  return occurrences;
+};
+
+const formatIsoLocal = (wallClockMs: number): string => {
+  const date = new Date(wallClockMs);
+  return (
+    `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`
+  );
+};
+
+const toSourceEvent = (properties: IcsProperty[]): IcsSourceEvent | null => {
+  const find = (name: string) => properties.find((property) => property.name === name);
+  const status = find("STATUS")?.value.toUpperCase();
+  const startProperty = find("DTSTART");
+  const start = startProperty ? parseIcsDate(startProperty.value, startProperty.params) : null;
+
+  if (!start || status === "CANCELLED") {
+    return null;
+  }
+
+  const endProperty = find("DTEND");
+  const end = endProperty ? parseIcsDate(endProperty.value, endProperty.params) : null;
+  const durationProperty = find("DURATION");
+  const duration = durationProperty ? parseIcsDuration(durationProperty.value) : null;
+
+  let durationMs: number;
+  if (end && isFixedInstant(start) && isFixedInstant(end)) {
+    durationMs = toInstant(end.wallClockMs, end) - toInstant(start.wallClockMs, start);
+  } else if (end) {
+    durationMs = alignToReference(end, start) - start.wallClockMs;
+  } else if (duration !== null) {
+    durationMs = duration;
+  } else {
+    // RFC 5545 defaults: all-day events last one day, timed events are instantaneous.
+    durationMs = start.kind === "date" ? DAY_MS : 0;
+  }
+
+  const exclusions: IcsDateValue[] = [];
+  properties
+    .filter((property) => property.name === "EXDATE")
+    .forEach((property) => {
+      property.value.split(",").forEach((value) => {
+        const excluded = parseIcsDate(value, property.params);
+        if (excluded) {
+          exclusions.push(excluded);
+        }
+      });
+    });
+
+  const ruleProperty = find("RRULE");
+  const recurrenceIdProperty = find("RECURRENCE-ID");
+  const summary = find("SUMMARY")?.value;
+  const description = find("DESCRIPTION")?.value;
+
+  return {
+    uid: find("UID")?.value.trim() || null,
+    title: summary ? unescapeIcsText(summary).trim() || "Untitled event" : "Untitled event",
+    description: description ? unescapeIcsText(description).trim() || null : null,
+    start,
+    end,
+    durationMs: Math.max(durationMs, 0),
+    rule: ruleProperty ? parseIcsRecurrenceRule(ruleProperty.value) : null,
+    exclusions,
+    recurrenceId: recurrenceIdProperty ? parseIcsDate(recurrenceIdProperty.value, recurrenceIdProperty.params) : null,
+  };
+};
+
+const readSourceEvents = (lines: string[]): IcsSourceEvent[] => {
+  const sourceEvents: IcsSourceEvent[] = [];
+  let properties: IcsProperty[] | null = null;
+  let nestedDepth = 0;
+
+  lines.forEach((line) => {
+    const property = parseIcsProperty(line);
+    if (!property) {
+      return;
+    }
+
+    if (property.name === "BEGIN") {
+      if (property.value.toUpperCase() === "VEVENT") {
+        properties = [];
+      } else if (properties) {
+        // Skip nested components such as VALARM.
+        nestedDepth += 1;
+      }
+      return;
+    }
+
+    if (property.name === "END") {
+      if (property.value.toUpperCase() === "VEVENT" && properties) {
+        const sourceEvent = toSourceEvent(properties);
+        if (sourceEvent) {
+          sourceEvents.push(sourceEvent);
+        }
+        properties = null;
+        nestedDepth = 0;
+      } else if (properties && nestedDepth > 0) {
+        nestedDepth -= 1;
+      }
+      return;
+    }
+
+    if (properties && nestedDepth === 0) {
+      properties.push(property);
+    }
+  });
+
+  return sourceEvents;
+};
+
+// Parses the VEVENTs of an iCalendar file and returns the occurrences that fall entirely inside the range.
+// Recurring events are expanded, honouring EXDATE and RECURRENCE-ID overrides.
+export const parseIcsEvents = (source: string, { timeZone, rangeStartDate, rangeEndDate }: IcsImportOptions): IcsImportedEvent[] => {
+  const lines = unfoldIcsLines(source);
+  if (!lines.length || lines[0].trim().toUpperCase() !== "BEGIN:VCALENDAR") {
+    throw new Error("This file is not an iCalendar (.ics) file.");
+  }
+
+  const rangeStart = parseIsoLocal(`${rangeStartDate}T00:00`);
+  const rangeEndDay = parseIsoLocal(`${rangeEndDate}T00:00`);
+  if (rangeStart === null || rangeEndDay === null) {
+    throw new Error("Set the trip dates before importing events.");
+  }
+
+  const rangeEnd = rangeEndDay + DAY_MS;
+  const sourceEvents = readSourceEvents(lines);
+  const overriddenStarts = new Map<string, IcsDateValue[]>();
+
+  sourceEvents.forEach((event) => {
+    if (event.uid && event.recurrenceId) {
+      overriddenStarts.set(event.uid, [...(overriddenStarts.get(event.uid) ?? []), event.recurrenceId]);
+    }
+  });
+
+  const imported: IcsImportedEvent[] = [];
+
+  sourceEvents.forEach((event) => {
+    const overridden = event.uid && !event.recurrenceId ? overriddenStarts.get(event.uid) : undefined;
+    // Zone conversion never shifts a wall clock by more than a day, so this bound is safe.
+    const occurrenceStarts = expandOccurrenceStarts(event, rangeEnd + 2 * DAY_MS);
+
+    occurrenceStarts.forEach((occurrenceStart) => {
+      const isReplaced = [...event.exclusions, ...(overridden ?? [])].some((value) =>
+        matchesOccurrence(value, occurrenceStart, event.start)
+      );
+      if (isReplaced) {
+        return;
+      }
+
+      const startTimeZone = resolveImportZone(event.start, timeZone);
+      const endTimeZone = event.end ? resolveImportZone(event.end, timeZone) ?? startTimeZone : startTimeZone;
+      // Instantaneous events get a short block so they stay visible on the calendar.
+      const durationMs = event.durationMs > 0 ? event.durationMs : 30 * MINUTE_MS;
+
+      let start: number;
+      let end: number;
+      if (startTimeZone && endTimeZone) {
+        const startInstant = toInstant(occurrenceStart, event.start);
+        start = toZoneWallClock(startInstant, startTimeZone);
+        end = toZoneWallClock(startInstant + durationMs, endTimeZone);
+      } else {
+        start = occurrenceStart;
+        end = occurrenceStart + durationMs;
+      }
+
+      // The calendar stores midnight endings as 23:59 of the previous day.
+      if (end % DAY_MS === 0) {
+        end -= MINUTE_MS;
+      }
+
+      if (start < rangeStart || end > rangeEnd) {
+        return;
+      }
+
+      const startDateTime = formatIsoLocal(start);
+      imported.push({
+        key: `${event.uid ?? imported.length}|${startDateTime}`,
+        uid: event.uid,
+        title: event.title,
+        description: event.description,
+        startDateTime,
+        endDateTime: formatIsoLocal(end),
+        startTimeZone,
+        endTimeZone,
+        allDay: event.start.kind === "date",
+        recurring: Boolean(event.rule),
+      });
+    });
+  });
+
+  return imported.sort((a, b) => a.startDateTime.localeCompare(b.startDateTime));
+};
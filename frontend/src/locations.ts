@@ -0,0 +1,231 @@
+// Event locations: coordinate parsing from pasted text or map links, and the Web Mercator maths the trip map uses
+// to place stops and slippy map tiles. Everything here works from stored coordinates, without any map service.
+
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+};
+
+// Name and address are free text; coordinates are optional but come as a pair.
+export type EventLocation = {
+  name: string;
+  address: string;
+  lat: number | null;
+  lng: number | null;
+};
+
+export type MapView = {
+  zoom: number;
+  // Pixel position of the view's centre in the world at `zoom`.
+  centerX: number;
+  centerY: number;
+};
+
+export type MapTile = {
+  key: string;
+  url: string;
+  // Top left corner within the view.
+  left: number;
+  top: number;
+};
+
+export const TILE_SIZE = 256;
+export const MIN_MAP_ZOOM = 1;
+export const MAX_MAP_ZOOM = 16;
+
+const COORDINATE_DECIMALS = 6;
+// Mercator is undefined at the poles; slippy maps stop at about ±85.05°.
+const MAX_MERCATOR_SIN = Math.sin((85.0511 * Math.PI) / 180);
+
+const NUMBER = "[-+]?\\d{1,3}(?:\\.\\d+)?";
+const PAIR_PATTERN = new RegExp(`^\\s*(${NUMBER})\\s*(?:,|;|\\s)\\s*(${NUMBER})\\s*$`);
+const HEMISPHERE_PATTERN = /^\s*(\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])\s*,?\s*(\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])\s*$/i;
+const AT_PATTERN = new RegExp(`@(${NUMBER}),(${NUMBER})`);
+const DATA_PATTERN = new RegExp(`!3d(${NUMBER})!4d(${NUMBER})`);
+// Query parameters that hold a "lat,lng" pair in Google, Apple and OpenStreetMap links.
+const PAIR_PARAMETERS = ["q", "query", "ll", "sll", "center", "destination", "daddr"];
+
+const roundCoordinate = (value: number): number => Number(value.toFixed(COORDINATE_DECIMALS));
+
+export const isValidGeoPoint = (lat: unknown, lng: unknown): boolean =>
+  typeof lat === "number" &&
+  typeof lng === "number" &&
+  Number.isFinite(lat) &&
+  Number.isFinite(lng) &&
+  Math.abs(lat) <= 90 &&
+  Math.abs(lng) <= 180;
+
+const toGeoPoint = (lat: number, lng: number): GeoPoint | null =>
+  isValidGeoPoint(lat, lng) ? { lat: roundCoordinate(lat), lng: roundCoordinate(lng) } : null;
+
+const parsePair = (value: string): GeoPoint | null => {
+  const match = PAIR_PATTERN.exec(value);
+  return match ? toGeoPoint(Number(match[1]), Number(match[2])) : null;
+};
+
+const parseMapUrl = (url: URL): GeoPoint | null => {
+  if (url.protocol === "geo:") {
+    return parsePair(decodeURIComponent(url.pathname.split(";")[0].split("?")[0]));
+  }
+
+  // OpenStreetMap: a marker at ?mlat=…&mlon=…, otherwise the view centre in #map=zoom/lat/lng.
+  const markerLat = url.searchParams.get("mlat");
+  const markerLng = url.searchParams.get("mlon");
+  if (markerLat && markerLng) {
+    return toGeoPoint(Number(markerLat), Number(markerLng));
+  }
+
+  const hashMatch = /map=\d+(?:\.\d+)?\/([^/]+)\/([^/&]+)/.exec(url.hash);
+  if (hashMatch) {
+    return toGeoPoint(Number(hashMatch[1]), Number(hashMatch[2]));
+  }
+
+  for (const parameter of PAIR_PARAMETERS) {
+    const value = url.searchParams.get(parameter);
+    const point = value ? parsePair(value) : null;
+    if (point) {
+      return point;
+    }
+  }
+
+  // Google place links carry the pin in the data segment and the viewport centre after "@"; prefer the pin.
+  const path = decodeURIComponent(url.pathname);
+  const match = DATA_PATTERN.exec(path) ?? AT_PATTERN.exec(path);
+  return match ? toGeoPoint(Number(match[1]), Number(match[2])) : null;
+};
+
+// Accepts "48.8584, 2.2945", "48.8584° N 2.2945° E", geo: URIs and links copied from common map sites.
+export const parseCoordinates = (input: string): GeoPoint | null => {
+  const value = input.trim();
+  if (!value) {
+    return null;
+  }
+
+  const hemisphere = HEMISPHERE_PATTERN.exec(value);
+  if (hemisphere) {
+    const lat = Number(hemisphere[1]) * (hemisphere[2].toUpperCase() === "S" ? -1 : 1);
+    const lng = Number(hemisphere[3]) * (hemisphere[4].toUpperCase() === "W" ? -1 : 1);
+    return toGeoPoint(lat, lng);
+  }
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(value)) {
+    try {
+      return parseMapUrl(new URL(value));
+    } catch {
+      return null;
+    }
+  }
+
+  return parsePair(value);
+};
+
+export const formatCoordinates = ({ lat, lng }: GeoPoint): string => `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+
+export const coerceEventLocation = (value: unknown): EventLocation | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const name = typeof record.name === "string" ? record.name.trim() : "";
+  const address = typeof record.address === "string" ? record.address.trim() : "";
+  const hasPoint = isValidGeoPoint(record.lat, record.lng);
+  if (!name && !address && !hasPoint) {
+    return null;
+  }
+
+  return {
+    name,
+    address,
+    lat: hasPoint ? (record.lat as number) : null,
+    lng: hasPoint ? (record.lng as number) : null,
+  };
+};
+
+export const getLocationPoint = (location: EventLocation | null): GeoPoint | null =>
+  location && location.lat !== null && location.lng !== null ? { lat: location.lat, lng: location.lng } : null;
+
+export const formatLocationLabel = (location: EventLocation): string => {
+  const point = getLocationPoint(location);
+  return location.name || location.address || (point ? formatCoordinates(point) : "");
+};
+
+// Web Mercator position in pixels for a world `TILE_SIZE * 2^zoom` pixels across, as slippy map tiles use.
+export const projectToPixels = ({ lat, lng }: GeoPoint, zoom: number): { x: number; y: number } => {
+  const worldSize = TILE_SIZE * 2 ** zoom;
+  const sin = Math.max(-MAX_MERCATOR_SIN, Math.min(MAX_MERCATOR_SIN, Math.sin((lat * Math.PI) / 180)));
+  return {
+    x: ((lng + 180) / 360) * worldSize,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * worldSize,
+  };
+};
+
+// The closest whole zoom level that fits every point inside the view with `padding` pixels to spare.
+export const fitMapView = (points: GeoPoint[], width: number, height: number, padding = 32): MapView => {
+  if (!points.length) {
+    return { zoom: MIN_MAP_ZOOM, centerX: TILE_SIZE, centerY: TILE_SIZE };
+  }
+
+  let zoom = MAX_MAP_ZOOM;
+  for (; zoom > MIN_MAP_ZOOM; zoom -= 1) {
+    const projected = points.map((point) => projectToPixels(point, zoom));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    if (
+      Math.max(...xs) - Math.min(...xs) <= width - padding * 2 &&
+      Math.max(...ys) - Math.min(...ys) <= height - padding * 2
+    ) {
+      break;
+    }
+  }
+
+  const projected = points.map((point) => projectToPixels(point, zoom));
+  const xs = projected.map((point) => point.x);
+  const ys = projected.map((point) => point.y);
+  return {
+    zoom,
+    centerX: (Math.min(...xs) + Math.max(...xs)) / 2,
+    centerY: (Math.min(...ys) + Math.max(...ys)) / 2,
+  };
+};
+
+// Position of a point within a `width` by `height` view.
+export const placeInView = (
+  point: GeoPoint,
+  view: MapView,
+  width: number,
+  height: number
+): { x: number; y: number } => {
+  const { x, y } = projectToPixels(point, view.zoom);
+  return { x: x - view.centerX + width / 2, y: y - view.centerY + height / 2 };
+};
+
+// Tiles covering the view, from a URL template with {z}, {x} and {y} placeholders. Tiles wrap around the
+// antimeridian and stop at the top and bottom of the world.
+export const listMapTiles = (template: string, view: MapView, width: number, height: number): MapTile[] => {
+  const tileCount = 2 ** view.zoom;
+  const left = view.centerX - width / 2;
+  const top = view.centerY - height / 2;
+  const tiles: MapTile[] = [];
+
+  for (let tileY = Math.floor(top / TILE_SIZE); tileY * TILE_SIZE < top + height; tileY += 1) {
+    if (tileY < 0 || tileY >= tileCount) {
+      continue;
+    }
+
+    for (let tileX = Math.floor(left / TILE_SIZE); tileX * TILE_SIZE < left + width; tileX += 1) {
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${view.zoom}/${tileX}/${tileY}`,
+        url: template
+          .replace("{z}", String(view.zoom))
+          .replace("{x}", String(wrappedX))
+          .replace("{y}", String(tileY)),
+        left: tileX * TILE_SIZE - left,
+        top: tileY * TILE_SIZE - top,
+      });
+    }
+  }
+
+  return tiles;
+};
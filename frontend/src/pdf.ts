@@ -0,0 +1,258 @@
+// Minimal PDF 1.4 writer for text-only documents such as the printable itinerary. It uses the standard
+// Helvetica fonts, which every PDF reader ships, so documents can be generated offline without embedding fonts.
+
+import { slugifyTitle } from "./fileNames";
+
+export type PdfTextStyle = "title" | "heading" | "subheading" | "body" | "muted";
+
+export type PdfBlock = {
+  text: string;
+  style?: PdfTextStyle;
+  // Extra left margin in points, e.g. for an event's details under its title.
+  indent?: number;
+};
+
+export type PdfDocumentOptions = {
+  title: string;
+  blocks: PdfBlock[];
+};
+
+type FontKey = "F1" | "F2";
+
+type PdfLine = {
+  text: string;
+  font: FontKey;
+  size: number;
+  gray: number;
+  x: number;
+  y: number;
+};
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+const LINE_HEIGHT_RATIO = 1.35;
+
+const STYLE_CONFIG: Record<PdfTextStyle, { font: FontKey; size: number; gray: number; spaceBefore: number }> = {
+  title: { font: "F2", size: 20, gray: 0.06, spaceBefore: 0 },
+  heading: { font: "F2", size: 13, gray: 0.06, spaceBefore: 16 },
+  subheading: { font: "F2", size: 10.5, gray: 0.12, spaceBefore: 8 },
+  body: { font: "F1", size: 10, gray: 0.2, spaceBefore: 2 },
+  muted: { font: "F1", size: 9, gray: 0.42, spaceBefore: 1 },
+};
+
+// Advance widths in 1/1000 em for the printable ASCII range (32–126), from the standard Helvetica metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+const FONT_WIDTHS: Record<FontKey, number[]> = { F1: HELVETICA_WIDTHS, F2: HELVETICA_BOLD_WIDTHS };
+
+// WinAnsiEncoding code points for the characters it places in 0x80–0x9F; Latin-1 covers 0xA0–0xFF directly.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88, "‰": 0x89, "Š": 0x8a,
+  "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+  "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+// Common characters outside WinAnsi that have a readable stand-in. Anything else prints as "?".
+const CHARACTER_FALLBACKS: Record<string, string> = {
+  "\u2192": "->",
+  "\u2190": "<-",
+  "\u2248": "~",
+  "\u2011": "-",
+  "\u202f": " ",
+  "\u2009": " ",
+};
+
+// Returns text as single-byte WinAnsi characters, one string character per byte.
+const toWinAnsi = (value: string): string =>
+  Array.from(value.normalize("NFC").replace(/[\t\r\n]+/g, " ").replace(/\u200d|\ufe0e|\ufe0f/g, ""))
+    .map((character) => {
+      const fallback = CHARACTER_FALLBACKS[character];
+      if (fallback) {
+        return fallback;
+      }
+
+      const code = character.charCodeAt(0);
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+        return character;
+      }
+
+      const extra = WIN_ANSI_EXTRAS[character];
+      return extra ? String.fromCharCode(extra) : "?";
+    })
+    .join("");
+
+const measureText = (text: string, font: FontKey, size: number): number => {
+  const widths = FONT_WIDTHS[font];
+  let total = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    const code = text.charCodeAt(index);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+
+  return (total * size) / 1000;
+};
+
+// Greedy word wrap; words wider than the line are broken between characters.
+const wrapText = (text: string, font: FontKey, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = "";
+
+  text.split(" ").forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measureText(candidate, font, size) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+
+    if (current) {
+      lines.push(current);
+    }
+
+    current = "";
+    for (const character of word) {
+      if (current && measureText(current + character, font, size) > maxWidth) {
+        lines.push(current);
+        current = "";
+      }
+      current += character;
+    }
+  });
+
+  if (current || !lines.length) {
+    lines.push(current);
+  }
+
+  return lines;
+};
+
+// Literal strings stay ASCII so byte offsets in the cross-reference table equal string lengths.
+const escapePdfString = (value: string): string =>
+  value.replace(/[\\()]/g, (character) => `\\${character}`).replace(/[\x80-\xff]/g, (character) =>
+    `\\${character.charCodeAt(0).toString(8).padStart(3, "0")}`
+  );
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const layoutPages = (blocks: PdfBlock[]): PdfLine[][] => {
+  const pages: PdfLine[][] = [[]];
+  const bottom = MARGIN + FOOTER_SIZE * 2;
+  let cursor = PAGE_HEIGHT - MARGIN;
+
+  const startPage = () => {
+    pages.push([]);
+    cursor = PAGE_HEIGHT - MARGIN;
+  };
+
+  blocks.forEach((block) => {
+    const style = STYLE_CONFIG[block.style ?? "body"];
+    const indent = block.indent ?? 0;
+    const lineHeight = style.size * LINE_HEIGHT_RATIO;
+    const paragraphs = block.text.split(/\r\n|\r|\n/).map(toWinAnsi);
+    const lines = paragraphs.flatMap((paragraph) =>
+      wrapText(paragraph, style.font, style.size, PAGE_WIDTH - MARGIN * 2 - indent)
+    );
+    const isPageTop = cursor === PAGE_HEIGHT - MARGIN;
+
+    if (!isPageTop) {
+      cursor -= style.spaceBefore;
+    }
+
+    // Headings keep at least a couple of following lines on the same page.
+    const keepTogether = block.style === "heading" || block.style === "subheading" ? lineHeight * 3 : lineHeight;
+    if (!isPageTop && cursor - keepTogether < bottom) {
+      startPage();
+    }
+
+    lines.forEach((text) => {
+      if (cursor - lineHeight < bottom) {
+        startPage();
+      }
+
+      cursor -= lineHeight;
+      pages[pages.length - 1].push({
+        text,
+        font: style.font,
+        size: style.size,
+        gray: style.gray,
+        x: MARGIN + indent,
+        y: cursor + (lineHeight - style.size) / 2,
+      });
+    });
+  });
+
+  return pages;
+};
+
+const renderTextLine = ({ text, font, size, gray, x, y }: PdfLine): string =>
+  `BT /${font} ${formatNumber(size)} Tf ${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(y)} Td ` +
+  `(${escapePdfString(text)}) Tj ET`;
+
+export const buildPdfDocument = ({ title, blocks }: PdfDocumentOptions): string => {
+  const pages = layoutPages(blocks);
+  const footerTitle = toWinAnsi(title);
+  const objects: string[] = [];
+  // Objects 1–4 are fixed; each page then takes a page object and a content stream object.
+  const pageObjectNumber = (index: number) => 5 + index * 2;
+
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObjectNumber(index)} 0 R`).join(" ")}] ` +
+      `/Count ${pages.length} >>`
+  );
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+  pages.forEach((lines, index) => {
+    const footer: PdfLine = {
+      text: `${footerTitle} · page ${index + 1} of ${pages.length}`,
+      font: "F1",
+      size: FOOTER_SIZE,
+      gray: 0.5,
+      x: MARGIN,
+      y: MARGIN,
+    };
+    const stream = [...lines, footer].map(renderTextLine).join("\n");
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectNumber(index) + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  objects.push(`<< /Title (${escapePdfString(footerTitle)}) /Producer (Travelio) >>`);
+  const infoObjectNumber = objects.length;
+
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoObjectNumber} 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return output;
+};
+
+export const buildPdfFileName = (title: string): string => `${slugifyTitle(title)}.pdf`;
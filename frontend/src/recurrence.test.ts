@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { endRecurrenceBefore, listOccurrences, shiftRecurrenceExceptions } from "./recurrence";
+import type { EventRecurrence } from "./recurrence";
+
+// Breakfast daily at 9:00 for a week, skipped on the 2nd and 5th and moved to 11:00 on the 6th.
+const recurrence: EventRecurrence = {
+  frequency: "daily",
+  interval: 1,
+  weekdays: [],
+  until: "2025-06-07T23:59",
+  exceptions: {
+    "2025-06-02T09:00": null,
+    "2025-06-05T09:00": null,
+    "2025-06-06T09:00": { startDateTime: "2025-06-06T11:00", endDateTime: "2025-06-06T12:00" },
+  },
+};
+
+const timing = (startDateTime: string, endDateTime: string, rule: EventRecurrence) => ({
+  startDateTime,
+  endDateTime,
+  startTimeZone: "Europe/Paris",
+  endTimeZone: "Europe/Paris",
+  recurrence: rule,
+});
+
+describe("shiftRecurrenceExceptions", () => {
+  it("keeps skipped and moved occurrences after a split in the new series", () => {
+    // "This and following" from the 4th, moved an hour later.
+    const before = endRecurrenceBefore(recurrence, "2025-06-04T09:00");
+    expect(Object.keys(before.exceptions)).toEqual(["2025-06-02T09:00"]);
+
+    const later = Object.fromEntries(
+      Object.entries(recurrence.exceptions).filter(([key]) => key > "2025-06-04T09:00")
+    );
+    const following = { ...recurrence, exceptions: shiftRecurrenceExceptions(later, 60, 60, 60) };
+    const occurrences = listOccurrences(timing("2025-06-04T10:00", "2025-06-04T11:00", following), "2025-06-30T00:00");
+    expect(occurrences.map(({ startDateTime }) => startDateTime)).toEqual([
+      "2025-06-04T10:00",
+      "2025-06-06T12:00",
+      "2025-06-07T10:00",
+    ]);
+  });
+
+  it("rebases keys on the series start and moves times by their own shifts", () => {
+    expect(shiftRecurrenceExceptions(recurrence.exceptions, -24 * 60, 30, 90)).toEqual({
+      "2025-06-01T09:00": null,
+      "2025-06-04T09:00": null,
+      "2025-06-05T09:00": { startDateTime: "2025-06-06T11:30", endDateTime: "2025-06-06T13:30" },
+    });
+  });
+});
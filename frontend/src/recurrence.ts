@@ -0,0 +1,217 @@
+// Recurrence rules for repeating itinerary events and their expansion into occurrences. Times are ISO-local wall
+// clock values (`YYYY-MM-DDTHH:mm`) in the event's own zones, like the events themselves.
+
+import { shiftIsoLocal } from "./timeZones";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "hourly";
+
+// A moved occurrence, or null when the occurrence is skipped.
+export type RecurrenceException = {
+  startDateTime: string;
+  endDateTime: string;
+} | null;
+
+export type EventRecurrence = {
+  frequency: RecurrenceFrequency;
+  // Every `interval` days for daily rules and hours for hourly ones. Weekly rules repeat every week.
+  interval: number;
+  // Days of the week (0 is Sunday) for weekly rules.
+  weekdays: number[];
+  // Latest wall clock time an occurrence may start at; null repeats until the end of the trip.
+  until: string | null;
+  // Keyed by the start the occurrence would have had without the exception.
+  exceptions: Record<string, RecurrenceException>;
+};
+
+export type RecurringTiming = {
+  startDateTime: string;
+  endDateTime: string;
+  startTimeZone: string | null;
+  endTimeZone: string | null;
+  recurrence: EventRecurrence;
+};
+
+export type Occurrence = {
+  key: string;
+  startDateTime: string;
+  endDateTime: string;
+  isException: boolean;
+};
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "hourly"];
+
+// Guards against runaway rules such as every hour on a trip without an end date.
+export const MAX_OCCURRENCES = 500;
+
+const DAY_MINUTES = 24 * 60;
+const ISO_LOCAL_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+const weekdayFormatter = new Intl.DateTimeFormat(undefined, { weekday: "short", timeZone: "UTC" });
+const untilFormatter = new Intl.DateTimeFormat(undefined, { month: "short", day: "numeric" });
+
+// Day of the week (0 is Sunday) of an ISO date or ISO-local date-time.
+export const getWeekday = (isoLocal: string): number =>
+  new Date(`${isoLocal.slice(0, 10)}T00:00:00Z`).getUTCDay();
+
+// 2023-01-01 was a Sunday.
+export const formatWeekdayLabel = (weekday: number): string =>
+  weekdayFormatter.format(new Date(Date.UTC(2023, 0, 1 + weekday)));
+
+export const isRecurrenceFrequency = (value: unknown): value is RecurrenceFrequency =>
+  typeof value === "string" && RECURRENCE_FREQUENCIES.includes(value as RecurrenceFrequency);
+
+const coerceException = (value: unknown): RecurrenceException | undefined => {
+  if (value === null) {
+    return null;
+  }
+
+  const { startDateTime, endDateTime } = (value ?? {}) as { startDateTime?: unknown; endDateTime?: unknown };
+  return typeof startDateTime === "string" &&
+    typeof endDateTime === "string" &&
+    ISO_LOCAL_PATTERN.test(startDateTime) &&
+    ISO_LOCAL_PATTERN.test(endDateTime)
+    ? { startDateTime, endDateTime }
+    : undefined;
+};
+
+export const coerceRecurrence = (value: unknown): EventRecurrence | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (!isRecurrenceFrequency(record.frequency)) {
+    return null;
+  }
+
+  const interval =
+    typeof record.interval === "number" && Number.isInteger(record.interval) && record.interval > 0
+      ? record.interval
+      : 1;
+  const weekdays = Array.isArray(record.weekdays)
+    ? Array.from(
+        new Set(
+          record.weekdays.filter(
+            (entry): entry is number => typeof entry === "number" && Number.isInteger(entry) && entry >= 0 && entry < 7
+          )
+        )
+      ).sort()
+    : [];
+  const exceptions: Record<string, RecurrenceException> = {};
+  if (record.exceptions && typeof record.exceptions === "object") {
+    Object.entries(record.exceptions as Record<string, unknown>).forEach(([key, entry]) => {
+      const exception = coerceException(entry);
+      if (ISO_LOCAL_PATTERN.test(key) && exception !== undefined) {
+        exceptions[key] = exception;
+      }
+    });
+  }
+
+  return {
+    frequency: record.frequency,
+    interval,
+    weekdays,
+    until: typeof record.until === "string" && ISO_LOCAL_PATTERN.test(record.until) ? record.until : null,
+    exceptions,
+  };
+};
+
+// Daily and weekly rules keep the wall clock time, so breakfast stays at 8:00 across a DST change. Hourly rules
+// count real elapsed time in the event's zones, so "every 8 hours" medication stays 8 hours apart.
+const shiftOccurrence = (
+  timing: RecurringTiming,
+  minutes: number,
+  elapsed: boolean
+): { startDateTime: string; endDateTime: string } | null => {
+  const startDateTime = shiftIsoLocal(timing.startDateTime, elapsed ? timing.startTimeZone : null, minutes);
+  const endDateTime = shiftIsoLocal(timing.endDateTime, elapsed ? timing.endTimeZone : null, minutes);
+  return startDateTime && endDateTime ? { startDateTime, endDateTime } : null;
+};
+
+// Occurrences that start no later than `rangeEnd` (or the rule's own `until`), with exceptions applied.
+export const listOccurrences = (timing: RecurringTiming, rangeEnd: string): Occurrence[] => {
+  const { recurrence } = timing;
+  const limit = recurrence.until && recurrence.until < rangeEnd ? recurrence.until : rangeEnd;
+  const weekdays = recurrence.weekdays.length ? recurrence.weekdays : [getWeekday(timing.startDateTime)];
+  const stepMinutes =
+    recurrence.frequency === "hourly"
+      ? recurrence.interval * 60
+      : recurrence.frequency === "daily"
+        ? recurrence.interval * DAY_MINUTES
+        : DAY_MINUTES;
+  const occurrences: Occurrence[] = [];
+
+  // Weekly rules walk day by day, so the loop bound allows for the days that are not picked.
+  for (let step = 0; occurrences.length < MAX_OCCURRENCES && step < MAX_OCCURRENCES * 7; step += 1) {
+    const shifted = shiftOccurrence(timing, step * stepMinutes, recurrence.frequency === "hourly");
+    if (!shifted || shifted.startDateTime > limit) {
+      break;
+    }
+
+    if (recurrence.frequency === "weekly" && !weekdays.includes(getWeekday(shifted.startDateTime))) {
+      continue;
+    }
+
+    const key = shifted.startDateTime;
+    const exception = recurrence.exceptions[key];
+    if (exception === null) {
+      continue;
+    }
+
+    occurrences.push({ key, ...(exception ?? shifted), isException: Boolean(exception) });
+  }
+
+  return occurrences;
+};
+
+// The rule for the occurrences before `occurrenceKey`, used when "this and following" splits a series.
+export const endRecurrenceBefore = (recurrence: EventRecurrence, occurrenceKey: string): EventRecurrence => ({
+  ...recurrence,
+  until: shiftIsoLocal(occurrenceKey, null, -1),
+  exceptions: Object.fromEntries(Object.entries(recurrence.exceptions).filter(([key]) => key < occurrenceKey)),
+});
+
+// Exceptions of a series that was moved: keys follow the series' start by `keyMinutes`, and moved occurrences keep
+// their own times, shifted by `startMinutes` and `endMinutes` like the occurrence that was edited. Shifts are on the
+// wall clock, as keys are.
+export const shiftRecurrenceExceptions = (
+  exceptions: Record<string, RecurrenceException>,
+  keyMinutes: number,
+  startMinutes: number,
+  endMinutes: number
+): Record<string, RecurrenceException> => {
+  const shifted: Record<string, RecurrenceException> = {};
+  Object.entries(exceptions).forEach(([key, exception]) => {
+    const shiftedKey = shiftIsoLocal(key, null, keyMinutes);
+    if (!shiftedKey) {
+      return;
+    }
+
+    if (!exception) {
+      shifted[shiftedKey] = null;
+      return;
+    }
+
+    const startDateTime = shiftIsoLocal(exception.startDateTime, null, startMinutes);
+    const endDateTime = shiftIsoLocal(exception.endDateTime, null, endMinutes);
+    if (startDateTime && endDateTime) {
+      shifted[shiftedKey] = { startDateTime, endDateTime };
+    }
+  });
+
+  return shifted;
+};
+
+export const describeRecurrence = (recurrence: EventRecurrence): string => {
+  const { frequency, interval, weekdays, until } = recurrence;
+  const rule =
+    frequency === "hourly"
+      ? `Every ${interval === 1 ? "hour" : `${interval} hours`}`
+      : frequency === "daily"
+        ? interval === 1
+          ? "Daily"
+          : `Every ${interval} days`
+        : `Weekly on ${weekdays.map(formatWeekdayLabel).join(", ")}`;
+
+  return until ? `${rule} until ${untilFormatter.format(new Date(`${until.slice(0, 10)}T00:00:00`))}` : rule;
+};
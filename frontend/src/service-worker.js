@@ -0,0 +1,90 @@
+// Service worker template. The build (see `serviceWorkerPlugin` in vite.config.ts) replaces the two
+// placeholders below with a version derived from the bundle and the list of files to precache.
+const CACHE_VERSION = "__CACHE_VERSION__";
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `travelio-shell-${CACHE_VERSION}`;
+const FONT_CACHE = "travelio-fonts";
+const MAP_TILE_CACHE = "travelio-map-tiles";
+// Slippy map tiles end in /{z}/{x}/{y}.png (or .jpg, .webp, optionally @2x), whichever tile server is configured.
+const MAP_TILE_PATTERN = /\/\d+\/\d+\/\d+(@2x)?\.(png|jpe?g|webp)$/;
+const APP_SHELL_URL = "/";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("travelio-shell-") && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const fromNetworkOrShell = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    // Every route is rendered by the SPA, so the cached shell can answer any navigation offline.
+    const cached = await caches.match(APP_SHELL_URL, { cacheName: SHELL_CACHE });
+    return cached ?? Response.error();
+  }
+};
+
+const fromCacheThenNetwork = async (request, cacheName) => {
+  const cached = await caches.match(request, { cacheName });
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") {
+    return;
+  }
+
+  // Firestore and Auth traffic is left alone; the Firestore SDK keeps its own offline cache in IndexedDB.
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate" && url.origin === self.location.origin) {
+    event.respondWith(fromNetworkOrShell(request));
+    return;
+  }
+
+  if (request.destination === "font") {
+    event.respondWith(fromCacheThenNetwork(request, FONT_CACHE));
+    return;
+  }
+
+  // Tiles seen once stay available offline, so a day map viewed before the trip still has its background.
+  if (request.destination === "image" && MAP_TILE_PATTERN.test(url.pathname)) {
+    event.respondWith(fromCacheThenNetwork(request, MAP_TILE_CACHE));
+    return;
+  }
+
+  if (url.origin === self.location.origin && PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(fromCacheThenNetwork(request, SHELL_CACHE));
+  }
+});
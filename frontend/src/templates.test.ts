@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { coerceRecurrence, getWeekday, listOccurrences } from "./recurrence";
+import { countDaysBetween, shiftIsoDate, shiftStoredEvent } from "./templates";
+
+describe("shiftIsoDate", () => {
+  it("moves dates across month ends in either direction", () => {
+    expect(shiftIsoDate("2025-03-28", 5)).toBe("2025-04-02");
+    expect(shiftIsoDate("2025-03-28", -30)).toBe("2025-02-26");
+    expect(countDaysBetween("2025-03-28", "2025-04-02")).toBe(5);
+  });
+});
+
+describe("shiftStoredEvent", () => {
+  // Monday 2025-06-02 and Wednesday, weekly until the Sunday a week later.
+  const weekly = {
+    title: "Stand-up",
+    startDateTime: "2025-06-02T09:00",
+    endDateTime: "2025-06-02T09:15",
+    startTimeZone: "Asia/Kolkata",
+    endTimeZone: "Asia/Kolkata",
+    recurrence: {
+      frequency: "weekly",
+      interval: 1,
+      weekdays: [1, 3],
+      until: "2025-06-15T23:59",
+      exceptions: {
+        "2025-06-04T09:00": null,
+        "2025-06-09T09:00": { startDateTime: "2025-06-09T10:00", endDateTime: "2025-06-09T10:15" },
+      },
+    },
+  };
+
+  it("moves times, the end date and exceptions by whole days", () => {
+    const shifted = shiftStoredEvent(weekly, 7);
+    expect(shifted.startDateTime).toBe("2025-06-09T09:00");
+    expect(shifted.startTimeZone).toBe("Asia/Kolkata");
+    expect(shifted.recurrence).toMatchObject({
+      weekdays: [1, 3],
+      until: "2025-06-22T23:59",
+      exceptions: {
+        "2025-06-11T09:00": null,
+        "2025-06-16T09:00": { startDateTime: "2025-06-16T10:00", endDateTime: "2025-06-16T10:15" },
+      },
+    });
+  });
+
+  it("keeps weekly occurrences on the same days of the trip", () => {
+    const shifted = shiftStoredEvent(weekly, 29);
+    const recurrence = coerceRecurrence(shifted.recurrence);
+    expect(recurrence?.weekdays).toEqual([2, 4]);
+
+    const occurrences = listOccurrences(
+      {
+        startDateTime: shifted.startDateTime as string,
+        endDateTime: shifted.endDateTime as string,
+        startTimeZone: "Asia/Kolkata",
+        endTimeZone: "Asia/Kolkata",
+        recurrence: recurrence!,
+      },
+      "2025-07-20T23:59"
+    );
+    const original = listOccurrences(
+      { ...weekly, recurrence: coerceRecurrence(weekly.recurrence)! },
+      "2025-06-22T23:59"
+    );
+
+    expect(occurrences.map((entry) => entry.startDateTime)).toEqual(
+      original.map((entry) => shiftIsoDate(entry.startDateTime.slice(0, 10), 29) + entry.startDateTime.slice(10))
+    );
+    expect(getWeekday(occurrences[0].startDateTime)).toBe(2);
+  });
+
+  it("rotates weekdays backwards too", () => {
+    const shifted = shiftStoredEvent(weekly, -2);
+    expect((shifted.recurrence as { weekdays: number[] }).weekdays).toEqual([1, 6]);
+  });
+});
@@ -0,0 +1,53 @@
+// Copying trips to new dates, for "Duplicate" and for itineraries started from a template. Events are copied as
+// stored, so fields this module does not know about come along unchanged.
+
+import { shiftIsoLocal } from "./timeZones";
+
+const DAY_MINUTES = 24 * 60;
+
+// Whole days from one ISO date to another; negative when `to` is earlier.
+export const countDaysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (DAY_MINUTES * 60_000));
+
+export const shiftIsoDate = (date: string, days: number): string | null =>
+  shiftIsoLocal(`${date}T00:00`, null, days * DAY_MINUTES)?.slice(0, 10) ?? null;
+
+// Moves a stored event by whole days on the wall clock, so it keeps its time of day and its zones. A repeating
+// event's weekdays, end date and moved or skipped occurrences move with it.
+export const shiftStoredEvent = (data: Record<string, unknown>, days: number): Record<string, unknown> => {
+  const shift = (value: unknown) =>
+    typeof value === "string" ? shiftIsoLocal(value, null, days * DAY_MINUTES) ?? value : value;
+  const shifted: Record<string, unknown> = {
+    ...data,
+    startDateTime: shift(data.startDateTime),
+    endDateTime: shift(data.endDateTime),
+  };
+
+  if (data.recurrence && typeof data.recurrence === "object") {
+    const recurrence = data.recurrence as Record<string, unknown>;
+    const exceptions =
+      recurrence.exceptions && typeof recurrence.exceptions === "object"
+        ? Object.fromEntries(
+            Object.entries(recurrence.exceptions as Record<string, unknown>).map(([key, exception]) => [
+              shift(key) as string,
+              exception && typeof exception === "object"
+                ? {
+                    ...exception,
+                    startDateTime: shift((exception as Record<string, unknown>).startDateTime),
+                    endDateTime: shift((exception as Record<string, unknown>).endDateTime),
+                  }
+                : exception,
+            ])
+          )
+        : recurrence.exceptions;
+    // Weekly rules name their days, which move with the dates unless the shift is a whole number of weeks.
+    const weekdays = Array.isArray(recurrence.weekdays)
+      ? recurrence.weekdays
+          .map((weekday) => (typeof weekday === "number" ? (((weekday + days) % 7) + 7) % 7 : weekday))
+          .sort()
+      : recurrence.weekdays;
+    shifted.recurrence = { ...recurrence, weekdays, until: shift(recurrence.until), exceptions };
+  }
+
+  return shifted;
+};
@@ -0,0 +1,160 @@
+// IANA time zone helpers built on Intl, shared by the calendar and the iCalendar import/export.
+
+const MINUTE_MS = 60_000;
+const ISO_LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getOffsetFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isSupportedTimeZone = (timeZone: string): boolean => {
+  try {
+    getOffsetFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes to add to UTC to get the wall clock in `timeZone` at `utcMs`.
+export const getTimeZoneOffsetMinutes = (timeZone: string, utcMs: number): number => {
+  const parts = getOffsetFormatter(timeZone).formatToParts(new Date(utcMs));
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const wallClockMs = Date.UTC(
+    read("year"),
+    read("month") - 1,
+    read("day"),
+    read("hour"),
+    read("minute"),
+    read("second")
+  );
+
+  return Math.round((wallClockMs - Math.floor(utcMs / 1000) * 1000) / MINUTE_MS);
+};
+
+// `wallClockMs` is a wall clock reading encoded as if it were UTC. Times skipped by a DST change resolve forwards.
+export const zonedWallClockToUtc = (timeZone: string, wallClockMs: number): number => {
+  const guess = wallClockMs - getTimeZoneOffsetMinutes(timeZone, wallClockMs) * MINUTE_MS;
+  return wallClockMs - getTimeZoneOffsetMinutes(timeZone, guess) * MINUTE_MS;
+};
+
+const parseIsoLocalWallClock = (value: string): number | null => {
+  const match = ISO_LOCAL_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes);
+};
+
+const formatIsoLocalWallClock = (wallClockMs: number): string => {
+  const date = new Date(wallClockMs);
+  return (
+    `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`
+  );
+};
+
+// Zone-less values are read on the device's clock.
+export const isoLocalToUtcMs = (value: string, timeZone: string | null): number | null => {
+  const wallClockMs = parseIsoLocalWallClock(value);
+  if (wallClockMs === null) {
+    return null;
+  }
+
+  return zonedWallClockToUtc(timeZone ?? getDeviceTimeZone(), wallClockMs);
+};
+
+export const utcMsToIsoLocal = (utcMs: number, timeZone: string): string =>
+  formatIsoLocalWallClock(utcMs + getTimeZoneOffsetMinutes(timeZone, utcMs) * MINUTE_MS);
+
+export const convertIsoLocal = (value: string, fromTimeZone: string, toTimeZone: string): string | null => {
+  if (fromTimeZone === toTimeZone) {
+    return value;
+  }
+
+  const utcMs = isoLocalToUtcMs(value, fromTimeZone);
+  return utcMs === null ? null : utcMsToIsoLocal(utcMs, toTimeZone);
+};
+
+// Moves a wall clock value by real elapsed minutes, so shifting across a DST change keeps durations intact.
+// Zone-less values are shifted on the wall clock.
+export const shiftIsoLocal = (value: string, timeZone: string | null, minutes: number): string | null => {
+  if (!timeZone) {
+    const wallClockMs = parseIsoLocalWallClock(value);
+    return wallClockMs === null ? null : formatIsoLocalWallClock(wallClockMs + minutes * MINUTE_MS);
+  }
+
+  const utcMs = isoLocalToUtcMs(value, timeZone);
+  return utcMs === null ? null : utcMsToIsoLocal(utcMs + minutes * MINUTE_MS, timeZone);
+};
+
+let cachedTimeZones: string[] | null = null;
+
+export const listTimeZones = (): string[] => {
+  if (!cachedTimeZones) {
+    const supported = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+    const deviceTimeZone = getDeviceTimeZone();
+    cachedTimeZones = Array.from(new Set([...supported, deviceTimeZone, "UTC"])).sort((a, b) => a.localeCompare(b));
+  }
+
+  return cachedTimeZones;
+};
+
+// Short zone name such as "IST" or "GMT+1" at the given moment; falls back to the IANA name.
+export const formatTimeZoneAbbreviation = (timeZone: string, utcMs: number = Date.now()): string => {
+  try {
+    const parts = new Intl.DateTimeFormat(undefined, { timeZone, timeZoneName: "short" }).formatToParts(
+      new Date(utcMs)
+    );
+    return parts.find((part) => part.type === "timeZoneName")?.value ?? timeZone;
+  } catch {
+    return timeZone;
+  }
+};
+
+export const formatTimeZoneLabel = (timeZone: string): string => {
+  const offset = getTimeZoneOffsetMinutes(timeZone, Date.now());
+  const sign = offset < 0 ? "-" : "+";
+  const absolute = Math.abs(offset);
+  const minutes = absolute % 60;
+  const offsetLabel = `GMT${sign}${Math.floor(absolute / 60)}${minutes ? `:${pad(minutes)}` : ""}`;
+  return `${timeZone.replace(/_/g, " ")} (${offsetLabel})`;
+};
+
+let cachedTimeZoneOptions: { value: string; label: string }[] | null = null;
+
+export const listTimeZoneOptions = (): { value: string; label: string }[] => {
+  if (!cachedTimeZoneOptions) {
+    cachedTimeZoneOptions = listTimeZones().map((timeZone) => ({
+      value: timeZone,
+      label: formatTimeZoneLabel(timeZone),
+    }));
+  }
+
+  return cachedTimeZoneOptions;
+};
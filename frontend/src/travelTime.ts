@@ -0,0 +1,92 @@
+// Travel time estimates between event locations. The calendar only talks to a `TravelTimeEstimator`, so a routing
+// service can replace the straight-line estimate below by passing its own factory to the itinerary view.
+
+import type { GeoPoint } from "./locations";
+
+export type TravelMode = "walking" | "driving" | "transit";
+
+// Average door-to-door speeds in km/h.
+export type TravelSpeeds = Record<TravelMode, number>;
+
+export type TravelLeg = {
+  from: GeoPoint;
+  to: GeoPoint;
+  mode: TravelMode;
+};
+
+export type TravelEstimate = {
+  mode: TravelMode;
+  // Straight-line distance, whatever route the estimate assumes.
+  distanceKm: number;
+  minutes: number;
+};
+
+// Resolves to null when the estimator has no answer for the leg, such as a routing service finding no route.
+export type TravelTimeEstimator = {
+  estimate: (leg: TravelLeg) => Promise<TravelEstimate | null>;
+};
+
+export type TravelTimeEstimatorFactory = (speeds: TravelSpeeds) => TravelTimeEstimator;
+
+export const TRAVEL_MODES: TravelMode[] = ["walking", "transit", "driving"];
+
+export const DEFAULT_TRAVEL_SPEEDS: TravelSpeeds = {
+  walking: 4.5,
+  transit: 20,
+  driving: 35,
+};
+
+export const MAX_TRAVEL_SPEED = 1000;
+
+const EARTH_RADIUS_KM = 6371;
+// Streets are rarely straight; real routes run about a third longer than the crow flies.
+const ROUTE_DETOUR_FACTOR = 1.3;
+// Walking to the stop and waiting for the next departure.
+const TRANSIT_WAIT_MINUTES = 10;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Great-circle distance by the haversine formula.
+export const getStraightLineDistanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const latDelta = toRadians(to.lat - from.lat);
+  const lngDelta = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(latDelta / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(lngDelta / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const isValidTravelSpeed = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 && value <= MAX_TRAVEL_SPEED;
+
+// Missing or invalid speeds fall back to the defaults; null when nothing is stored.
+export const coerceTravelSpeeds = (value: unknown): TravelSpeeds | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  return Object.fromEntries(
+    TRAVEL_MODES.map((mode) => [mode, isValidTravelSpeed(record[mode]) ? record[mode] : DEFAULT_TRAVEL_SPEEDS[mode]])
+  ) as TravelSpeeds;
+};
+
+export const createStraightLineEstimator: TravelTimeEstimatorFactory = (speeds) => ({
+  estimate: async ({ from, to, mode }) => {
+    const distanceKm = getStraightLineDistanceKm(from, to);
+    const movingMinutes = ((distanceKm * ROUTE_DETOUR_FACTOR) / speeds[mode]) * 60;
+    return {
+      mode,
+      distanceKm,
+      minutes: Math.ceil(movingMinutes + (mode === "transit" ? TRANSIT_WAIT_MINUTES : 0)),
+    };
+  },
+});
+
+export const formatDistance = (distanceKm: number): string => {
+  if (distanceKm < 1) {
+    return `${Math.round(distanceKm * 1000)} m`;
+  }
+
+  return `${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km`;
+};
@@ -1,7 +1,35 @@
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const serviceWorkerTemplate = fileURLToPath(new URL('./src/service-worker.js', import.meta.url))
+const publicDir = fileURLToPath(new URL('./public', import.meta.url))
+
+// Emits `sw.js` with every file of the production bundle precached, including lazily loaded chunks such as
+// `firebase/firestore`, plus the manifest and icons from `public/`.
+const serviceWorkerPlugin = (): Plugin => ({
+  name: 'travelio-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const bundleFiles = Object.keys(bundle).filter((fileName) => !fileName.endsWith('.map'))
+    const publicFiles = readdirSync(publicDir)
+    const urls = Array.from(new Set(['/', ...[...bundleFiles, ...publicFiles].map((fileName) => `/${fileName}`)]))
+      .filter((url) => url !== '/sw.js')
+      .sort()
+
+    const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12)
+    const source = readFileSync(serviceWorkerTemplate, 'utf8')
+      .replace('"__CACHE_VERSION__"', JSON.stringify(version))
+      .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2))
+
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+  },
+})
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPlugin()],
 })